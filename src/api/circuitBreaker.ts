@@ -0,0 +1,101 @@
+// ============================================
+// Farm Manager Bot - Circuit Breaker
+// ============================================
+
+import { Logger } from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+    endpoint: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    retryInMs: number; // Tempo até liberar uma tentativa (0 se fechado)
+}
+
+/**
+ * Circuit breaker de um endpoint:
+ * - closed: requisições passam normalmente
+ * - open: após N falhas seguidas, bloqueia requisições durante o cooldown
+ * - half_open: após o cooldown, libera uma única requisição de teste
+ */
+export class CircuitBreaker {
+    private endpoint: string;
+    private failureThreshold: number;
+    private cooldownMs: number;
+    private logger: Logger;
+    private state: CircuitState = 'closed';
+    private consecutiveFailures: number = 0;
+    private openedAt: number = 0;
+    private trialInFlight: boolean = false;
+
+    constructor(endpoint: string, failureThreshold: number, cooldownMs: number, logger: Logger) {
+        this.endpoint = endpoint;
+        this.failureThreshold = failureThreshold;
+        this.cooldownMs = cooldownMs;
+        this.logger = logger;
+    }
+
+    /**
+     * Retorna true se a requisição pode ser enviada
+     */
+    canRequest(): boolean {
+        if (this.state === 'closed') {
+            return true;
+        }
+
+        if (this.state === 'open') {
+            if (Date.now() - this.openedAt < this.cooldownMs) {
+                return false;
+            }
+            this.state = 'half_open';
+            this.trialInFlight = false;
+            this.logger.info(`🔌 Circuito de ${this.endpoint} semi-aberto, testando endpoint...`);
+        }
+
+        // half_open: apenas uma requisição de teste por vez
+        if (this.trialInFlight) {
+            return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+
+    recordSuccess(): void {
+        if (this.state !== 'closed') {
+            this.logger.success(`Circuito de ${this.endpoint} fechado, endpoint recuperado`);
+        }
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.trialInFlight = false;
+
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+            if (this.state !== 'open') {
+                this.logger.warn(
+                    `🔌 Circuito de ${this.endpoint} aberto após ${this.consecutiveFailures} falha(s). ` +
+                    `Pausando por ${Math.ceil(this.cooldownMs / 1000)}s`
+                );
+            }
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+
+    getStatus(): CircuitBreakerStatus {
+        const retryInMs = this.state === 'open'
+            ? Math.max(0, this.cooldownMs - (Date.now() - this.openedAt))
+            : 0;
+
+        return {
+            endpoint: this.endpoint,
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            retryInMs,
+        };
+    }
+}
@@ -2,7 +2,7 @@
 // Farm Manager Bot - API Client
 // ============================================
 
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import {
     BaseResponse,
     CultivatingTabResponse,
@@ -10,6 +10,9 @@ import {
     HarvestTabResponse,
     PendingTabResponse,
     SiloTabResponse,
+    SiloKind,
+    CropSiloUpgradeSize,
+    SiloUpgradeResponse,
     CropValuesResponse,
     SellProductResponse,
     FarmlandDetailsResponse,
@@ -17,10 +20,47 @@ import {
     BatchActionUnit,
     FuelSiloResponse,
     BuyFuelResponse,
+    FarmlandActionResponse,
+    FarmlandDataResponse,
+    MarketResponse,
+    BuySeedResponse,
+    IrrigateResponse,
+    ImplementChangeResponse,
+    RepairResponse,
+    WearUnitKind,
+    MachineMarketResponse,
+    BuyMachineResponse,
 } from '../types';
 import { Logger } from '../utils/logger';
-
-const BASE_URL = 'https://farm-app.trophyapi.com/api';
+import { ApiError, classifyError } from './errors';
+import { CircuitBreaker, CircuitBreakerStatus } from './circuitBreaker';
+import { DryRunRecorder } from './dryRun';
+import { ResponseSchema, SchemaDriftReporter, decode } from './schema';
+import {
+    CultivatingTabSchema,
+    SeedingTabSchema,
+    HarvestTabSchema,
+    PendingTabSchema,
+    SiloTabSchema,
+    SiloUpgradeSchema,
+    CropValuesSchema,
+    SellProductSchema,
+    FarmlandDetailsSchema,
+    FarmlandActionSchema,
+    BatchActionSchema,
+    IrrigateSchema,
+    ImplementChangeSchema,
+    RepairSchema,
+    MachineMarketSchema,
+    BuyMachineSchema,
+    FarmlandDataSchema,
+    MarketSchema,
+    BuySeedSchema,
+    FuelSiloSchema,
+    BuyFuelSchema,
+} from './schemas';
+
+export const DEFAULT_BASE_URL = 'https://farm-app.trophyapi.com';
 
 const DEFAULT_HEADERS = {
     'User-Agent': 'Mozilla/5.0 (Linux; Android 12; SM-G973F Build/SP1A.210812.016; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/143.0.7499.146 Mobile Safari/537.36',
@@ -40,32 +80,294 @@ const DEFAULT_HEADERS = {
     'Priority': 'u=1, i',
 };
 
+/**
+ * Callback chamado quando a sessão expira. Deve retornar um novo PHPSESSID.
+ */
+export type SessionRefresher = () => Promise<string>;
+
+export interface ApiClientOptions {
+    baseUrl?: string; // Host do jogo, sem /api (default: DEFAULT_BASE_URL)
+    onSessionExpired?: SessionRefresher;
+    timeoutMs?: number; // Timeout por requisição (default: 15000)
+    maxRetries?: number; // Tentativas extras para leituras idempotentes (default: 3)
+    retryBaseDelayMs?: number; // Delay base do backoff exponencial (default: 1000)
+    circuitBreakerThreshold?: number; // Falhas seguidas para abrir o circuito (default: 5)
+    circuitBreakerCooldownMs?: number; // Tempo com o circuito aberto (default: 60000)
+    dryRun?: boolean; // Não envia ações que alteram o jogo (default: false)
+}
+
+interface RequestOptions {
+    config?: AxiosRequestConfig;
+    expectBT?: boolean; // Resposta deve conter BT (default: true)
+    idempotent?: boolean; // Leitura segura para repetir (default: false)
+    schema?: ResponseSchema; // Valida a resposta e reporta drift
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
 export class ApiClient {
     private client: AxiosInstance;
     private sessionId: string;
     private currentBT: string = '';
     private logger: Logger;
-
-    constructor(sessionId: string, logger: Logger) {
+    private onSessionExpired?: SessionRefresher;
+    private refreshPromise: Promise<void> | null = null;
+    private maxRetries: number;
+    private retryBaseDelayMs: number;
+    private circuitBreakerThreshold: number;
+    private circuitBreakerCooldownMs: number;
+    private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+    private dryRunRecorder: DryRunRecorder | null;
+    private driftReporter: SchemaDriftReporter;
+
+    constructor(sessionId: string, logger: Logger, options: ApiClientOptions = {}) {
         this.sessionId = sessionId;
         this.logger = logger;
+        this.onSessionExpired = options.onSessionExpired;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+        this.circuitBreakerThreshold = options.circuitBreakerThreshold ?? 5;
+        this.circuitBreakerCooldownMs = options.circuitBreakerCooldownMs ?? 60000;
+        this.dryRunRecorder = options.dryRun ? new DryRunRecorder(logger) : null;
+        this.driftReporter = new SchemaDriftReporter(logger);
 
         this.client = axios.create({
-            baseURL: BASE_URL,
+            baseURL: `${options.baseUrl ?? DEFAULT_BASE_URL}/api`,
+            timeout: options.timeoutMs ?? 15000,
             headers: {
                 ...DEFAULT_HEADERS,
-                Cookie: `device=android; PHPSESSID=${sessionId}`,
+                Cookie: this.buildCookie(sessionId),
             },
+            // Redirects indicam sessão expirada (o servidor manda para o login)
+            maxRedirects: 0,
+            validateStatus: (status: number) => status < 400,
         });
     }
 
+    private buildCookie(sessionId: string): string {
+        return `device=android; PHPSESSID=${sessionId}`;
+    }
+
     private updateBT(response: BaseResponse): void {
-        if (response.BT) {
+        if (response?.BT) {
             this.currentBT = response.BT;
             this.logger.debugLog(`Token BT atualizado: ${this.currentBT.substring(0, 8)}...`);
         }
     }
 
+    // ============================================
+    // Request Pipeline
+    // ============================================
+
+    /**
+     * Executa um POST passando pelo circuit breaker do endpoint.
+     * Apenas leituras idempotentes são repetidas (com backoff exponencial);
+     * ações que alteram o jogo nunca são repetidas às cegas.
+     */
+    private async post<T>(
+        url: string,
+        buildData: () => URLSearchParams,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        const { config = {}, expectBT = true, idempotent = false, schema } = options;
+        const breaker = this.getCircuitBreaker(url);
+        const maxAttempts = idempotent ? this.maxRetries + 1 : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            if (!breaker.canRequest()) {
+                const retryIn = Math.ceil(breaker.getStatus().retryInMs / 1000);
+                throw new ApiError(`Circuito aberto para ${url}, nova tentativa em ${retryIn}s`, 'circuit_open', url);
+            }
+
+            try {
+                const raw = await this.executeWithSession<T>(url, buildData, config, expectBT, idempotent);
+                const data = schema ? this.decodeResponse<T>(url, raw, schema) : raw;
+                breaker.recordSuccess();
+                this.dryRunRecorder?.observe(url, data);
+                return data;
+            } catch (error) {
+                const apiError = classifyError(error, url);
+
+                if (!apiError.retryable) {
+                    // O servidor respondeu: não conta como falha do endpoint
+                    breaker.recordSuccess();
+                    throw apiError;
+                }
+
+                breaker.recordFailure();
+
+                if (attempt >= maxAttempts) {
+                    throw apiError;
+                }
+
+                const delay = this.getBackoffDelay(attempt);
+                this.logger.warn(
+                    `🔁 ${apiError.message} (tentativa ${attempt}/${maxAttempts}). Repetindo em ${delay}ms...`
+                );
+                await this.delay(delay);
+            }
+        }
+    }
+
+    /**
+     * Executa a requisição e detecta sessão expirada.
+     * Se a sessão expirou, re-autentica e repete a requisição uma única vez.
+     * O formulário é reconstruído na repetição para usar o BT da nova sessão.
+     *
+     * Ações só são repetidas com sinal claro de que não chegaram ao jogo (401/403,
+     * redirect para o login, página HTML): sem BT ou com corpo inesperado, a ação
+     * pode ter sido executada e repeti-la a faria duas vezes.
+     */
+    private async executeWithSession<T>(
+        url: string,
+        buildData: () => URLSearchParams,
+        config: AxiosRequestConfig,
+        expectBT: boolean,
+        idempotent: boolean
+    ): Promise<T> {
+        const response = await this.send<T>(url, buildData(), config);
+
+        const expiredReason = this.getSessionExpiredReason(response, expectBT, idempotent);
+        if (!expiredReason) {
+            return this.acceptResponse(url, response);
+        }
+
+        this.logger.warn(`🔑 Sessão inválida em ${url}: ${expiredReason}`);
+
+        if (!this.onSessionExpired) {
+            throw new ApiError(
+                `Sessão expirada (${expiredReason}) e nenhuma credencial disponível para re-autenticação`,
+                'session',
+                url
+            );
+        }
+
+        await this.refreshSession();
+
+        const retryResponse = await this.send<T>(url, buildData(), config);
+        const retryReason = this.getSessionExpiredReason(retryResponse, expectBT, idempotent);
+
+        if (retryReason) {
+            throw new ApiError(`Sessão continua inválida após re-autenticação (${retryReason})`, 'session', url);
+        }
+
+        return this.acceptResponse(url, retryResponse);
+    }
+
+    /**
+     * Resposta que não indica sessão expirada. Uma ação com corpo que não é JSON
+     * vira erro (sem repetição) em vez de ser entregue como se fosse o resultado.
+     */
+    private acceptResponse<T>(url: string, response: AxiosResponse<T>): T {
+        const data = response.data as unknown;
+
+        if (typeof data === 'string') {
+            throw new ApiError('Resposta não é JSON; a ação não será repetida', 'unknown', url, response.status);
+        }
+
+        if (!(data as BaseResponse | null)?.BT) {
+            this.logger.debugLog(`[API] ${url} respondeu sem BT`);
+        }
+
+        this.updateBT(data as BaseResponse);
+        return response.data;
+    }
+
+    /**
+     * Envia a requisição, convertendo 401/403 em uma resposta que será tratada como sessão expirada
+     */
+    private async send<T>(url: string, data: URLSearchParams, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        try {
+            return await this.client.post<T>(url, data, config);
+        } catch (error) {
+            if (axios.isAxiosError(error) && error.response &&
+                (error.response.status === 401 || error.response.status === 403)) {
+                return error.response as AxiosResponse<T>;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Retorna o motivo se a resposta indicar sessão expirada, ou null se estiver OK
+     */
+    private getSessionExpiredReason(response: AxiosResponse, expectBT: boolean, idempotent: boolean): string | null {
+        if (response.status === 401 || response.status === 403) {
+            return `HTTP ${response.status}`;
+        }
+
+        if (response.status >= 300 && response.status < 400) {
+            const location = response.headers['location'] || '';
+            return `redirect para ${location || 'login'}`;
+        }
+
+        const data = response.data;
+
+        if (typeof data === 'string') {
+            if (/<html|<!doctype|<form/i.test(data)) return 'HTML recebido ao invés de JSON';
+            return idempotent ? 'resposta não é JSON' : null;
+        }
+
+        // BT ausente é um sinal ambíguo: só leituras são repetidas por ele
+        if (expectBT && idempotent && (!data || typeof data !== 'object' || !data.BT)) {
+            return 'BT ausente na resposta';
+        }
+
+        return null;
+    }
+
+    /**
+     * Obtém uma nova sessão via callback e reconstrói o cookie.
+     * Chamadas concorrentes compartilham a mesma re-autenticação.
+     */
+    private async refreshSession(): Promise<void> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = (async () => {
+                this.logger.info('🔑 Re-autenticando...');
+                const newSessionId = await this.onSessionExpired!();
+                this.setSessionId(newSessionId);
+                this.logger.success(`Sessão renovada: ${newSessionId.substring(0, 8)}...`);
+            })().finally(() => {
+                this.refreshPromise = null;
+            });
+        }
+
+        return this.refreshPromise;
+    }
+
+    /**
+     * Valida a resposta contra o schema, reportando campos novos, ausentes ou com tipo diferente
+     */
+    private decodeResponse<T>(url: string, data: unknown, schema: ResponseSchema): T {
+        const { value, issues } = decode<T>(schema.schema, data);
+        if (issues.length > 0) {
+            this.driftReporter.report(url, schema.name, issues);
+        }
+        return value;
+    }
+
+    private getCircuitBreaker(url: string): CircuitBreaker {
+        let breaker = this.circuitBreakers.get(url);
+        if (!breaker) {
+            breaker = new CircuitBreaker(url, this.circuitBreakerThreshold, this.circuitBreakerCooldownMs, this.logger);
+            this.circuitBreakers.set(url, breaker);
+        }
+        return breaker;
+    }
+
+    /**
+     * Backoff exponencial com jitter: base * 2^(tentativa-1) + aleatório
+     */
+    private getBackoffDelay(attempt: number): number {
+        const exponential = this.retryBaseDelayMs * Math.pow(2, attempt - 1);
+        const jitter = Math.random() * this.retryBaseDelayMs;
+        return Math.min(MAX_RETRY_DELAY_MS, Math.round(exponential + jitter));
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
     private buildFormData(data: Record<string, string | number | undefined>): URLSearchParams {
         const params = new URLSearchParams();
 
@@ -88,78 +390,82 @@ export class ApiClient {
     // ============================================
 
     async getCultivatingTab(): Promise<CultivatingTabResponse> {
-        const formData = this.buildFormData({
-            checklist: 'undefined',
-            disableFertilizing: 'none',
-            view: 'cultivating',
-            implementAction: 0,
-        });
-
-        const response = await this.client.post<CultivatingTabResponse>(
+        return this.post<CultivatingTabResponse>(
             '/farmland-status-bar.php',
-            formData,
-            { params: { checklist: 'undefined', disableFertilizing: 'none', view: 'cultivating', implementAction: 0 } }
+            () => this.buildFormData({
+                checklist: 'undefined',
+                disableFertilizing: 'none',
+                view: 'cultivating',
+                implementAction: 0,
+            }),
+            { config: { params: { checklist: 'undefined', disableFertilizing: 'none', view: 'cultivating', implementAction: 0 } }, idempotent: true, schema: CultivatingTabSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     async getSeedingTab(): Promise<SeedingTabResponse> {
-        const formData = this.buildFormData({
-            checklist: 'undefined',
-            disableFertilizing: 'none',
-            view: 'seeding',
-            implementAction: 0,
-        });
-
-        const response = await this.client.post<SeedingTabResponse>(
+        return this.post<SeedingTabResponse>(
             '/farmland-status-bar.php',
-            formData,
-            { params: { checklist: 'undefined', disableFertilizing: 'none', view: 'seeding', implementAction: 0 } }
+            () => this.buildFormData({
+                checklist: 'undefined',
+                disableFertilizing: 'none',
+                view: 'seeding',
+                implementAction: 0,
+            }),
+            { config: { params: { checklist: 'undefined', disableFertilizing: 'none', view: 'seeding', implementAction: 0 } }, idempotent: true, schema: SeedingTabSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     async getHarvestTab(): Promise<HarvestTabResponse> {
-        const formData = this.buildFormData({
-            checklist: 'undefined',
-        });
-
-        const response = await this.client.post<HarvestTabResponse>(
+        return this.post<HarvestTabResponse>(
             '/farmland-status-bar-harvest.php',
-            formData,
-            { params: { checklist: 'undefined' } }
+            () => this.buildFormData({
+                checklist: 'undefined',
+            }),
+            { config: { params: { checklist: 'undefined' } }, idempotent: true, schema: HarvestTabSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     async getPendingTab(): Promise<PendingTabResponse> {
-        const formData = this.buildFormData({});
-
-        const response = await this.client.post<PendingTabResponse>(
+        return this.post<PendingTabResponse>(
             '/farmland-status-bar-pending.php',
-            formData
+            () => this.buildFormData({}),
+            { idempotent: true, schema: PendingTabSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     async getSiloTab(): Promise<SiloTabResponse> {
-        const formData = this.buildFormData({});
-
-        const response = await this.client.post<SiloTabResponse>(
+        return this.post<SiloTabResponse>(
             '/farmland-status-bar-silo.php',
-            formData
+            () => this.buildFormData({}),
+            { idempotent: true, schema: SiloTabSchema }
         );
+    }
 
-        this.updateBT(response.data);
-        return response.data;
+    /**
+     * Amplia o silo de grãos (`small` ou `medium`, conforme `increase` da aba do silo)
+     */
+    async upgradeCropSilo(size: CropSiloUpgradeSize): Promise<SiloUpgradeResponse> {
+        return this.upgradeSilo('crop', size);
+    }
+
+    /**
+     * Amplia o silo de combustível (conforme `increase` de user-silo)
+     */
+    async upgradeFuelSilo(): Promise<SiloUpgradeResponse> {
+        return this.upgradeSilo('fuel');
+    }
+
+    private async upgradeSilo(type: SiloKind, size?: CropSiloUpgradeSize): Promise<SiloUpgradeResponse> {
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordSiloUpgrade(type, size);
+        }
+
+        const params = size ? { type, size } : { type };
+        return this.post<SiloUpgradeResponse>(
+            '/silo-increase.php',
+            () => this.buildFormData(params),
+            { config: { params }, schema: SiloUpgradeSchema }
+        );
     }
 
     // ============================================
@@ -167,37 +473,31 @@ export class ApiClient {
     // ============================================
 
     async getCropValues(): Promise<CropValuesResponse> {
-        const formData = this.buildFormData({
-            cropId: 0,
-            lastId: 0,
-            currentCropMultiplier: 'undefined',
-        });
-
-        const response = await this.client.post<CropValuesResponse>(
+        return this.post<CropValuesResponse>(
             '/get-crop-values.php',
-            formData,
-            { params: { cropId: 0, lastId: 0, currentCropMultiplier: 'undefined' } }
+            () => this.buildFormData({
+                cropId: 0,
+                lastId: 0,
+                currentCropMultiplier: 'undefined',
+            }),
+            { config: { params: { cropId: 0, lastId: 0, currentCropMultiplier: 'undefined' } }, idempotent: true, schema: CropValuesSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     async sellProduct(cropId: number, sellType: 'all' | 'half' = 'all'): Promise<SellProductResponse> {
-        const formData = this.buildFormData({
-            action: 'sell',
-            cropId,
-            sellType,
-        });
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordSell(cropId, sellType);
+        }
 
-        const response = await this.client.post<SellProductResponse>(
+        return this.post<SellProductResponse>(
             '/market-details.php',
-            formData,
-            { params: { action: 'sell', cropId, sellType } }
+            () => this.buildFormData({
+                action: 'sell',
+                cropId,
+                sellType,
+            }),
+            { config: { params: { action: 'sell', cropId, sellType } }, schema: SellProductSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     // ============================================
@@ -205,59 +505,46 @@ export class ApiClient {
     // ============================================
 
     async getFarmlandDetails(farmlandId: number): Promise<FarmlandDetailsResponse> {
-        const formData = this.buildFormData({
-            id: farmlandId,
-        });
-
-        const response = await this.client.post<FarmlandDetailsResponse>(
+        // Este endpoint não retorna BT
+        return this.post<FarmlandDetailsResponse>(
             '/user-farmland-details.php',
-            formData,
-            { params: { id: farmlandId } }
+            () => this.buildFormData({
+                id: farmlandId,
+            }),
+            { config: { params: { id: farmlandId } }, expectBT: false, idempotent: true, schema: FarmlandDetailsSchema }
         );
-
-        return response.data;
     }
 
     /**
      * Obtém tratores disponíveis para operação de seeding em um terreno específico
      */
-    async getFarmlandActionSeed(farmlandId: number, farmId: number, area: number, complexityIndex: number): Promise<any> {
-        const formData = this.buildFormData({
-            farmlandId,
-            farmId,
-            area,
-            complexityIndex,
-        });
-
-        const response = await this.client.post(
+    async getFarmlandActionSeed(farmlandId: number, farmId: number, area: number, complexityIndex: number): Promise<FarmlandActionResponse> {
+        return this.post<FarmlandActionResponse>(
             '/farmland-action-seed.php',
-            formData,
-            { params: { farmlandId, farmId, area, complexityIndex } }
+            () => this.buildFormData({
+                farmlandId,
+                farmId,
+                area,
+                complexityIndex,
+            }),
+            { config: { params: { farmlandId, farmId, area, complexityIndex } }, idempotent: true, schema: FarmlandActionSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     /**
      * Obtém tratores disponíveis para operação de plowing em um terreno específico
      */
-    async getFarmlandActionPlow(farmlandId: number, farmId: number, area: number, complexityIndex: number): Promise<any> {
-        const formData = this.buildFormData({
-            farmlandId,
-            farmId,
-            area,
-            complexityIndex,
-        });
-
-        const response = await this.client.post(
+    async getFarmlandActionPlow(farmlandId: number, farmId: number, area: number, complexityIndex: number): Promise<FarmlandActionResponse> {
+        return this.post<FarmlandActionResponse>(
             '/farmland-action-plow.php',
-            formData,
-            { params: { farmlandId, farmId, area, complexityIndex } }
+            () => this.buildFormData({
+                farmlandId,
+                farmId,
+                area,
+                complexityIndex,
+            }),
+            { config: { params: { farmlandId, farmId, area, complexityIndex } }, idempotent: true, schema: FarmlandActionSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     // ============================================
@@ -272,129 +559,226 @@ export class ApiClient {
         usingWorkers: boolean = false,
         cropId?: number
     ): Promise<BatchActionResponse> {
-        const formData = new URLSearchParams();
-        formData.append('opType', opType);
-        formData.append('single', single ? '1' : '0');
-        formData.append('farmlandIds', JSON.stringify(farmlandIds));
-        formData.append('usingWorkers', usingWorkers ? '1' : '0');
-        formData.append('units', JSON.stringify(units));
-
-        // Para seeding, incluir o cropId
-        if (cropId !== undefined) {
-            formData.append('cropId', String(cropId));
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordBatchAction(opType, farmlandIds, units, usingWorkers, cropId);
         }
 
-        if (this.currentBT) {
-            formData.append('BT', this.currentBT);
-        }
+        const buildData = () => {
+            const formData = new URLSearchParams();
+            formData.append('opType', opType);
+            formData.append('single', single ? '1' : '0');
+            formData.append('farmlandIds', JSON.stringify(farmlandIds));
+            formData.append('usingWorkers', usingWorkers ? '1' : '0');
+            formData.append('units', JSON.stringify(units));
+
+            // Para seeding, incluir o cropId
+            if (cropId !== undefined) {
+                formData.append('cropId', String(cropId));
+            }
+
+            if (this.currentBT) {
+                formData.append('BT', this.currentBT);
+            }
 
-        const response = await this.client.post<BatchActionResponse>(
+            return formData;
+        };
+
+        return this.post<BatchActionResponse>(
             '/farmland-batch-action-start.php',
-            formData
+            buildData,
+            { schema: BatchActionSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     /**
      * Endpoint específico para colheita (usa formato diferente!)
+     * As colheitadeiras vão em `units` como lista separada por vírgula
      */
     async startHarvestAction(
         userFarmlandId: number,
-        harvesterId: number,
+        harvesterIds: number[],
         single: boolean = true
     ): Promise<BatchActionResponse> {
-        const formData = new URLSearchParams();
-        formData.append('single', single ? '1' : '0');
-        formData.append('farmlandIds', String(userFarmlandId));
-        formData.append('units', String(harvesterId));
-
-        if (this.currentBT) {
-            formData.append('BT', this.currentBT);
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordHarvestAction(userFarmlandId, harvesterIds);
         }
 
-        this.logger.debugLog(`[Harvest API] farmlandIds: ${userFarmlandId}, units: ${harvesterId}`);
+        const units = harvesterIds.join(',');
+
+        const buildData = () => {
+            const formData = new URLSearchParams();
+            formData.append('single', single ? '1' : '0');
+            formData.append('farmlandIds', String(userFarmlandId));
+            formData.append('units', units);
 
-        const response = await this.client.post<BatchActionResponse>(
+            if (this.currentBT) {
+                formData.append('BT', this.currentBT);
+            }
+
+            return formData;
+        };
+
+        this.logger.debugLog(`[Harvest API] farmlandIds: ${userFarmlandId}, units: ${units}`);
+
+        return this.post<BatchActionResponse>(
             '/farmland-batch-action-harvest.php',
-            formData,
-            { params: { single: single ? 1 : 0, farmlandIds: userFarmlandId, units: harvesterId } }
+            buildData,
+            { config: { params: { single: single ? 1 : 0, farmlandIds: userFarmlandId, units } }, schema: BatchActionSchema }
         );
+    }
 
-        this.updateBT(response.data);
-        return response.data;
+    /**
+     * Inicia a irrigação de um terreno em crescimento.
+     * `estimatedCost` só é usado no dry run.
+     */
+    async startIrrigation(userFarmlandId: number, estimatedCost: number = 0): Promise<IrrigateResponse> {
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordIrrigation(userFarmlandId, estimatedCost);
+        }
+
+        return this.post<IrrigateResponse>(
+            '/farmland-irrigate.php',
+            () => this.buildFormData({
+                id: userFarmlandId,
+            }),
+            { config: { params: { id: userFarmlandId } }, schema: IrrigateSchema }
+        );
+    }
+
+    /**
+     * Anexa um implemento livre a um trator sem implemento
+     */
+    async attachImplement(tractorId: number, implementId: number): Promise<ImplementChangeResponse> {
+        return this.changeImplement('attach', tractorId, implementId);
+    }
+
+    /**
+     * Troca o implemento atual de um trator por outro livre
+     */
+    async swapImplement(tractorId: number, implementId: number): Promise<ImplementChangeResponse> {
+        return this.changeImplement('swap', tractorId, implementId);
+    }
+
+    private async changeImplement(
+        action: 'attach' | 'swap',
+        tractorId: number,
+        implementId: number
+    ): Promise<ImplementChangeResponse> {
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordImplementChange(action, tractorId, implementId);
+        }
+
+        return this.post<ImplementChangeResponse>(
+            `/tractor-implement-${action}.php`,
+            () => this.buildFormData({
+                tractorId,
+                implementId,
+            }),
+            { config: { params: { tractorId, implementId } }, schema: ImplementChangeSchema }
+        );
+    }
+
+    /**
+     * Repara um trator/máquina ou implemento, zerando (parte do) desgaste.
+     * `estimatedCost` só é usado no dry run.
+     */
+    async repairEquipment(kind: WearUnitKind, id: number, estimatedCost: number = 0): Promise<RepairResponse> {
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordRepair(kind, id, estimatedCost);
+        }
+
+        return this.post<RepairResponse>(
+            '/equipment-repair.php',
+            () => this.buildFormData({
+                type: kind,
+                id,
+            }),
+            { config: { params: { type: kind, id } }, schema: RepairSchema }
+        );
+    }
+
+    /**
+     * Máquinas e implementos à venda, com velocidade, consumo e preço
+     */
+    async getMachineMarket(): Promise<MachineMarketResponse> {
+        return this.post<MachineMarketResponse>(
+            '/market-equipment.php',
+            () => this.buildFormData({}),
+            { idempotent: true, schema: MachineMarketSchema }
+        );
+    }
+
+    /**
+     * Compra uma máquina ou implemento do mercado para uma farm
+     */
+    async buyMachine(offerId: number, farmId: number): Promise<BuyMachineResponse> {
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordBuyMachine(offerId, farmId);
+        }
+
+        return this.post<BuyMachineResponse>(
+            '/market-equipment-buy.php',
+            () => this.buildFormData({
+                id: offerId,
+                farmId,
+            }),
+            { config: { params: { id: offerId, farmId } }, schema: BuyMachineSchema }
+        );
     }
 
     async plowAction(
         farmId: number,
         area: number,
         complexityIndex: number
-    ): Promise<unknown> {
-        const formData = this.buildFormData({
-            farmId,
-            area,
-            complexityIndex,
-        });
-
-        const response = await this.client.post(
+    ): Promise<FarmlandActionResponse> {
+        // BT é opcional nesta resposta
+        return this.post<FarmlandActionResponse>(
             '/farmland-action-plow.php',
-            formData,
-            { params: { farmId, area, complexityIndex } }
+            () => this.buildFormData({
+                farmId,
+                area,
+                complexityIndex,
+            }),
+            { config: { params: { farmId, area, complexityIndex } }, expectBT: false, schema: FarmlandActionSchema }
         );
-
-        if (response.data.BT) {
-            this.updateBT(response.data);
-        }
-        return response.data;
     }
 
     // ============================================
     // Smart Seeding Endpoints
     // ============================================
 
-    async getFarmlandData(gisId: number): Promise<any> {
-        const formData = this.buildFormData({
-            gisId,
-        });
-
-        const response = await this.client.post(
+    async getFarmlandData(gisId: number): Promise<FarmlandDataResponse> {
+        return this.post<FarmlandDataResponse>(
             '/user-farmland-data.php',
-            formData,
-            { params: { gisId } }
+            () => this.buildFormData({
+                gisId,
+            }),
+            { config: { params: { gisId } }, idempotent: true, schema: FarmlandDataSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
-    async getMarketSeeds(): Promise<any> {
-        const formData = this.buildFormData({});
-
-        const response = await this.client.post(
+    async getMarketSeeds(): Promise<MarketResponse> {
+        return this.post<MarketResponse>(
             '/market.php',
-            formData
+            () => this.buildFormData({}),
+            { idempotent: true, schema: MarketSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
-    async buySeeds(cropId: number, amount: number): Promise<any> {
-        const formData = this.buildFormData({
-            action: 'buy',
-            cropId,
-            amount,
-        });
+    async buySeeds(cropId: number, amount: number): Promise<BuySeedResponse> {
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordBuySeeds(cropId, amount);
+        }
 
-        const response = await this.client.post(
+        return this.post<BuySeedResponse>(
             '/market-seed-details.php',
-            formData,
-            { params: { action: 'buy', cropId, amount } }
+            () => this.buildFormData({
+                action: 'buy',
+                cropId,
+                amount,
+            }),
+            { config: { params: { action: 'buy', cropId, amount } }, schema: BuySeedSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     // ============================================
@@ -402,33 +786,27 @@ export class ApiClient {
     // ============================================
 
     async getFuelSilo(): Promise<FuelSiloResponse> {
-        const formData = this.buildFormData({
-            type: 'fuel',
-        });
-
-        const response = await this.client.post<FuelSiloResponse>(
+        return this.post<FuelSiloResponse>(
             '/user-silo.php',
-            formData,
-            { params: { type: 'fuel' } }
+            () => this.buildFormData({
+                type: 'fuel',
+            }),
+            { config: { params: { type: 'fuel' } }, idempotent: true, schema: FuelSiloSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     async buyFuel(amount: number): Promise<BuyFuelResponse> {
-        const formData = this.buildFormData({
-            amount,
-        });
+        if (this.dryRunRecorder) {
+            return this.dryRunRecorder.recordBuyFuel(amount);
+        }
 
-        const response = await this.client.post<BuyFuelResponse>(
+        return this.post<BuyFuelResponse>(
             '/silo-fuel-buy.php',
-            formData,
-            { params: { amount } }
+            () => this.buildFormData({
+                amount,
+            }),
+            { config: { params: { amount } }, schema: BuyFuelSchema }
         );
-
-        this.updateBT(response.data);
-        return response.data;
     }
 
     // ============================================
@@ -442,4 +820,38 @@ export class ApiClient {
     setBT(bt: string): void {
         this.currentBT = bt;
     }
+
+    /**
+     * Estado do circuit breaker de cada endpoint já chamado
+     */
+    getCircuitStates(): CircuitBreakerStatus[] {
+        return Array.from(this.circuitBreakers.values()).map(b => b.getStatus());
+    }
+
+    /**
+     * Recorder do modo dry-run (null quando desativado)
+     */
+    getDryRunRecorder(): DryRunRecorder | null {
+        return this.dryRunRecorder;
+    }
+
+    /**
+     * Divergências de schema vistas até agora, por tipo de resposta
+     */
+    getSchemaDriftReport(): ReturnType<SchemaDriftReporter['getReport']> {
+        return this.driftReporter.getReport();
+    }
+
+    getSessionId(): string {
+        return this.sessionId;
+    }
+
+    /**
+     * Troca a sessão usada nas requisições. O BT antigo pertence à sessão anterior e é descartado.
+     */
+    setSessionId(sessionId: string): void {
+        this.sessionId = sessionId;
+        this.currentBT = '';
+        this.client.defaults.headers['Cookie'] = this.buildCookie(sessionId);
+    }
 }
@@ -0,0 +1,376 @@
+// ============================================
+// Farm Manager Bot - Dry Run Recorder
+// ============================================
+
+import {
+    BatchActionResponse,
+    BatchActionResult,
+    BatchActionUnit,
+    BuyFuelResponse,
+    BuyMachineResponse,
+    BuySeedResponse,
+    CropSiloUpgradeSize,
+    CropValuesResponse,
+    CultivatingTabResponse,
+    FarmTractors,
+    FuelSilo,
+    FuelSiloResponse,
+    HarvestTabResponse,
+    ImplementChangeResponse,
+    IrrigateResponse,
+    MachineMarketResponse,
+    MarketResponse,
+    RepairResponse,
+    SellProductResponse,
+    SiloKind,
+    SiloTabResponse,
+    SiloUpgradeResponse,
+    WearUnitKind,
+} from '../types';
+import { Logger } from '../utils/logger';
+
+export type DryRunActionType = 'batch' | 'harvest' | 'irrigate' | 'implement' | 'repair' | 'sell' | 'buySeeds' | 'buyFuel' | 'buyMachine' | 'siloUpgrade';
+
+export interface DryRunAction {
+    type: DryRunActionType;
+    description: string;
+    estimatedCost: number;
+    estimatedIncome: number;
+    timestamp: number;
+}
+
+/**
+ * Registra ações que alteram o jogo sem enviá-las e gera respostas sintéticas.
+ * Observa as respostas de leitura (preços, silo, combustível) para estimar custos e receitas.
+ */
+export class DryRunRecorder {
+    private logger: Logger;
+    private actions: DryRunAction[] = [];
+    private cropValues: CropValuesResponse['cropValues'] = {};
+    private siloHolding: SiloTabResponse['cropSilo']['holding'] = {};
+    private cropSiloIncrease: SiloTabResponse['increase'] | null = null;
+    private fuelSiloIncrease: FuelSiloResponse['increase'] | null = null;
+    private seedPrices: Map<number, { name: string; seedCost: number }> = new Map();
+    private fuelCost: number = 0;
+    private fuelSilo: FuelSilo | null = null;
+    private machinePrices: Map<number, { name: string; price: number }> = new Map();
+
+    // Frota e áreas das abas de cultivo e colheita, usadas para estimar o combustível das ações
+    private units: Map<number, { haHour: number; fuelHour: number }> = new Map();
+    private fieldAreas: Map<number, number> = new Map();
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * Guarda dados das respostas de leitura usados nas estimativas
+     */
+    observe(url: string, data: unknown): void {
+        if (!data || typeof data !== 'object') return;
+
+        if (url === '/get-crop-values.php') {
+            const values = (data as CropValuesResponse).cropValues;
+            if (values) this.cropValues = values;
+        } else if (url === '/farmland-status-bar.php') {
+            const tab = data as CultivatingTabResponse;
+            this.observeTractors(tab.tractors);
+            for (const { farmlands } of Object.values(tab.farms || {})) {
+                const categories = [farmlands.raw, farmlands.cleared, farmlands.plowed, farmlands.seeded, farmlands.growing, farmlands.matured];
+                for (const category of categories) {
+                    for (const field of Object.values(category?.data || {})) {
+                        this.fieldAreas.set(field.id, field.area);
+                    }
+                }
+            }
+        } else if (url === '/farmland-status-bar-harvest.php') {
+            const tab = data as HarvestTabResponse;
+            this.observeTractors(tab.tractors);
+            for (const farm of Object.values(tab.farms || {})) {
+                for (const group of Object.values(farm.farmlands || {})) {
+                    for (const field of Object.values(group.data || {})) {
+                        this.fieldAreas.set(field.id, field.area);
+                    }
+                }
+            }
+        } else if (url === '/farmland-status-bar-silo.php') {
+            const holding = (data as SiloTabResponse).cropSilo?.holding;
+            if (holding) this.siloHolding = holding;
+            const increase = (data as SiloTabResponse).increase;
+            if (increase) this.cropSiloIncrease = increase;
+        } else if (url === '/market.php') {
+            const seeds = (data as MarketResponse).seed;
+            if (Array.isArray(seeds)) {
+                for (const seed of seeds) {
+                    this.seedPrices.set(seed.id, { name: seed.name, seedCost: seed.seedCost });
+                }
+            }
+        } else if (url === '/user-silo.php') {
+            const fuel = data as FuelSiloResponse;
+            if (fuel.fuelSilo) this.fuelSilo = fuel.fuelSilo;
+            if (typeof fuel.fuelCost === 'number') this.fuelCost = fuel.fuelCost;
+            if (fuel.increase) this.fuelSiloIncrease = fuel.increase;
+        } else if (url === '/market-equipment.php') {
+            const machines = (data as MachineMarketResponse).machines;
+            if (Array.isArray(machines)) {
+                for (const machine of machines) {
+                    this.machinePrices.set(machine.id, { name: machine.name, price: machine.price });
+                }
+            }
+        }
+    }
+
+    recordBatchAction(
+        opType: string,
+        farmlandIds: Record<string, number>,
+        units: Record<string, BatchActionUnit>,
+        usingWorkers: boolean,
+        cropId?: number
+    ): BatchActionResponse {
+        const tractorIds = Object.values(units).map(u =>
+            u.implementId ? `${u.tractorId}+${u.implementId}` : String(u.tractorId)
+        );
+        const crop = cropId !== undefined ? ` (cropId ${cropId})` : '';
+        const workers = usingWorkers ? ' usando trabalhadores' : '';
+        const cost = usingWorkers
+            ? 0
+            : this.estimateFuelCost(Object.values(farmlandIds), Object.values(units).map(u => u.tractorId));
+
+        this.record(
+            'batch',
+            `${opType}${crop} em ${Object.keys(farmlandIds).join(', ')} com tratores [${tractorIds.join(', ')}]${workers}`,
+            cost,
+            0
+        );
+
+        return this.buildBatchResponse(opType, Object.values(farmlandIds), tractorIds.length);
+    }
+
+    recordHarvestAction(userFarmlandId: number, harvesterIds: number[]): BatchActionResponse {
+        this.record(
+            'harvest',
+            `harvesting em ${userFarmlandId} com colheitadeiras [${harvesterIds.join(', ')}]`,
+            this.estimateFuelCost([userFarmlandId], harvesterIds),
+            0
+        );
+
+        return this.buildBatchResponse('harvesting', [userFarmlandId], harvesterIds.length);
+    }
+
+    /**
+     * O custo da irrigação não vem de nenhuma leitura: usa a estimativa de quem pediu a ação
+     */
+    recordIrrigation(userFarmlandId: number, estimatedCost: number): IrrigateResponse {
+        this.record('irrigate', `irrigar ${userFarmlandId}`, estimatedCost, 0);
+
+        return { BT: '', success: 1, userFarmlandId, cost: 0, growTimeRemain: 0, irrigateCount: 0, errors: [] };
+    }
+
+    recordImplementChange(action: 'attach' | 'swap', tractorId: number, implementId: number): ImplementChangeResponse {
+        this.record(
+            'implement',
+            `${action === 'attach' ? 'anexar' : 'trocar para'} implemento ${implementId} no trator ${tractorId}`,
+            0,
+            0
+        );
+
+        return { BT: '', success: 1, tractorId, implementId, errors: [] };
+    }
+
+    /**
+     * O custo do reparo não vem de nenhuma leitura: usa a estimativa de quem pediu a ação
+     */
+    recordRepair(kind: WearUnitKind, id: number, estimatedCost: number): RepairResponse {
+        this.record('repair', `reparar ${kind === 'tractor' ? 'máquina' : 'implemento'} ${id}`, estimatedCost, 0);
+
+        return { BT: '', success: 1, id, cost: 0, wear: 0, errors: [] };
+    }
+
+    recordSell(cropId: number, sellType: 'all' | 'half'): SellProductResponse {
+        const product = this.siloHolding[String(cropId)];
+        const value = this.cropValues[String(cropId)];
+        const stored = product?.amount || 0;
+        const amount = sellType === 'half' ? Math.floor(stored / 2) : stored;
+        const valuePer1k = value?.cropValuePer1k || 0;
+        const income = Math.round((amount / 1000) * valuePer1k);
+        const name = product?.name || `Crop ${cropId}`;
+
+        this.record(
+            'sell',
+            `vender ${sellType === 'half' ? 'metade' : 'tudo'} de ${name}: ${amount.toLocaleString()}kg a $${valuePer1k}/1000kg`,
+            0,
+            income
+        );
+
+        return {
+            BT: '',
+            cropId,
+            brokerage: 0,
+            valuePer1k,
+            cropMultiplier: 1,
+            cropValueRating: value?.cropValueRating || 0,
+            cropData: { id: cropId, name, type: '', cropValue: valuePer1k },
+            checklist: false,
+            success: 1,
+            income,
+            amount,
+            remaining: stored - amount,
+        };
+    }
+
+    recordBuySeeds(cropId: number, amount: number): BuySeedResponse {
+        const seed = this.seedPrices.get(cropId);
+        // seedCost é tratado como preço por 1000kg, mesma unidade dos preços de colheita
+        const cost = seed ? Math.round((amount / 1000) * seed.seedCost) : 0;
+
+        this.record(
+            'buySeeds',
+            `comprar ${amount.toLocaleString()}kg de sementes de ${seed?.name || `cropId ${cropId}`}`,
+            cost,
+            0
+        );
+
+        return { BT: '', success: 1, amount, cost, remaining: 0 };
+    }
+
+    recordBuyFuel(amount: number): BuyFuelResponse {
+        const cost = Math.round((amount / 1000) * this.fuelCost);
+
+        this.record('buyFuel', `comprar ${amount.toLocaleString()}L de combustível a $${this.fuelCost}/1000L`, cost, 0);
+
+        const silo: FuelSilo = this.fuelSilo
+            ? {
+                ...this.fuelSilo,
+                siloHolding: this.fuelSilo.siloHolding + amount,
+                remainingCapacity: Math.max(0, this.fuelSilo.remainingCapacity - amount),
+            }
+            : {
+                siloHolding: amount,
+                siloCapacity: 0,
+                totalHolding: amount,
+                remainingCapacityActual: 0,
+                remainingCapacity: 0,
+                holding: amount,
+                pctFull: 0,
+            };
+
+        return { BT: '', success: 1, cost, fuelSilo: silo, amount, checklist: false };
+    }
+
+    recordBuyMachine(offerId: number, farmId: number): BuyMachineResponse {
+        const machine = this.machinePrices.get(offerId);
+        const cost = machine?.price || 0;
+
+        this.record('buyMachine', `comprar ${machine?.name || `máquina ${offerId}`} para a farm ${farmId}`, cost, 0);
+
+        return { BT: '', success: 1, id: 0, farmId, cost, errors: [] };
+    }
+
+    recordSiloUpgrade(type: SiloKind, size?: CropSiloUpgradeSize): SiloUpgradeResponse {
+        const increase = type === 'crop'
+            ? (size ? this.cropSiloIncrease?.[size] : undefined)
+            : this.fuelSiloIncrease;
+        const cost = increase?.cost || 0;
+
+        this.record(
+            'siloUpgrade',
+            `ampliar silo de ${type === 'crop' ? `grãos (${size})` : 'combustível'} em ${(increase?.capacity || 0).toLocaleString()}`,
+            cost,
+            0
+        );
+
+        return { BT: '', success: 1, cost, siloCapacity: 0, errors: [] };
+    }
+
+    /**
+     * Retorna e limpa as ações registradas
+     */
+    drain(): DryRunAction[] {
+        const actions = this.actions;
+        this.actions = [];
+        return actions;
+    }
+
+    private observeTractors(tractors: Record<string, FarmTractors> | undefined): void {
+        for (const farm of Object.values(tractors || {})) {
+            for (const category of [farm.plowing, farm.clearing, farm.seeding, farm.harvesting]) {
+                for (const tractor of Object.values(category?.data || {})) {
+                    this.units.set(tractor.id, { haHour: tractor.haHour, fuelHour: tractor.fuelHour });
+                }
+            }
+        }
+    }
+
+    /**
+     * Combustível das máquinas na área dos terrenos (soma de fuelHour / soma de haHour)
+     * ao preço observado em /user-silo.php. 0 sem preço, área ou máquina conhecida.
+     */
+    private estimateFuelCost(userFarmlandIds: number[], unitIds: number[]): number {
+        const known = unitIds.map(id => this.units.get(id)).filter((u): u is { haHour: number; fuelHour: number } => !!u);
+        const haHour = known.reduce((sum, u) => sum + u.haHour, 0);
+        const fuelHour = known.reduce((sum, u) => sum + u.fuelHour, 0);
+        const area = userFarmlandIds.reduce((sum, id) => sum + (this.fieldAreas.get(id) || 0), 0);
+
+        if (haHour <= 0 || area <= 0) return 0;
+
+        // fuelCost é o preço por 1000L
+        return Math.round((area / haHour) * fuelHour * this.fuelCost / 1000);
+    }
+
+    private record(type: DryRunActionType, description: string, estimatedCost: number, estimatedIncome: number): void {
+        const money = estimatedCost > 0
+            ? `, custo ~$${estimatedCost.toLocaleString()}`
+            : estimatedIncome > 0 ? `, receita ~$${estimatedIncome.toLocaleString()}` : '';
+
+        this.logger.info(`🧪 [DRY RUN] Faria: ${description}${money}`);
+        this.actions.push({ type, description, estimatedCost, estimatedIncome, timestamp: Date.now() });
+    }
+
+    private buildBatchResponse(opType: string, userFarmlandIds: number[], unitCount: number): BatchActionResponse {
+        const now = Math.floor(Date.now() / 1000);
+        const result: Record<string, BatchActionResult> = {};
+
+        for (const id of userFarmlandIds) {
+            result[String(id)] = {
+                success: 1,
+                type: opType,
+                farmlandId: id,
+                userFarmlandId: id,
+                farmId: 0,
+                opTimeRemain: 0,
+                opStartIn: 0,
+                opPctPerSec: 0,
+                farmlandState: 'seeded',
+                opType,
+                growTimeRemain: 0,
+                growPctPerSec: 0,
+                farmlandNextOpState: '',
+                opStart: now,
+                opEnd: now,
+                growEnd: 0,
+                harvestEnd: 0,
+            };
+        }
+
+        return {
+            BT: '',
+            isHeavy: 0,
+            opEnd: now,
+            addHours: 0,
+            farmlandId: userFarmlandIds[0] || 0,
+            newWear: 0,
+            hectare: {},
+            checklist: 0,
+            sumCultivated: 0,
+            operationType: opType,
+            failed: 0,
+            result,
+            income: 0,
+            sumExpense: 0,
+            fuelUsed: 0,
+            unitsOperating: unitCount,
+            now,
+            errors: [],
+        };
+    }
+}
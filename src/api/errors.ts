@@ -0,0 +1,68 @@
+// ============================================
+// Farm Manager Bot - API Errors
+// ============================================
+
+import axios from 'axios';
+
+export type ApiErrorKind =
+    | 'timeout'        // Requisição excedeu o timeout
+    | 'network'        // Falha de conexão (DNS, reset, etc)
+    | 'server'         // HTTP 5xx
+    | 'client'         // HTTP 4xx (exceto sessão)
+    | 'session'        // Sessão expirada e não renovável
+    | 'circuit_open'   // Endpoint pausado pelo circuit breaker
+    | 'unknown';
+
+/**
+ * Erro de API classificado, usado para decidir retry e circuit breaker
+ */
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly endpoint: string;
+    readonly status?: number;
+
+    constructor(message: string, kind: ApiErrorKind, endpoint: string, status?: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.endpoint = endpoint;
+        this.status = status;
+    }
+
+    /**
+     * Falhas transitórias de infraestrutura que podem ser repetidas
+     */
+    get retryable(): boolean {
+        return this.kind === 'timeout' || this.kind === 'network' || this.kind === 'server';
+    }
+}
+
+/**
+ * Converte qualquer erro lançado por uma requisição em ApiError
+ */
+export function classifyError(error: unknown, endpoint: string): ApiError {
+    if (error instanceof ApiError) {
+        return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new ApiError(`Timeout em ${endpoint}`, 'timeout', endpoint);
+        }
+
+        const status = error.response?.status;
+
+        if (status === undefined) {
+            return new ApiError(`Erro de rede em ${endpoint}: ${error.message}`, 'network', endpoint);
+        }
+
+        if (status >= 500) {
+            return new ApiError(`HTTP ${status} em ${endpoint}`, 'server', endpoint, status);
+        }
+
+        return new ApiError(`HTTP ${status} em ${endpoint}`, 'client', endpoint, status);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new ApiError(message, 'unknown', endpoint);
+}
@@ -0,0 +1,206 @@
+// ============================================
+// Farm Manager Bot - Response Schema Decoder
+// ============================================
+
+import { Logger } from '../utils/logger';
+
+export type Schema =
+    | { kind: 'number' }
+    | { kind: 'string' }
+    | { kind: 'boolean' }
+    | { kind: 'flag' } // 0/1 ou true/false
+    | { kind: 'any' }
+    | { kind: 'object'; fields: Record<string, Schema> }
+    | { kind: 'record'; value: Schema }
+    | { kind: 'array'; item: Schema }
+    | { kind: 'optional'; inner: Schema }
+    | { kind: 'nullable'; inner: Schema }
+    | { kind: 'union'; options: Schema[] };
+
+/**
+ * Schema de uma resposta completa, com o nome usado no relatório de drift
+ */
+export interface ResponseSchema {
+    name: string;
+    schema: Schema;
+}
+
+export const s = {
+    number: (): Schema => ({ kind: 'number' }),
+    string: (): Schema => ({ kind: 'string' }),
+    boolean: (): Schema => ({ kind: 'boolean' }),
+    flag: (): Schema => ({ kind: 'flag' }),
+    any: (): Schema => ({ kind: 'any' }),
+    object: (fields: Record<string, Schema>): Schema => ({ kind: 'object', fields }),
+    record: (value: Schema): Schema => ({ kind: 'record', value }),
+    array: (item: Schema): Schema => ({ kind: 'array', item }),
+    optional: (inner: Schema): Schema => ({ kind: 'optional', inner }),
+    nullable: (inner: Schema): Schema => ({ kind: 'nullable', inner }),
+    union: (...options: Schema[]): Schema => ({ kind: 'union', options }),
+};
+
+export interface SchemaIssue {
+    kind: 'missing' | 'unknown' | 'type';
+    path: string; // Chaves dinâmicas aparecem como * e itens de array como []
+    expected?: string;
+    received?: string;
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string' && value !== '' && !isNaN(Number(value))) return 'numeric string';
+    return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Valida um valor contra o schema, acumulando problemas em `issues`.
+ * Strings numéricas são convertidas para number quando o schema pede number,
+ * e arrays vazios viram objetos vazios (o PHP serializa `{}` vazio como `[]`).
+ */
+function decodeValue(schema: Schema, value: unknown, path: string, issues: SchemaIssue[]): unknown {
+    switch (schema.kind) {
+        case 'any':
+            return value;
+
+        case 'optional':
+            return value === undefined ? undefined : decodeValue(schema.inner, value, path, issues);
+
+        case 'nullable':
+            return value === null ? null : decodeValue(schema.inner, value, path, issues);
+
+        case 'union': {
+            for (const option of schema.options) {
+                const optionIssues: SchemaIssue[] = [];
+                const decoded = decodeValue(option, value, path, optionIssues);
+                if (optionIssues.length === 0) return decoded;
+            }
+            issues.push({ kind: 'type', path, expected: schema.options.map(o => o.kind).join(' | '), received: describe(value) });
+            return value;
+        }
+
+        case 'number':
+            if (typeof value === 'number') return value;
+            issues.push({ kind: 'type', path, expected: 'number', received: describe(value) });
+            return describe(value) === 'numeric string' ? Number(value) : value;
+
+        case 'string':
+            if (typeof value === 'string') return value;
+            issues.push({ kind: 'type', path, expected: 'string', received: describe(value) });
+            return value;
+
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            issues.push({ kind: 'type', path, expected: 'boolean', received: describe(value) });
+            return value;
+
+        case 'flag':
+            if (typeof value === 'number' || typeof value === 'boolean') return value;
+            issues.push({ kind: 'type', path, expected: 'flag', received: describe(value) });
+            return describe(value) === 'numeric string' ? Number(value) : value;
+
+        case 'array':
+            if (!Array.isArray(value)) {
+                issues.push({ kind: 'type', path, expected: 'array', received: describe(value) });
+                return value;
+            }
+            return value.map(item => decodeValue(schema.item, item, `${path}[]`, issues));
+
+        case 'record': {
+            if (Array.isArray(value) && value.length === 0) return {};
+            if (!isPlainObject(value)) {
+                issues.push({ kind: 'type', path, expected: 'object', received: describe(value) });
+                return value;
+            }
+            const result: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                result[key] = decodeValue(schema.value, item, `${path}.*`, issues);
+            }
+            return result;
+        }
+
+        case 'object': {
+            if (Array.isArray(value) && value.length === 0) return {};
+            if (!isPlainObject(value)) {
+                issues.push({ kind: 'type', path, expected: 'object', received: describe(value) });
+                return value;
+            }
+            const result: Record<string, unknown> = { ...value };
+            for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+                const fieldPath = path ? `${path}.${key}` : key;
+                if (value[key] === undefined) {
+                    if (fieldSchema.kind !== 'optional') {
+                        issues.push({ kind: 'missing', path: fieldPath });
+                    }
+                    continue;
+                }
+                result[key] = decodeValue(fieldSchema, value[key], fieldPath, issues);
+            }
+            for (const key of Object.keys(value)) {
+                if (!(key in schema.fields)) {
+                    issues.push({ kind: 'unknown', path: path ? `${path}.${key}` : key, received: describe(value[key]) });
+                }
+            }
+            return result;
+        }
+    }
+}
+
+/**
+ * Decodifica uma resposta e retorna o valor tipado junto com os problemas encontrados
+ */
+export function decode<T>(schema: Schema, data: unknown): { value: T; issues: SchemaIssue[] } {
+    const issues: SchemaIssue[] = [];
+    const value = decodeValue(schema, data, '', issues) as T;
+    return { value, issues };
+}
+
+/**
+ * Acumula divergências entre as respostas do jogo e os schemas.
+ * Cada divergência (schema + tipo + caminho) é logada apenas uma vez.
+ */
+export class SchemaDriftReporter {
+    private logger: Logger;
+    private seen: Set<string> = new Set();
+    private issuesBySchema: Map<string, SchemaIssue[]> = new Map();
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    report(endpoint: string, schemaName: string, issues: SchemaIssue[]): void {
+        for (const issue of issues) {
+            const key = `${schemaName}|${issue.kind}|${issue.path}`;
+            if (this.seen.has(key)) continue;
+            this.seen.add(key);
+
+            const list = this.issuesBySchema.get(schemaName) || [];
+            list.push(issue);
+            this.issuesBySchema.set(schemaName, list);
+
+            this.logger.warn(`🧬 Schema drift em ${endpoint} (${schemaName}): ${this.formatIssue(issue)}`);
+        }
+    }
+
+    /**
+     * Todas as divergências já vistas, agrupadas por schema
+     */
+    getReport(): Record<string, SchemaIssue[]> {
+        return Object.fromEntries(this.issuesBySchema);
+    }
+
+    private formatIssue(issue: SchemaIssue): string {
+        switch (issue.kind) {
+            case 'missing':
+                return `campo ausente "${issue.path}"`;
+            case 'unknown':
+                return `campo desconhecido "${issue.path}" (${issue.received})`;
+            case 'type':
+                return `tipo inesperado em "${issue.path || '(raiz)'}": esperado ${issue.expected}, recebido ${issue.received}`;
+        }
+    }
+}
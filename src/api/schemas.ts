@@ -0,0 +1,576 @@
+// ============================================
+// Farm Manager Bot - Response Schemas
+// ============================================
+// Espelham as interfaces de src/types. Ao alterar um tipo, atualize o schema correspondente.
+
+import { ResponseSchema, Schema, s } from './schema';
+
+const base = (fields: Record<string, Schema>): Schema => s.object({
+    BT: s.string(),
+    deal: s.optional(s.array(s.any())),
+    ...fields,
+});
+
+const tractorData = s.object({
+    id: s.number(),
+    location: s.number(),
+    haHour: s.number(),
+    fuelHour: s.number(),
+    opType: s.string(),
+    inUse: s.number(),
+    farmlandId: s.number(),
+    opTimes: s.record(s.number()),
+    wear: s.optional(s.number()),
+});
+
+const tractorCategory = s.optional(s.object({
+    count: s.number(),
+    data: s.record(tractorData),
+}));
+
+const farmTractors = s.object({
+    tractorCount: s.number(),
+    plowing: tractorCategory,
+    clearing: tractorCategory,
+    seeding: tractorCategory,
+    fertilizing: tractorCategory,
+    harvesting: tractorCategory,
+});
+
+const farmlandFields = {
+    id: s.number(),
+    farmlandId: s.number(),
+    farmlandName: s.string(),
+    area: s.number(),
+    cropYield: s.number(),
+    complexityIndex: s.number(),
+    farmId: s.number(),
+    farmlandState: s.string(),
+    previousSeed: s.optional(s.object({
+        img: s.string(),
+        name: s.string(),
+        hasPrevious: s.number(),
+    })),
+};
+
+const farmlandData = s.object(farmlandFields);
+
+const farmlandCategory = s.optional(s.object({
+    typeCount: s.number(),
+    farmId: s.number(),
+    tractors: s.number(),
+    canCultivate: s.number(),
+    nextState: s.string(),
+    data: s.record(farmlandData),
+}));
+
+const farm = s.object({
+    name: s.string(),
+    countryCode: s.string(),
+    tractorCount: s.number(),
+    farmlandCount: s.number(),
+    farmlands: s.object({
+        raw: farmlandCategory,
+        cleared: farmlandCategory,
+        plowed: farmlandCategory,
+        seeded: farmlandCategory,
+        growing: farmlandCategory,
+        matured: farmlandCategory,
+    }),
+});
+
+const implementChangeData = s.object({
+    total: s.number(),
+    swap: s.number(),
+    attach: s.number(),
+    types: s.union(s.array(s.string()), s.record(s.number())),
+});
+
+const tabCount = s.object({
+    pending: s.number(),
+    cultivate: s.number(),
+    harvesting: s.number(),
+    seed: s.number(),
+    silo: s.number(),
+});
+
+const seedInfo = s.object({
+    id: s.number(),
+    amount: s.number(),
+    remainingCapacity: s.number(),
+    bushels: s.number(),
+    img: s.string(),
+    name: s.string(),
+    kgPerHa: s.number(),
+    siloImg: s.string(),
+});
+
+const pendingFarmland = s.object({
+    id: s.number(),
+    farmlandId: s.number(),
+    farmlandName: s.string(),
+    area: s.number(),
+    opType: s.string(),
+    opTimeRemain: s.number(),
+    opPct: s.number(),
+    farmId: s.number(),
+});
+
+const fuelSilo = s.object({
+    siloHolding: s.number(),
+    siloCapacity: s.number(),
+    totalHolding: s.number(),
+    remainingCapacityActual: s.number(),
+    remainingCapacity: s.number(),
+    holding: s.number(),
+    pctFull: s.number(),
+});
+
+const equipmentCategory = s.object({
+    data: s.object({
+        available: s.number(),
+        maxUnitsToUse: s.number(),
+        selectedUnits: s.number(),
+        sumHaHour: s.number(),
+        ci: s.number(),
+        opDuration: s.number(),
+        nextUnitAvailableIn: s.optional(s.number()),
+        workersAvailable: s.optional(s.number()),
+        workerCostPerHa: s.optional(s.number()),
+    }),
+    units: s.optional(s.array(s.object({
+        id: s.optional(s.number()),
+        heavyId: s.optional(s.number()),
+        haHour: s.number(),
+        hours: s.optional(s.number()),
+        harvestType: s.optional(s.number()),
+        img: s.string(),
+        wear: s.optional(s.number()),
+        implementId: s.optional(s.number()),
+    }))),
+});
+
+const batchActionResult = s.object({
+    success: s.number(),
+    type: s.string(),
+    farmlandId: s.number(),
+    userFarmlandId: s.number(),
+    farmId: s.number(),
+    opTimeRemain: s.number(),
+    opStartIn: s.number(),
+    opPctPerSec: s.number(),
+    farmlandState: s.string(),
+    opType: s.string(),
+    growTimeRemain: s.number(),
+    growPctPerSec: s.number(),
+    farmlandNextOpState: s.string(),
+    opStart: s.number(),
+    opEnd: s.number(),
+    growEnd: s.number(),
+    harvestEnd: s.number(),
+});
+
+// ============================================
+// Schemas por resposta
+// ============================================
+
+export const CultivatingTabSchema: ResponseSchema = {
+    name: 'CultivatingTabResponse',
+    schema: base({
+        data: s.object({
+            seeding: s.number(),
+            farmlands: s.number(),
+            sumArea: s.number(),
+        }),
+        implementChangeData,
+        farms: s.record(farm),
+        tractors: s.record(farmTractors),
+        count: tabCount,
+        fertilizingUnlocked: s.number(),
+        disableFertilizing: s.number(),
+    }),
+};
+
+export const SeedingTabSchema: ResponseSchema = {
+    name: 'SeedingTabResponse',
+    schema: base({
+        data: s.object({
+            hasSeed: s.number(),
+            seeding: s.number(),
+            farmlands: s.number(),
+            sumArea: s.number(),
+        }),
+        seed: s.record(seedInfo),
+        implementChangeData,
+        farms: s.record(farm),
+        tractors: s.record(farmTractors),
+        count: tabCount,
+        fertilizingUnlocked: s.number(),
+        disableFertilizing: s.number(),
+    }),
+};
+
+export const HarvestTabSchema: ResponseSchema = {
+    name: 'HarvestTabResponse',
+    schema: base({
+        data: s.optional(s.object({
+            farmlands: s.number(),
+            sumArea: s.number(),
+        })),
+        farms: s.optional(s.record(s.object({
+            name: s.string(),
+            countryCode: s.string(),
+            farmlands: s.record(s.object({
+                canHarvest: s.number(),
+                data: s.record(s.object({ ...farmlandFields, canHarvest: s.number() })),
+            })),
+        }))),
+        tractors: s.optional(s.record(farmTractors)),
+    }),
+};
+
+export const PendingTabSchema: ResponseSchema = {
+    name: 'PendingTabResponse',
+    schema: base({
+        farmlands: s.object({
+            operating: s.nullable(s.record(pendingFarmland)),
+            maturing: s.nullable(s.record(pendingFarmland)),
+        }),
+        canIrrigate: s.number(),
+        irrigateCount: s.number(),
+        checklist: s.flag(),
+    }),
+};
+
+export const SiloTabSchema: ResponseSchema = {
+    name: 'SiloTabResponse',
+    schema: base({
+        cropSilo: s.object({
+            siloCapacity: s.number(),
+            totalHolding: s.number(),
+            totalHoldingBushels: s.number(),
+            holding: s.record(s.object({
+                id: s.number(),
+                amount: s.number(),
+                remainingCapacity: s.number(),
+                bushels: s.number(),
+                img: s.string(),
+                name: s.string(),
+                growedImg: s.string(),
+                siloImg: s.string(),
+                pctFull: s.number(),
+            })),
+            pctFull: s.number(),
+        }),
+        increase: s.object({
+            small: s.object({ cost: s.number(), capacity: s.number() }),
+            medium: s.object({ cost: s.number(), capacity: s.number() }),
+        }),
+    }),
+};
+
+export const SiloUpgradeSchema: ResponseSchema = {
+    name: 'SiloUpgradeResponse',
+    schema: base({
+        success: s.number(),
+        cost: s.number(),
+        siloCapacity: s.number(),
+        errors: s.optional(s.array(s.string())),
+    }),
+};
+
+export const CropValuesSchema: ResponseSchema = {
+    name: 'CropValuesResponse',
+    schema: base({
+        cropValues: s.record(s.object({
+            priceIncrease: s.number(),
+            cropValuePer1k: s.number(),
+            cropValueRating: s.number(),
+        })),
+        history: s.record(s.array(s.number())),
+    }),
+};
+
+export const SellProductSchema: ResponseSchema = {
+    name: 'SellProductResponse',
+    schema: base({
+        cropId: s.number(),
+        brokerage: s.number(),
+        valuePer1k: s.number(),
+        cropMultiplier: s.number(),
+        cropValueRating: s.number(),
+        cropData: s.object({
+            id: s.number(),
+            name: s.string(),
+            type: s.string(),
+            cropValue: s.number(),
+        }),
+        checklist: s.flag(),
+        success: s.number(),
+        income: s.number(),
+        amount: s.number(),
+        remaining: s.number(),
+    }),
+};
+
+export const FarmlandDetailsSchema: ResponseSchema = {
+    name: 'FarmlandDetailsResponse',
+    schema: s.object({
+        id: s.number(),
+        userFarmlandId: s.number(),
+        farmId: s.number(),
+        farmName: s.string(),
+        farmlandId: s.number(),
+        farmlandName: s.string(),
+        farmlandColor: s.string(),
+        city: s.string(),
+        country: s.string(),
+        countryCode: s.string(),
+        area: s.number(),
+        machinesOperating: s.number(),
+        isIrrigating: s.number(),
+        userCultivateCount: s.number(),
+        farmland: s.object({
+            isSeeding: s.number(),
+            isHarvesting: s.number(),
+            harvestCycles: s.number(),
+            maxHarvestCycles: s.number(),
+            outputState: s.string(),
+            opType: s.string(),
+            isCultivating: s.number(),
+            isGrowing: s.number(),
+            canIrrigate: s.number(),
+            maturedIn: s.number(),
+            isPendingOp: s.number(),
+            isPendingMaturing: s.number(),
+            isMatured: s.number(),
+            complexityIndex: s.number(),
+            farmlandState: s.string(),
+            cropImg: s.nullable(s.string()),
+            cropName: s.nullable(s.string()),
+            cropId: s.number(),
+        }),
+        instantCompleteCost: s.number(),
+        equipment: s.object({
+            clearing: equipmentCategory,
+            plowing: equipmentCategory,
+            fertilizing: equipmentCategory,
+            seeding: equipmentCategory,
+            harvesting: equipmentCategory,
+        }),
+        operations: s.object({
+            opTimeRemain: s.number(),
+            opStartIn: s.number(),
+            opPct: s.number(),
+            growTimeRemain: s.number(),
+            growPct: s.number(),
+        }),
+        canHarvest: s.number(),
+        canSeed: s.number(),
+        canFertilize: s.number(),
+        canPlow: s.number(),
+        canClear: s.number(),
+        // Geometria do terreno: grande e não utilizada pelo bot
+        geometry: s.optional(s.any()),
+    }),
+};
+
+export const FarmlandActionSchema: ResponseSchema = {
+    name: 'FarmlandActionResponse',
+    schema: base({
+        tractors: s.array(s.object({
+            id: s.number(),
+            tractorName: s.string(),
+            type: s.string(),
+            isPending: s.flag(),
+            hasImplement: s.flag(),
+            implementId: s.optional(s.number()),
+            haHour: s.number(),
+            hp: s.number(),
+            wear: s.optional(s.number()),
+            implementWear: s.optional(s.number()),
+        })),
+        implements: s.optional(s.array(s.object({
+            id: s.number(),
+            name: s.string(),
+            type: s.string(),
+            available: s.number(),
+            minHp: s.number(),
+            haHour: s.number(),
+            wear: s.optional(s.number()),
+        }))),
+    }),
+};
+
+export const BatchActionSchema: ResponseSchema = {
+    name: 'BatchActionResponse',
+    schema: base({
+        isHeavy: s.number(),
+        opEnd: s.number(),
+        addHours: s.number(),
+        farmlandId: s.number(),
+        newWear: s.number(),
+        hectare: s.record(s.number()),
+        checklist: s.flag(),
+        sumCultivated: s.number(),
+        operationType: s.string(),
+        failed: s.number(),
+        result: s.record(batchActionResult),
+        income: s.number(),
+        sumExpense: s.number(),
+        fuelUsed: s.number(),
+        unitsOperating: s.number(),
+        now: s.number(),
+        errors: s.array(s.string()),
+    }),
+};
+
+export const IrrigateSchema: ResponseSchema = {
+    name: 'IrrigateResponse',
+    schema: base({
+        success: s.number(),
+        userFarmlandId: s.number(),
+        cost: s.number(),
+        growTimeRemain: s.number(),
+        irrigateCount: s.number(),
+        errors: s.optional(s.array(s.string())),
+    }),
+};
+
+export const ImplementChangeSchema: ResponseSchema = {
+    name: 'ImplementChangeResponse',
+    schema: base({
+        success: s.number(),
+        tractorId: s.number(),
+        implementId: s.number(),
+        errors: s.optional(s.array(s.string())),
+    }),
+};
+
+export const RepairSchema: ResponseSchema = {
+    name: 'RepairResponse',
+    schema: base({
+        success: s.number(),
+        id: s.number(),
+        cost: s.number(),
+        wear: s.number(),
+        errors: s.optional(s.array(s.string())),
+    }),
+};
+
+export const MachineMarketSchema: ResponseSchema = {
+    name: 'MachineMarketResponse',
+    schema: base({
+        user: s.object({ account: s.number() }),
+        machines: s.array(s.object({
+            id: s.number(),
+            name: s.string(),
+            category: s.string(),
+            type: s.string(),
+            haHour: s.number(),
+            fuelHour: s.number(),
+            hp: s.optional(s.number()),
+            price: s.number(),
+        })),
+    }),
+};
+
+export const BuyMachineSchema: ResponseSchema = {
+    name: 'BuyMachineResponse',
+    schema: base({
+        success: s.number(),
+        id: s.number(),
+        farmId: s.number(),
+        cost: s.number(),
+        errors: s.optional(s.array(s.string())),
+    }),
+};
+
+export const FarmlandDataSchema: ResponseSchema = {
+    name: 'FarmlandDataResponse',
+    schema: base({
+        farmland: s.object({
+            id: s.number(),
+            farmlandId: s.number(),
+            farmlandState: s.string(),
+            farmlandName: s.string(),
+            area: s.number(),
+            cropId: s.number(),
+        }),
+        city: s.object({
+            city: s.string(),
+            country: s.string(),
+            climate: s.string(),
+        }),
+        cropScores: s.record(s.object({
+            id: s.number(),
+            nameLatin: s.string(),
+            category: s.string(),
+            img: s.string(),
+            score: s.number(),
+        })),
+    }),
+};
+
+export const MarketSchema: ResponseSchema = {
+    name: 'MarketResponse',
+    schema: base({
+        user: s.object({ account: s.number(), points: s.number() }),
+        silo: s.object({ siloCapacity: s.number(), totalHolding: s.number() }),
+        seed: s.array(s.object({
+            id: s.number(),
+            name: s.string(),
+            type: s.string(),
+            img: s.string(),
+            kgPerHa: s.number(),
+            yieldPerHa: s.number(),
+            seedCost: s.number(),
+            unlocked: s.number(),
+            canAfford: s.number(),
+            cropValueRating: s.number(),
+            growTime: s.number(),
+        })),
+    }),
+};
+
+export const BuySeedSchema: ResponseSchema = {
+    name: 'BuySeedResponse',
+    schema: base({
+        success: s.number(),
+        amount: s.number(),
+        cost: s.number(),
+        remaining: s.number(),
+    }),
+};
+
+export const FuelSiloSchema: ResponseSchema = {
+    name: 'FuelSiloResponse',
+    schema: base({
+        canWatchAds: s.number(),
+        hasLivestock: s.number(),
+        fuelDiscount: s.number(),
+        fuelSilo,
+        increase: s.object({
+            cost: s.number(),
+            capacity: s.number(),
+            newCapacity: s.number(),
+        }),
+        user: s.object({ account: s.number(), points: s.number() }),
+        fuelCost: s.number(),
+        fuelHistory: s.array(s.object({
+            timestamp: s.number(),
+            price: s.number(),
+        })),
+    }),
+};
+
+export const BuyFuelSchema: ResponseSchema = {
+    name: 'BuyFuelResponse',
+    schema: base({
+        success: s.number(),
+        cost: s.number(),
+        fuelSilo,
+        amount: s.number(),
+        checklist: s.flag(),
+    }),
+};
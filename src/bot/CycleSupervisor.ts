@@ -0,0 +1,168 @@
+// ============================================
+// Farm Manager Bot - Cycle Supervisor
+// ============================================
+
+import { CycleRecord, StepRecord } from '../types';
+import { Logger } from '../utils/logger';
+
+// Quantidade de ciclos mantidos no histórico
+const HISTORY_SIZE = 20;
+
+export interface SupervisedStep {
+    name: string;
+    run: () => Promise<unknown>;
+}
+
+export interface CycleSupervisorOptions {
+    cycleTimeoutMs: number;
+    stepTimeoutMs: number;
+}
+
+class StepTimeoutError extends Error {
+    constructor(step: string, timeoutMs: number) {
+        super(`Etapa ${step} excedeu ${Math.round(timeoutMs / 1000)}s`);
+        this.name = 'StepTimeoutError';
+    }
+}
+
+/**
+ * Executa as etapas de um ciclo garantindo um único ciclo em andamento.
+ * Cada etapa tem timeout próprio e falhas ficam isoladas na etapa: as seguintes
+ * continuam rodando. Uma etapa que estoura o timeout não pode ser cancelada,
+ * então as etapas restantes são puladas e o próximo ciclo só começa depois
+ * que ela terminar de fato (evita disputa por tratores e pelo BT).
+ */
+export class CycleSupervisor {
+    private logger: Logger;
+    private cycleTimeoutMs: number;
+    private stepTimeoutMs: number;
+    private inFlight: boolean = false;
+    private abandoned: Set<string> = new Set();
+    private history: CycleRecord[] = [];
+
+    constructor(options: CycleSupervisorOptions, logger: Logger) {
+        this.cycleTimeoutMs = options.cycleTimeoutMs;
+        this.stepTimeoutMs = options.stepTimeoutMs;
+        this.logger = logger;
+    }
+
+    /**
+     * Executa as etapas em sequência. Retorna null se outro ciclo ainda estiver em andamento.
+     */
+    async run(steps: SupervisedStep[]): Promise<CycleRecord | null> {
+        if (this.inFlight) {
+            this.logger.warn('⏳ Ciclo anterior ainda em andamento, pulando este ciclo');
+            return null;
+        }
+
+        if (this.abandoned.size > 0) {
+            this.logger.warn(
+                `⏳ Etapa(s) ${Array.from(this.abandoned).join(', ')} de um ciclo anterior ainda em andamento, pulando este ciclo`
+            );
+            return null;
+        }
+
+        this.inFlight = true;
+        const startedAt = Date.now();
+        const records: StepRecord[] = [];
+
+        try {
+            for (const step of steps) {
+                const remaining = this.cycleTimeoutMs - (Date.now() - startedAt);
+
+                if (remaining <= 0) {
+                    records.push({ step: step.name, outcome: 'skipped', durationMs: 0, error: 'timeout do ciclo' });
+                    continue;
+                }
+
+                // Uma etapa que estourou o timeout continua rodando: as próximas esperam o próximo ciclo
+                if (this.abandoned.size > 0) {
+                    records.push({ step: step.name, outcome: 'skipped', durationMs: 0, error: 'etapa anterior em andamento' });
+                    continue;
+                }
+
+                records.push(await this.runStep(step, Math.min(this.stepTimeoutMs, remaining)));
+            }
+        } finally {
+            this.inFlight = false;
+        }
+
+        const record: CycleRecord = {
+            startedAt,
+            durationMs: Date.now() - startedAt,
+            steps: records,
+        };
+
+        this.history.push(record);
+        if (this.history.length > HISTORY_SIZE) {
+            this.history.shift();
+        }
+
+        return record;
+    }
+
+    /**
+     * Últimos ciclos executados (mais antigo primeiro)
+     */
+    getHistory(): CycleRecord[] {
+        return [...this.history];
+    }
+
+    /**
+     * Formata a duração e o resultado de cada etapa em uma linha
+     */
+    static formatRecord(record: CycleRecord): string {
+        const icons: Record<StepRecord['outcome'], string> = {
+            ok: '✓',
+            error: '✗',
+            timeout: '⏱️',
+            skipped: '⏭️',
+        };
+
+        return record.steps
+            .map(s => `${s.step} ${(s.durationMs / 1000).toFixed(1)}s ${icons[s.outcome]}`)
+            .join(' | ');
+    }
+
+    private async runStep(step: SupervisedStep, timeoutMs: number): Promise<StepRecord> {
+        const startedAt = Date.now();
+        const task = step.run();
+        let timer: NodeJS.Timeout | undefined;
+
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new StepTimeoutError(step.name, timeoutMs)), timeoutMs);
+        });
+
+        try {
+            await Promise.race([task, timeout]);
+            return { step: step.name, outcome: 'ok', durationMs: Date.now() - startedAt };
+        } catch (error) {
+            const durationMs = Date.now() - startedAt;
+
+            if (error instanceof StepTimeoutError) {
+                this.logger.warn(`⏱️ ${error.message}, etapas restantes ficam para o próximo ciclo`);
+                this.trackAbandoned(step.name, task);
+                return { step: step.name, outcome: 'timeout', durationMs, error: error.message };
+            }
+
+            this.logger.error(`Erro na etapa ${step.name}`, error as Error);
+            return { step: step.name, outcome: 'error', durationMs, error: (error as Error).message };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Acompanha uma etapa que estourou o timeout até ela terminar
+     */
+    private trackAbandoned(name: string, task: Promise<unknown>): void {
+        this.abandoned.add(name);
+
+        task
+            .catch(error => this.logger.debugLog(`[Supervisor] Etapa ${name} terminou com erro após o timeout: ${error}`))
+            .finally(() => {
+                this.abandoned.delete(name);
+                this.logger.debugLog(`[Supervisor] Etapa ${name} terminou após o timeout`);
+            });
+    }
+}
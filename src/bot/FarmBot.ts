@@ -3,35 +3,152 @@
 // ============================================
 
 import { ApiClient } from '../api/client';
-import { FarmService, TractorService, SiloService, MarketService, SeedService, FuelService } from '../services';
-import { BotConfig, AvailableTask, BatchActionUnit } from '../types';
+import { FarmService, TractorService, SiloService, SiloUpgradeService, MarketService, SellStrategyService, SellOrderBook, SeedService, CropRotationService, FuelService, FuelForecastService, FertilizingService, IrrigationService, BatchActionService, WorkerService, ImplementService, MaintenanceService, FleetAdvisorService, AuthService, SessionStore } from '../services';
+import { BotConfig, AvailableTask, BatchActionUnit, CycleRecord, CycleStep, FleetHealthReport, SiloProduct } from '../types';
 import { Logger } from '../utils/logger';
+import { FertilizingPlan, FertilizingSettings } from '../services/FertilizingService';
+import { Scheduler } from './Scheduler';
+import { CycleSupervisor } from './CycleSupervisor';
+
+const ALL_STEPS: CycleStep[] = ['fuel', 'maintenance', 'implements', 'harvest', 'seed', 'cultivate', 'fertilize', 'irrigate', 'sell', 'advisor'];
 
 export class FarmBot {
     private api: ApiClient;
     private farmService: FarmService;
     private tractorService: TractorService;
     private siloService: SiloService;
+    private siloUpgradeService: SiloUpgradeService;
     private marketService: MarketService;
+    private sellStrategyService: SellStrategyService;
+    private sellOrderBook: SellOrderBook;
     private seedService: SeedService;
+    private cropRotationService: CropRotationService;
     private fuelService: FuelService;
+    private fuelForecastService: FuelForecastService;
+    private fertilizingService: FertilizingService;
+    private irrigationService: IrrigationService;
+    private batchActionService: BatchActionService;
+    private workerService: WorkerService;
+    private implementService: ImplementService;
+    private maintenanceService: MaintenanceService;
+    private fleetAdvisorService: FleetAdvisorService;
+    private sessionStore: SessionStore | null;
+    private scheduler: Scheduler;
+    private supervisor: CycleSupervisor;
     private logger: Logger;
     private config: BotConfig;
     private isRunning: boolean = false;
-    private intervalId: NodeJS.Timeout | null = null;
+    private wakeTimer: NodeJS.Timeout | null = null;
 
     constructor(config: BotConfig) {
         this.config = config;
         this.logger = new Logger('FarmBot', config.debug);
-        this.api = new ApiClient(config.phpSessionId!, this.logger);
+        this.api = new ApiClient(config.phpSessionId!, this.logger, {
+            baseUrl: config.baseUrl,
+            onSessionExpired: this.canReauthenticate() ? () => this.reauthenticate() : undefined,
+            timeoutMs: config.apiTimeoutMs,
+            maxRetries: config.apiMaxRetries,
+            retryBaseDelayMs: config.apiRetryBaseDelayMs,
+            circuitBreakerThreshold: config.circuitBreakerThreshold,
+            circuitBreakerCooldownMs: config.circuitBreakerCooldownMs,
+            dryRun: config.dryRun,
+        });
+
+        if (config.initialBT) {
+            this.api.setBT(config.initialBT);
+        }
+
+        // Sessões de contas conhecidas são guardadas para o próximo início
+        this.sessionStore = config.accountKey ? new SessionStore(config.stateDir, this.logger) : null;
 
         // Inicializar serviços
+        this.maintenanceService = new MaintenanceService(this.api, this.logger, config.stateDir, {
+            repairThreshold: config.wearRepairThreshold,
+            excludeThreshold: config.wearExcludeThreshold,
+            sampleMaxAgeHours: config.wearSampleMaxAgeHours,
+            cashReserve: config.maintenanceCashReserve,
+        });
         this.farmService = new FarmService(this.api, this.logger);
-        this.tractorService = new TractorService(this.api, this.logger);
+        this.tractorService = new TractorService(this.api, this.logger, this.maintenanceService);
         this.siloService = new SiloService(this.api, this.logger);
+        this.siloUpgradeService = new SiloUpgradeService(this.api, this.logger);
         this.marketService = new MarketService(this.api, this.logger);
-        this.seedService = new SeedService(this.api, this.logger);
-        this.fuelService = new FuelService(this.api, this.logger);
+        this.sellStrategyService = new SellStrategyService(this.marketService, this.logger, {
+            strategy: config.sellStrategy,
+            sellThreshold: config.siloSellThreshold,
+            forceSellPct: config.sellForcePct,
+            pricePercentile: config.sellPricePercentile,
+            goodRating: config.sellGoodRating,
+        });
+        this.sellOrderBook = new SellOrderBook(config.stateDir, this.logger);
+        this.fuelForecastService = new FuelForecastService(this.api, this.logger);
+        this.seedService = new SeedService(this.api, this.logger, {
+            mode: config.seedSelectionMode,
+            farmModes: config.seedSelectionFarmModes,
+            blendProfitWeight: config.seedBlendProfitWeight,
+        }, this.fuelForecastService);
+        this.fertilizingService = new FertilizingService(this.api, this.logger, this.tractorService, this.fuelForecastService);
+        this.cropRotationService = new CropRotationService(config.stateDir, this.logger, {
+            maxRepeats: config.rotationMaxRepeats,
+            followUps: config.rotationFollowUps,
+            farmPlans: config.rotationFarmPlans,
+        });
+        this.irrigationService = new IrrigationService(this.api, this.logger, config.stateDir);
+        this.fleetAdvisorService = new FleetAdvisorService(this.api, this.logger, config.stateDir, {
+            windowDays: config.fleetAdvisorWindowDays,
+            slowHours: config.fleetAdvisorSlowHours,
+            valuePerHa: config.fleetAdvisorValuePerHa,
+        });
+        this.batchActionService = new BatchActionService(this.api, this.logger, this.tractorService, this.fleetAdvisorService);
+        this.workerService = new WorkerService(this.api, this.logger, config.stateDir);
+        this.implementService = new ImplementService(this.api, this.logger);
+        this.fuelService = new FuelService(this.api, this.logger, config.stateDir, {
+            minLevel: config.fuelMinLevel,
+            targetLevel: config.fuelTargetLevel,
+            cheapPercentile: config.fuelCheapPercentile,
+            expensivePercentile: config.fuelExpensivePercentile,
+            windowHours: config.fuelWindowHours,
+            trendHours: config.fuelTrendHours,
+            risingTrendPct: config.fuelRisingTrendPct,
+            historyDays: config.fuelHistoryDays,
+            minSamples: config.fuelMinSamples,
+        });
+        this.scheduler = new Scheduler(config.checkIntervalMs, this.logger);
+        this.supervisor = new CycleSupervisor(
+            { cycleTimeoutMs: config.cycleTimeoutMs, stepTimeoutMs: config.stepTimeoutMs },
+            this.logger
+        );
+    }
+
+    /**
+     * Verifica se há credenciais guardadas para renovar a sessão
+     */
+    private canReauthenticate(): boolean {
+        return !!(this.config.credentials || this.config.androidToken);
+    }
+
+    /**
+     * Obtém uma nova sessão quando o PHPSESSID expira
+     */
+    private async reauthenticate(): Promise<string> {
+        const authService = new AuthService(this.config.baseUrl);
+        const sessionId = await authService.refreshSession(this.config.credentials, this.config.androidToken);
+        this.config.phpSessionId = sessionId;
+        this.saveSession(sessionId);
+        return sessionId;
+    }
+
+    /**
+     * Guarda o PHPSESSID e o BT atuais no arquivo de sessões
+     */
+    private saveSession(sessionId: string, bt?: string): void {
+        if (!this.sessionStore || !this.config.accountKey) return;
+
+        try {
+            this.sessionStore.updateSession(this.config.accountKey, sessionId, bt);
+        } catch (error) {
+            this.logger.warn(`Não foi possível guardar a sessão: ${(error as Error).message}`);
+        }
     }
 
     /**
@@ -39,22 +156,46 @@ export class FarmBot {
      */
     async start(): Promise<void> {
         this.logger.info('🚀 Iniciando Farm Manager Bot...');
-        this.logger.info(`Intervalo de verificação: ${this.config.checkIntervalMs / 1000}s`);
+        this.logger.info(`Intervalo máximo entre ciclos: ${this.config.checkIntervalMs / 1000}s`);
         this.logger.info(`Limite de venda do silo: ${this.config.siloSellThreshold}%`);
 
         this.isRunning = true;
 
         // Executar primeira vez imediatamente
+        this.scheduler.markFullCycle();
         await this.runCycle();
 
-        // Configurar intervalo
-        this.intervalId = setInterval(async () => {
-            if (this.isRunning) {
+        this.scheduleNextCycle();
+
+        this.logger.success('Bot iniciado com sucesso!');
+    }
+
+    /**
+     * Agenda o próximo ciclo para o próximo evento do jogo (fim de operação, maturação)
+     * ou para o fim do intervalo, o que vier antes
+     */
+    private scheduleNextCycle(): void {
+        if (!this.isRunning) return;
+
+        const plan = this.scheduler.planNextWake();
+        this.logger.info(`⏰ Próximo ciclo em ${Math.ceil(plan.delayMs / 1000)}s (${plan.reason})`);
+
+        this.wakeTimer = setTimeout(async () => {
+            this.wakeTimer = null;
+            if (!this.isRunning) return;
+
+            const dueSteps = this.scheduler.takeDueSteps();
+
+            if (plan.full) {
+                this.scheduler.markFullCycle();
                 await this.runCycle();
+            } else if (dueSteps.size > 0) {
+                // Combustível é verificado antes de qualquer operação
+                await this.runCycle(new Set<CycleStep>(['fuel', ...dueSteps]));
             }
-        }, this.config.checkIntervalMs);
 
-        this.logger.success('Bot iniciado com sucesso!');
+            this.scheduleNextCycle();
+        }, plan.delayMs);
     }
 
     /**
@@ -64,40 +205,216 @@ export class FarmBot {
         this.logger.info('⏹️ Parando Farm Manager Bot...');
         this.isRunning = false;
 
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
+        if (this.wakeTimer) {
+            clearTimeout(this.wakeTimer);
+            this.wakeTimer = null;
         }
 
         this.logger.success('Bot parado.');
     }
 
     /**
-     * Executa um ciclo completo de verificação e ação
+     * Executa um ciclo de verificação e ação.
+     * Sem `steps`, executa o ciclo completo; com `steps`, apenas os passos disparados por eventos.
      */
-    async runCycle(): Promise<void> {
+    async runCycle(steps: Set<CycleStep> = new Set(ALL_STEPS)): Promise<void> {
+        const isFull = ALL_STEPS.every(step => steps.has(step));
+
         this.logger.info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        this.logger.info(`🔄 Iniciando ciclo - ${new Date().toLocaleString('pt-BR')}`);
+        this.logger.info(
+            `🔄 Iniciando ciclo${isFull ? '' : ` (${Array.from(steps).join(', ')})`} - ${new Date().toLocaleString('pt-BR')}`
+        );
 
-        try {
-            // 0. Verificar e comprar combustível se necessário
+        this.workerService.startCycle();
+        this.fuelForecastService.startCycle();
+
+        // Cada etapa roda isolada: uma falha ou timeout não impede as seguintes
+        const record = await this.supervisor.run([
+            // 0. Prever o combustível do trabalho e comprar se necessário
+            { name: 'fuel', run: () => this.checkAndBuyFuel() },
+            // 1. Reparar máquinas desgastadas e reportar a saúde da frota
+            { name: 'maintenance', run: () => this.checkAndRepairEquipment() },
+            // 2. Deixar os implementos certos nos tratores antes do trabalho chegar
+            { name: 'implements', run: () => this.checkAndManageImplements() },
+            // 3. Verificar e executar colheitas
+            { name: 'harvest', run: () => this.checkAndExecuteHarvesting() },
+            // 4. Verificar e executar semeaduras
+            { name: 'seed', run: () => this.checkAndExecuteSeeding() },
+            // 5. Verificar e executar cultivo (arar/limpar)
+            { name: 'cultivate', run: () => this.checkAndExecuteCultivating() },
+            // 6. Fertilizar terrenos em crescimento quando compensa
+            { name: 'fertilize', run: () => this.checkAndExecuteFertilizing() },
+            // 7. Irrigar terrenos em crescimento quando economiza tempo suficiente
+            { name: 'irrigate', run: () => this.checkAndExecuteIrrigation() },
+            // 8. Verificar e vender produtos do silo
+            { name: 'sell', run: () => this.checkAndSellProducts() },
+            // 9. Recomendar (e opcionalmente comprar) máquinas a partir dos gargalos
+            { name: 'advisor', run: () => this.checkFleetAdvisor() },
+        ].filter(step => steps.has(step.name as CycleStep)).concat([
+            // 10. Atualizar a linha do tempo de eventos para agendar o próximo ciclo
+            { name: 'schedule', run: () => this.refreshSchedule() },
+        ]));
+
+        if (!record) return;
+
+        const failed = record.steps.filter(s => s.outcome !== 'ok');
+        if (failed.length === 0) {
+            this.logger.info(`✅ Ciclo concluído em ${(record.durationMs / 1000).toFixed(1)}s`);
+        } else {
+            this.logger.warn(
+                `⚠️ Ciclo concluído com ${failed.length} etapa(s) com problema: ${failed.map(s => s.step).join(', ')}`
+            );
+        }
+        this.logger.info(`📊 Etapas: ${CycleSupervisor.formatRecord(record)}`);
+
+        this.logWorkerSummary();
+        this.logCircuitStates();
+        this.logDryRunSummary();
+        this.saveSession(this.api.getSessionId(), this.api.getCurrentBT());
+    }
+
+    /**
+     * Lê operações em andamento e campos em maturação para o agendador
+     */
+    private async refreshSchedule(): Promise<void> {
+        const pending = await this.api.getPendingTab();
+        this.scheduler.syncFromPending(pending);
+    }
+
+    /**
+     * Resume as ações simuladas no ciclo quando em modo dry-run
+     */
+    private logDryRunSummary(): void {
+        const recorder = this.api.getDryRunRecorder();
+        if (!recorder) return;
+
+        const actions = recorder.drain();
+        const totalCost = actions.reduce((sum, a) => sum + a.estimatedCost, 0);
+        const totalIncome = actions.reduce((sum, a) => sum + a.estimatedIncome, 0);
+
+        this.logger.info(
+            `🧪 [DRY RUN] ${actions.length} ação(ões) simulada(s) neste ciclo - ` +
+            `custo ~$${totalCost.toLocaleString()}, receita ~$${totalIncome.toLocaleString()}`
+        );
+    }
+
+    /**
+     * Loga as operações feitas com trabalhadores no ciclo e o gasto do dia
+     */
+    private logWorkerSummary(): void {
+        const summary = this.workerService.getCycleSummary(this.config.workersDailyBudget);
+        if (summary.operations === 0) return;
+
+        const budget = summary.dailyBudget > 0 ? ` de $${summary.dailyBudget.toLocaleString()}` : '';
+        this.logger.info(
+            `👷 Trabalhadores: ${summary.operations} operação(ões) neste ciclo, $${summary.spent.toLocaleString()} - ` +
+            `hoje $${summary.spentToday.toLocaleString()}${budget}`
+        );
+    }
+
+    /**
+     * Loga endpoints pausados pelo circuit breaker
+     */
+    private logCircuitStates(): void {
+        for (const status of this.api.getCircuitStates()) {
+            if (status.state === 'closed') continue;
+
+            this.logger.warn(
+                `🔌 ${status.endpoint}: circuito ${status.state} ` +
+                `(${status.consecutiveFailures} falha(s), nova tentativa em ${Math.ceil(status.retryInMs / 1000)}s)`
+            );
+        }
+    }
+
+    /**
+     * Compra combustível considerando o trabalho previsto e define quanto dele
+     * fica liberado para as tarefas do ciclo
+     */
+    private async checkAndBuyFuel(): Promise<void> {
+        if (!this.config.fuelForecastEnabled) {
             await this.fuelService.checkAndBuyFuel();
+            return;
+        }
 
-            // 1. Verificar e executar colheitas
-            await this.checkAndExecuteHarvesting();
+        const tasks = [
+            ...await this.farmService.getHarvestingTasks(),
+            ...await this.farmService.getSeedingTasks(),
+            ...await this.farmService.getCultivatingTasks(),
+        ];
+        const forecast = await this.fuelForecastService.forecast(tasks, this.config.fuelForecastHorizonHours);
+        const required = forecast.readyLiters + forecast.upcomingHarvestLiters;
+
+        if (required > 0) {
+            const byOpType = Object.entries(forecast.byOpType)
+                .map(([opType, liters]) => `${opType} ~${Math.ceil(liters).toLocaleString()}L`)
+                .join(', ');
+            this.logger.fuel(
+                `Previsão: ~${Math.ceil(forecast.readyLiters).toLocaleString()}L para ${tasks.length} tarefa(s) prontas` +
+                (byOpType ? ` (${byOpType})` : '') +
+                ` + ~${Math.ceil(forecast.upcomingHarvestLiters).toLocaleString()}L para colheitas nas próximas ` +
+                `${this.config.fuelForecastHorizonHours}h` +
+                (forecast.unknownTasks > 0 ? `, ${forecast.unknownTasks} tarefa(s) sem consumo conhecido` : '')
+            );
+        }
 
-            // 2. Verificar e executar semeaduras
-            await this.checkAndExecuteSeeding();
+        const level = await this.fuelService.checkAndBuyFuel(required);
+        this.fuelForecastService.setBudget(level, this.config.fuelMinLevel, forecast.upcomingHarvestLiters);
+    }
 
-            // 3. Verificar e executar cultivo (arar/limpar)
-            await this.checkAndExecuteCultivating();
+    /**
+     * Repara máquinas e implementos acima do limite de desgaste e loga a saúde da frota
+     */
+    private async checkAndRepairEquipment(): Promise<void> {
+        if (this.config.maintenanceEnabled) {
+            const { repaired, cost } = await this.maintenanceService.repairWornUnits();
+            if (repaired > 0) {
+                this.logger.info(`🛠️ ${repaired} reparo(s) neste ciclo, custo $${cost.toLocaleString()}`);
+            }
+        }
 
-            // 4. Verificar e vender produtos do silo
-            await this.checkAndSellProducts();
+        const report = this.maintenanceService.getHealthReport();
+        if (report.units === 0) return;
 
-            this.logger.info('✅ Ciclo concluído');
-        } catch (error) {
-            this.logger.error('Erro durante ciclo', error as Error);
+        this.logger.info(
+            `🛠️ Frota: ${report.units} unidade(s), desgaste médio ${report.averageWear.toFixed(0)}% - ` +
+            `${report.needsRepair.length} precisando de reparo, ${report.excluded.length} fora de operação`
+        );
+    }
+
+    /**
+     * Planeja e executa trocas de implemento conforme o trabalho previsto em cada farm
+     */
+    private async checkAndManageImplements(): Promise<void> {
+        if (!this.config.implementManagerEnabled) return;
+
+        this.logger.debugLog('Verificando implementos dos tratores...');
+
+        // Só conta como demanda de fertilização o que a etapa de fertilização faria
+        const fertilizingTasks = this.config.fertilizingEnabled
+            ? (await this.fertilizingService.findWorthwhile(
+                await this.farmService.getFertilizingTasks(),
+                this.getFertilizingSettings()
+            )).map(c => c.task)
+            : [];
+
+        const changes = await this.implementService.planChanges({
+            horizonMinutes: this.config.implementHorizonMinutes,
+            fertilizingTasks,
+        });
+
+        if (changes.length === 0) {
+            this.logger.debugLog('Nenhuma troca de implemento necessária');
+            return;
+        }
+
+        this.logger.task(`${changes.length} troca(s) de implemento planejada(s)`);
+
+        for (const change of changes) {
+            try {
+                await this.implementService.apply(change);
+            } catch (error) {
+                this.logger.error(`Erro ao trocar implemento do trator "${change.tractorName}"`, error as Error);
+            }
         }
     }
 
@@ -136,25 +453,36 @@ export class FarmBot {
 
         this.logger.task(`${tasks.length} semeadura(s) disponível(is)`);
 
-        for (const task of tasks) {
-            // Smart Seeding: encontrar melhor semente e garantir estoque
-            this.logger.info(`🌱 Preparando Smart Seeding para "${task.farmlandName}"...`);
+        // Smart Seeding: escolher a semente de todos os terrenos e comprar uma vez por cultura
+        this.logger.info(`🌱 Preparando Smart Seeding para ${tasks.length} terreno(s)...`);
 
-            const bestSeed = await this.seedService.prepareForSeeding(task.farmlandId, task.area);
+        const requests = tasks.map(task => {
+            const rotation = this.cropRotationService.getConstraints(task);
+            return { task, rotation: this.config.rotationEnabled ? rotation : null };
+        });
+        const allocations = await this.seedService.planSeeding(requests, this.config.seedCashReserve);
 
-            if (bestSeed) {
-                this.logger.info(
-                    `🌾 Semente selecionada: ${bestSeed.cropName} ` +
-                    `(Score: ${bestSeed.score}, ${bestSeed.requiredAmount}kg)`
-                );
-                // Passar cropId para a tarefa
-                (task as any).cropId = bestSeed.cropId;
+        // No modo batch, as tarefas com semente pronta são agrupadas depois do loop
+        const ready: AvailableTask[] = [];
+
+        for (const { task, seed } of allocations) {
+            this.logger.info(
+                `🌾 Semente selecionada para "${task.farmlandName}": ${seed.cropName} ` +
+                `(Score: ${seed.score}, ${seed.requiredAmount}kg)`
+            );
+            // Passar cropId para a tarefa
+            task.cropId = seed.cropId;
+            task.cropName = seed.cropName;
+
+            if (this.config.batchActionsEnabled) {
+                ready.push(task);
             } else {
-                this.logger.warn(`Não foi possível preparar sementes para ${task.farmlandName}`);
-                continue;
+                await this.executeTask(task);
             }
+        }
 
-            await this.executeTask(task);
+        if (ready.length > 0) {
+            await this.executeBatchedTasks(ready);
         }
     }
 
@@ -173,32 +501,220 @@ export class FarmBot {
 
         this.logger.task(`${tasks.length} cultivo(s) disponível(is)`);
 
+        if (this.config.batchActionsEnabled) {
+            await this.executeBatchedTasks(tasks);
+            return;
+        }
+
         for (const task of tasks) {
             await this.executeTask(task);
         }
     }
 
+    /**
+     * Executa tarefas agrupadas em ações batch com vários terrenos (mesma farm e operação)
+     */
+    private async executeBatchedTasks(tasks: AvailableTask[]): Promise<void> {
+        const plans = await this.batchActionService.planBatches(tasks, {
+            maxTractors: this.config.maxTractorsPerOp,
+            maxIdleTimeMinutes: this.config.maxIdleTimeMinutes,
+        });
+
+        // Tarefas que ficaram fora dos lotes esperariam por máquinas livres
+        if (this.config.workersEnabled) {
+            const planned = new Set(plans.flatMap(p => p.tasks.map(t => t.userFarmlandId)));
+            for (const task of tasks.filter(t => !planned.has(t.userFarmlandId))) {
+                await this.executeWithWorkers(task);
+            }
+        }
+
+        for (const plan of plans) {
+            if (!this.fuelForecastService.admit(plan.tasks)) continue;
+
+            const names = plan.tasks.map(t => `"${t.farmlandName}"`).join(', ');
+            this.logger.task(
+                `Executando ${plan.opType} em lote: ${names} (${plan.tasks.reduce((sum, t) => sum + t.area, 0)}ha, ` +
+                `${plan.tractors.length} trator(es), ~${Math.ceil(plan.estimatedDuration / 60)}min)`
+            );
+
+            try {
+                const { response, outcomes } = await this.batchActionService.execute(plan);
+
+                this.scheduler.recordBatchResult(
+                    response,
+                    new Map(plan.tasks.map(t => [t.userFarmlandId, t.farmlandName]))
+                );
+                this.maintenanceService.observeBatchResult(response, plan.tractors);
+                this.fuelForecastService.observeBatchResult(
+                    response,
+                    plan.opType,
+                    outcomes.filter(o => o.success).reduce((sum, o) => sum + o.task.area, 0)
+                );
+
+                const haHour = plan.tractors.reduce((sum, t) => sum + t.haHour, 0);
+
+                for (const outcome of outcomes) {
+                    if (outcome.success) {
+                        this.fleetAdvisorService.recordOperation(outcome.task, haHour, plan.estimatedDuration);
+                        this.recordRotation(outcome.task);
+                        this.logger.success(
+                            `${plan.opType} iniciado em "${outcome.task.farmlandName}" - ~${Math.ceil(outcome.opTimeRemain / 60)}min`
+                        );
+                    } else {
+                        this.logger.warn(
+                            `Falha ao executar ${plan.opType} em "${outcome.task.farmlandName}": ${outcome.error}`
+                        );
+                    }
+                }
+            } catch (error) {
+                this.logger.error(`Erro ao executar ${plan.opType} em lote (${names})`, error as Error);
+            }
+        }
+    }
+
+    /**
+     * Fertiliza terrenos semeados/em crescimento em que o ganho líquido estimado compensa
+     */
+    private async checkAndExecuteFertilizing(): Promise<void> {
+        if (!this.config.fertilizingEnabled) return;
+
+        this.logger.debugLog('Verificando fertilizações disponíveis...');
+
+        const tasks = await this.farmService.getFertilizingTasks();
+        const plans = await this.fertilizingService.planFertilizing(tasks, this.getFertilizingSettings());
+
+        if (plans.length === 0) {
+            this.logger.debugLog('Nenhuma fertilização vantajosa');
+            return;
+        }
+
+        this.logger.task(`${plans.length} fertilização(ões) vantajosa(s)`);
+
+        // Os planos são avaliados separadamente e podem disputar as mesmas máquinas
+        const usedTractors = new Set<number>();
+
+        for (const plan of plans) {
+            const tractors = plan.tractors.filter(t => !usedTractors.has(t.tractorId));
+            if (tractors.length === 0) {
+                this.logger.debugLog(`Equipamento de fertilização já em uso, "${plan.task.farmlandName}" fica para o próximo ciclo`);
+                continue;
+            }
+
+            const started = await this.executeFertilizingPlan(plan, tractors);
+            if (started) {
+                tractors.forEach(t => usedTractors.add(t.tractorId));
+            }
+        }
+    }
+
+    private getFertilizingSettings(): FertilizingSettings {
+        return {
+            yieldBonusPct: this.config.fertilizeYieldBonusPct,
+            minGain: this.config.fertilizeMinGain,
+            costPerHa: this.config.fertilizeCostPerHa,
+            maxTractors: this.config.maxTractorsPerOp,
+        };
+    }
+
+    /**
+     * Irriga terrenos em crescimento quando o tempo economizado compensa o custo
+     */
+    private async checkAndExecuteIrrigation(): Promise<void> {
+        if (!this.config.irrigationEnabled) return;
+
+        this.logger.debugLog('Verificando irrigações disponíveis...');
+
+        const candidates = await this.irrigationService.findCandidates({
+            growthReductionPct: this.config.irrigationGrowthReductionPct,
+            minSavedMinutes: this.config.irrigationMinSavedMinutes,
+            maxCost: this.config.irrigationMaxCost,
+            costPerHa: this.config.irrigationCostPerHa,
+        });
+
+        if (candidates.length === 0) {
+            this.logger.debugLog('Nenhuma irrigação vantajosa');
+            return;
+        }
+
+        this.logger.task(`${candidates.length} irrigação(ões) vantajosa(s)`);
+
+        for (const candidate of candidates) {
+            try {
+                await this.irrigationService.irrigate(candidate);
+            } catch (error) {
+                this.logger.error(`Erro ao irrigar "${candidate.farmlandName}"`, error as Error);
+            }
+        }
+    }
+
+    /**
+     * Inicia a fertilização de um terreno com uma ou mais máquinas via ação batch
+     */
+    private async executeFertilizingPlan(
+        plan: FertilizingPlan,
+        tractors: FertilizingPlan['tractors']
+    ): Promise<boolean> {
+        const { task } = plan;
+
+        if (!this.fuelForecastService.admit([task])) return false;
+
+        try {
+            const result = await this.api.startBatchAction(
+                'fertilizing',
+                { [String(task.userFarmlandId)]: task.userFarmlandId },
+                this.tractorService.buildMultiBatchUnits(tractors),
+                true,
+                false
+            );
+
+            this.logger.debugLog(`Resultado da fertilização: ${JSON.stringify(result)}`);
+
+            if (result.failed === 0) {
+                this.scheduler.recordBatchResult(result, task.farmlandName);
+                this.maintenanceService.observeBatchResult(result, tractors);
+                this.fuelForecastService.observeBatchResult(result, 'fertilizing', task.area);
+                this.logger.success(
+                    `🧪 Fertilização iniciada em "${task.farmlandName}" (${plan.cropName}) com ${tractors.length} máquina(s) - ` +
+                    `ganho líquido estimado $${plan.expectedGain.toLocaleString()}`
+                );
+                return true;
+            }
+
+            const errorMsg = result.errors?.join(', ') || 'Erro desconhecido';
+            this.logger.warn(`Falha ao fertilizar "${task.farmlandName}": ${errorMsg}`);
+            return false;
+        } catch (error) {
+            this.logger.error(`Erro ao fertilizar "${task.farmlandName}"`, error as Error);
+            return false;
+        }
+    }
+
+    /**
+     * Registra a cultura semeada no histórico de rotação. Em dry run nada foi plantado.
+     */
+    private recordRotation(task: AvailableTask): void {
+        if (this.config.dryRun) return;
+        this.cropRotationService.recordSeeding(task);
+    }
+
     /**
      * Executa uma tarefa específica
      */
     private async executeTask(task: AvailableTask): Promise<boolean> {
+        if (!this.fuelForecastService.admit([task])) return false;
+
         this.logger.task(
             `Executando ${task.type} em "${task.farmlandName}" (${task.area}ha)`
         );
 
         try {
-            // Para seeding e plowing, usar o novo método multi-tractor
-            if (task.type === 'seeding' || task.type === 'plowing') {
-                return this.executeMultiTractorTask(task);
-            }
-
             // Para harvesting, usar método com múltiplas colheitadeiras e verificação de ociosidade
             if (task.type === 'harvesting') {
                 return this.executeMultiHarvesterTask(task);
             }
 
-            // Para clearing, usar lógica simples (equipamento único)
-            return this.executeSingleTractorTask(task);
+            // Para clearing, plowing e seeding, usar o método multi-tractor
+            return this.executeMultiTractorTask(task);
         } catch (error) {
             this.logger.error(
                 `Erro ao executar ${task.type} em "${task.farmlandName}"`,
@@ -209,7 +725,7 @@ export class FarmBot {
     }
 
     /**
-     * Executa uma tarefa com múltiplos tratores (seeding/plowing)
+     * Executa uma tarefa com múltiplos tratores (clearing/plowing/seeding)
      */
     private async executeMultiTractorTask(task: AvailableTask): Promise<boolean> {
         // Obter tratores otimizados
@@ -218,14 +734,15 @@ export class FarmBot {
             task.farmId,
             task.area,
             task.complexityIndex,
-            task.type as 'seeding' | 'plowing',
+            task.type as 'seeding' | 'plowing' | 'clearing',
             this.config.maxTractorsPerOp,
             this.config.maxIdleTimeMinutes
         );
 
         if (!optimal || optimal.tractors.length === 0) {
             this.logger.warn(`Nenhum trator disponível para ${task.farmlandName}`);
-            return false;
+            this.fleetAdvisorService.recordBlocked(task, 'no_equipment');
+            return this.config.workersEnabled ? this.executeWithWorkers(task) : false;
         }
 
         // Verificar tempo máximo de operação (6 horas = 21600 segundos)
@@ -237,6 +754,7 @@ export class FarmBot {
             this.logger.warn(
                 `⏱️ Operação em "${task.farmlandName}" ignorada: tempo estimado de ${estimatedHours}h excede o limite de ${MAX_OPERATION_HOURS}h.`
             );
+            this.fleetAdvisorService.recordBlocked(task, 'over_limit', optimal.totalHaHour);
             return false;
         }
 
@@ -251,20 +769,23 @@ export class FarmBot {
         this.logger.debugLog(`units: ${JSON.stringify(units)}`);
 
         // Para seeding, incluir o cropId selecionado pelo Smart Seeding
-        const cropId = (task as any).cropId;
-
         const result = await this.api.startBatchAction(
             task.type,
             farmlandIds,
             units,
             true,
             false,
-            cropId
+            task.cropId
         );
 
         this.logger.debugLog(`Resultado da ação: ${JSON.stringify(result)}`);
 
         if (result.failed === 0) {
+            this.scheduler.recordBatchResult(result, task.farmlandName);
+            this.maintenanceService.observeBatchResult(result, optimal.tractors);
+            this.fuelForecastService.observeBatchResult(result, task.type, task.area);
+            this.fleetAdvisorService.recordOperation(task, optimal.totalHaHour, optimal.estimatedDuration);
+            this.recordRotation(task);
             const taskResult = result.result?.[String(task.userFarmlandId)];
             const timeMinutes = Math.ceil((taskResult?.opTimeRemain || 0) / 60);
             this.logger.success(
@@ -280,6 +801,53 @@ export class FarmBot {
         }
     }
 
+    /**
+     * Executa uma tarefa sem máquinas, contratando trabalhadores, quando a espera
+     * por uma máquina passaria do limite e o custo cabe no orçamento do dia
+     */
+    private async executeWithWorkers(task: AvailableTask): Promise<boolean> {
+        try {
+            const offer = await this.workerService.getOffer(task);
+            if (!offer) return false;
+
+            const settings = {
+                maxWaitMinutes: this.config.workersMaxWaitMinutes,
+                dailyBudget: this.config.workersDailyBudget,
+            };
+            if (!this.workerService.shouldHire(task, offer, settings)) return false;
+
+            const result = await this.api.startBatchAction(
+                task.type,
+                { [String(task.userFarmlandId)]: task.userFarmlandId },
+                {},
+                true,
+                true,
+                task.cropId
+            );
+
+            this.logger.debugLog(`Resultado da ação com trabalhadores: ${JSON.stringify(result)}`);
+
+            if (result.failed === 0) {
+                this.scheduler.recordBatchResult(result, task.farmlandName);
+                const cost = this.workerService.recordHire(result, offer);
+                this.recordRotation(task);
+                const taskResult = result.result?.[String(task.userFarmlandId)];
+                this.logger.success(
+                    `👷 ${task.type} iniciado em "${task.farmlandName}" com trabalhadores - ` +
+                    `~${Math.ceil((taskResult?.opTimeRemain || 0) / 60)}min, custo $${cost.toLocaleString()}`
+                );
+                return true;
+            }
+
+            const errorMsg = result.errors?.join(', ') || 'Erro desconhecido';
+            this.logger.warn(`Falha ao contratar trabalhadores para "${task.farmlandName}": ${errorMsg}`);
+            return false;
+        } catch (error) {
+            this.logger.error(`Erro ao contratar trabalhadores para "${task.farmlandName}"`, error as Error);
+            return false;
+        }
+    }
+
     /**
      * Executa uma tarefa de colheita com múltiplas colheitadeiras
      * Considera verificação de ociosidade (campos em maturação)
@@ -298,6 +866,7 @@ export class FarmBot {
 
         if (!optimal || optimal.tractors.length === 0) {
             this.logger.warn(`Nenhuma colheitadeira disponível para ${task.farmlandName}`);
+            this.fleetAdvisorService.recordBlocked(task, 'no_equipment');
             return false;
         }
 
@@ -310,109 +879,63 @@ export class FarmBot {
             this.logger.warn(
                 `⏱️ Colheita em "${task.farmlandName}" ignorada: tempo estimado de ${estimatedHours}h excede o limite de ${MAX_OPERATION_HOURS}h.`
             );
+            this.fleetAdvisorService.recordBlocked(task, 'over_limit', optimal.totalHaHour);
             return false;
         }
 
-        // Para colheita, usar o endpoint específico com uma colheitadeira
-        // (A API de harvest não suporta múltiplas colheitadeiras por operação no mesmo endpoint)
-        const bestHarvester = optimal.tractors[0];
-
-        const result = await this.api.startHarvestAction(
+        // Todas as colheitadeiras selecionadas trabalham juntas no mesmo terreno
+        let harvesters = optimal.tractors;
+        let result = await this.api.startHarvestAction(
             task.userFarmlandId,
-            bestHarvester.tractorId
+            harvesters.map(h => h.tractorId)
         );
 
-        this.logger.debugLog(`Resultado da colheita: ${JSON.stringify(result)}`);
-
-        if (result.failed === 0) {
-            const taskResult = result.result?.[String(task.userFarmlandId)];
-            const timeMinutes = Math.ceil((taskResult?.opTimeRemain || 0) / 60);
-            this.logger.success(
-                `🌾 Colheita iniciada em "${task.farmlandName}" - ~${timeMinutes}min`
-            );
-
-            // Registrar colheita no cache de 6 horas
-            this.farmService.recordHarvest(task.userFarmlandId);
-
-            return true;
-        } else {
-            const errorMsg = result.errors?.join(', ') || 'Erro desconhecido';
-            this.logger.warn(
-                `Falha ao colher "${task.farmlandName}": ${errorMsg}`
-            );
-            return false;
-        }
-    }
-
-    /**
-     * Executa uma tarefa com trator único (clearing)
-     */
-    private async executeSingleTractorTask(task: AvailableTask): Promise<boolean> {
-        // Obter equipamento disponível
-        const equipment = await this.tractorService.getEquipmentForFarmland(task.farmlandId, task.type);
-
-        if (!equipment) {
-            this.logger.warn(`Nenhum equipamento disponível para ${task.farmlandName}`);
-            return false;
-        }
-
-        // Verificar tempo máximo de operação (6 horas = 21600 segundos)
-        const MAX_OPERATION_HOURS = 6;
-        const MAX_OPERATION_SECONDS = MAX_OPERATION_HOURS * 3600;
-
-        if (equipment.estimatedDuration > MAX_OPERATION_SECONDS) {
-            const estimatedHours = (equipment.estimatedDuration / 3600).toFixed(1);
+        // Se o jogo recusar o grupo, tentar só com a mais rápida antes de desistir do terreno
+        if (result.failed !== 0 && harvesters.length > 1) {
             this.logger.warn(
-                `⏱️ Operação em "${task.farmlandName}" ignorada: tempo estimado de ${estimatedHours}h excede o limite de ${MAX_OPERATION_HOURS}h.`
+                `Colheita em "${task.farmlandName}" recusada com ${harvesters.length} colheitadeiras ` +
+                `(${result.errors?.join(', ') || 'Erro desconhecido'}), tentando só com a mais rápida`
             );
-            return false;
+            harvesters = harvesters.slice(0, 1);
+            result = await this.api.startHarvestAction(task.userFarmlandId, [harvesters[0].tractorId]);
         }
 
-        // Construir dados para a ação batch
-        const farmlandIds: Record<string, number> = {
-            [String(task.userFarmlandId)]: task.userFarmlandId,
-        };
-
-        const units = this.tractorService.buildBatchUnits(
-            equipment.tractorId,
-            equipment.implementId
-        );
+        this.logger.debugLog(`Resultado da colheita: ${JSON.stringify(result)}`);
 
-        // Executar ação - harvest usa endpoint diferente!
-        let result;
-        if (task.type === 'harvesting') {
-            result = await this.api.startHarvestAction(
-                task.userFarmlandId,
-                equipment.tractorId
-            );
-        } else {
-            result = await this.api.startBatchAction(
-                task.type,
-                farmlandIds,
-                units,
-                true,
-                false
-            );
-        }
+        if (result.failed === 0) {
+            // O jogo pode aceitar só parte das colheitadeiras (ex: uma ficou ocupada nesse meio tempo).
+            // Sem saber quais, considera as mais rápidas, que vieram primeiro.
+            if (result.unitsOperating > 0 && result.unitsOperating < harvesters.length) {
+                this.logger.warn(
+                    `Colheita em "${task.farmlandName}" iniciada com ${result.unitsOperating} de ` +
+                    `${harvesters.length} colheitadeira(s)`
+                );
+                harvesters = harvesters.slice(0, result.unitsOperating);
+            }
 
-        this.logger.debugLog(`Resultado da ação: ${JSON.stringify(result)}`);
+            const totalHaHour = harvesters.reduce((sum, h) => sum + h.haHour, 0);
+            const estimatedDuration = totalHaHour > 0
+                ? Math.ceil((task.area / totalHaHour) * 3600)
+                : optimal.estimatedDuration;
 
-        if (result.failed === 0) {
+            this.scheduler.recordBatchResult(result, task.farmlandName);
+            this.maintenanceService.observeBatchResult(result, harvesters);
+            this.fuelForecastService.observeBatchResult(result, task.type, task.area);
+            this.fleetAdvisorService.recordOperation(task, totalHaHour, estimatedDuration);
             const taskResult = result.result?.[String(task.userFarmlandId)];
+            const timeMinutes = Math.ceil((taskResult?.opTimeRemain || estimatedDuration) / 60);
             this.logger.success(
-                `${task.type} iniciado em "${task.farmlandName}" - Tempo estimado: ${taskResult?.opTimeRemain || 'N/A'}s`
+                `🌾 Colheita iniciada em "${task.farmlandName}" com ${harvesters.length} colheitadeira(s) - ~${timeMinutes}min`
             );
 
             // Registrar colheita no cache de 6 horas
-            if (task.type === 'harvesting') {
-                this.farmService.recordHarvest(task.userFarmlandId);
-            }
+            this.farmService.recordHarvest(task.userFarmlandId);
 
             return true;
         } else {
             const errorMsg = result.errors?.join(', ') || 'Erro desconhecido';
             this.logger.warn(
-                `Falha ao executar ${task.type} em "${task.farmlandName}": ${errorMsg}`
+                `Falha ao colher "${task.farmlandName}": ${errorMsg}`
             );
             return false;
         }
@@ -425,28 +948,45 @@ export class FarmBot {
         this.logger.debugLog('Verificando silo...');
 
         try {
+            // Ampliar o silo antes de vender grãos a preço ruim
+            if (this.config.siloUpgradesEnabled) {
+                await this.checkAndUpgradeSilos();
+            }
+
             // Log do status do silo
             await this.siloService.logSiloStatus();
 
-            // Obter produtos acima do limite
-            const productsToSell = await this.siloService.getProductsAboveThreshold(
-                this.config.siloSellThreshold
-            );
+            const stored = await this.siloService.getStoredProducts();
+
+            // Ordens de venda permanentes têm prioridade sobre a estratégia
+            const filled = await this.executeSellOrders(stored);
+            const withOrders = this.sellOrderBook.productsWithOpenOrders(stored);
+
+            // A estratégia de venda decide, por grão, vender tudo, metade ou segurar.
+            // Grãos com ordem aberta só saem na venda forçada.
+            const decisions = (await this.sellStrategyService.evaluate(stored.filter(p => !filled.has(p.id))))
+                .filter(d => !withOrders.has(d.product.id) || d.product.pctFull >= this.config.sellForcePct);
+            const productsToSell = decisions.filter(d => d.action !== 'hold');
+
+            for (const held of decisions.filter(d => d.action === 'hold' && d.product.pctFull >= this.config.siloSellThreshold)) {
+                this.logger.market(`Segurando ${held.product.name} (${held.product.pctFull.toFixed(0)}%): ${held.reason}`);
+            }
 
             if (productsToSell.length === 0) {
-                this.logger.debugLog(
-                    `Nenhum produto acima de ${this.config.siloSellThreshold}% para vender`
-                );
+                this.logger.debugLog(`Nenhum produto para vender (estratégia ${this.sellStrategyService.getStrategyName()})`);
                 return;
             }
 
-            this.logger.silo(
-                `${productsToSell.length} produto(s) acima de ${this.config.siloSellThreshold}% para vender`
-            );
+            for (const decision of productsToSell) {
+                this.logger.silo(
+                    `Vendendo ${decision.action === 'half' ? 'metade de ' : ''}${decision.product.name} ` +
+                    `(~$${Math.round(decision.estimatedValue).toLocaleString()}): ${decision.reason}`
+                );
+            }
 
             // Vender cada produto
             const results = await this.marketService.sellMultipleProducts(
-                productsToSell.map(p => ({ id: p.id, name: p.name }))
+                productsToSell.map(d => ({ id: d.product.id, name: d.product.name, sellType: d.action as 'all' | 'half' }))
             );
 
             // Resumo das vendas
@@ -463,6 +1003,115 @@ export class FarmBot {
         }
     }
 
+    /**
+     * Executa as ordens de venda cuja condição (ou limite do silo) foi atingida.
+     * Retorna os grãos vendidos no ciclo.
+     */
+    private async executeSellOrders(products: SiloProduct[]): Promise<Set<number>> {
+        const filled = new Set<number>();
+
+        try {
+            if (this.sellOrderBook.list().length === 0) return filled;
+
+            const matches = this.sellOrderBook.match(products, await this.api.getCropValues());
+
+            for (const match of matches) {
+                this.logger.market(`📋 Ordem #${match.order.id}: ${match.reason}`);
+
+                const result = await this.marketService.sellProduct(match.product.id, match.product.name, match.order.sellType);
+                if (!result.success) continue;
+
+                // Em dry run nada foi vendido: a ordem continua aberta no arquivo
+                if (!this.config.dryRun) {
+                    this.sellOrderBook.recordFill(match.order.id, {
+                        at: new Date().toISOString(),
+                        trigger: match.trigger,
+                        amount: result.amountSold,
+                        income: result.income,
+                        brokerage: result.brokerage,
+                        valuePer1k: result.valuePer1k,
+                    });
+                }
+                filled.add(match.product.id);
+            }
+        } catch (error) {
+            this.logger.error('Erro ao executar ordens de venda', error as Error);
+        }
+
+        return filled;
+    }
+
+    /**
+     * Resume os gargalos da frota e recomenda compras pelo retorno estimado.
+     * Roda no máximo uma vez por intervalo configurado; com compra automática,
+     * compra a melhor opção que cabe no orçamento.
+     */
+    private async checkFleetAdvisor(): Promise<void> {
+        if (!this.config.fleetAdvisorEnabled) return;
+        if (!this.fleetAdvisorService.isReportDue(this.config.fleetAdvisorReportHours)) return;
+
+        // Marcado antes da consulta ao mercado: uma falha espera o próximo intervalo
+        this.fleetAdvisorService.markReported();
+
+        const summary = this.fleetAdvisorService.getSummary();
+        if (summary.length === 0) {
+            this.logger.debugLog('[FleetAdvisor] Nenhum gargalo registrado no período');
+            return;
+        }
+
+        this.logger.info(
+            `🚧 Gargalos (${this.config.fleetAdvisorWindowDays}d): ` +
+            summary.map(s =>
+                `${s.opType} ${s.noEquipment} sem máquina, ${s.overLimit} acima de 6h, ${s.slow} lenta(s)`
+            ).join('; ')
+        );
+
+        const { recommendations, account } = await this.fleetAdvisorService.recommend();
+
+        if (recommendations.length === 0) {
+            this.logger.info('🚜 Nenhuma máquina do mercado compensa os gargalos atuais');
+            return;
+        }
+
+        this.logger.info('🚜 Recomendações de compra (retorno mais rápido primeiro):');
+        recommendations.slice(0, 5).forEach((r, i) => {
+            this.logger.info(
+                `   ${i + 1}. "${r.offer.name}" (${r.offer.type}, ${r.offer.haHour} ha/h) para a farm ${r.farmId} - ` +
+                `$${r.offer.price.toLocaleString()}, ~${r.haPerDay.toFixed(1)} ha/dia, ` +
+                `~$${Math.round(r.gainPerDay).toLocaleString()}/dia, retorno em ~${Math.ceil(r.paybackDays)} dia(s)`
+            );
+        });
+
+        if (this.config.fleetAutoBuyEnabled) {
+            await this.fleetAdvisorService.autoBuy(recommendations, account, {
+                budget: this.config.fleetAutoBuyBudget,
+                maxPaybackDays: this.config.fleetMaxPaybackDays,
+            });
+        }
+    }
+
+    /**
+     * Amplia o silo de grãos ou de combustível quando a capacidade extra se paga
+     */
+    private async checkAndUpgradeSilos(): Promise<void> {
+        try {
+            const option = await this.siloUpgradeService.planUpgrade({
+                sellThreshold: this.config.siloSellThreshold,
+                cashReserve: this.config.siloUpgradeCashReserve,
+                maxPaybackFills: this.config.siloUpgradeMaxPaybackFills,
+            });
+
+            if (!option) {
+                this.logger.debugLog('Nenhuma ampliação de silo vantajosa');
+                return;
+            }
+
+            await this.siloUpgradeService.apply(option);
+        } catch (error) {
+            this.logger.error('Erro ao avaliar ampliação dos silos', error as Error);
+        }
+    }
+
     /**
      * Executa um ciclo manualmente (útil para debug)
      */
@@ -473,10 +1122,12 @@ export class FarmBot {
     /**
      * Retorna status atual do bot
      */
-    getStatus(): { isRunning: boolean; config: BotConfig } {
+    getStatus(): { isRunning: boolean; config: BotConfig; recentCycles: CycleRecord[]; fleetHealth: FleetHealthReport } {
         return {
             isRunning: this.isRunning,
             config: this.config,
+            recentCycles: this.supervisor.getHistory(),
+            fleetHealth: this.maintenanceService.getHealthReport(),
         };
     }
 }
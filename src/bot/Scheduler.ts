@@ -0,0 +1,182 @@
+// ============================================
+// Farm Manager Bot - Event Scheduler
+// ============================================
+
+import { BatchActionResponse, CycleStep, PendingTabResponse } from '../types';
+import { Logger } from '../utils/logger';
+
+// Folga após o fim previsto de um evento, para o servidor já ter mudado o estado do campo
+const EVENT_GRACE_MS = 5000;
+
+// Intervalo mínimo entre ciclos, evita loops quando vários eventos terminam juntos
+const MIN_SLEEP_MS = 10000;
+
+interface ScheduledEvent {
+    userFarmlandId: number;
+    farmlandName: string;
+    at: number; // timestamp local (ms)
+    steps: CycleStep[];
+    reason: string;
+}
+
+export interface WakePlan {
+    delayMs: number;
+    full: boolean; // true quando o limite de intervalo é atingido antes de qualquer evento
+    reason: string;
+}
+
+/**
+ * Linha do tempo dos próximos eventos do jogo (fim de operações e maturação).
+ * Cada campo tem no máximo um evento: o próximo momento em que ele precisará de trabalho.
+ * O intervalo configurado continua como limite superior entre ciclos completos.
+ */
+export class Scheduler {
+    private logger: Logger;
+    private intervalMs: number;
+    private events: Map<number, ScheduledEvent> = new Map();
+    private lastFullCycleAt: number = 0;
+
+    constructor(intervalMs: number, logger: Logger) {
+        this.intervalMs = intervalMs;
+        this.logger = logger;
+    }
+
+    /**
+     * Passos que ficam prontos quando uma operação termina
+     */
+    private static stepsAfter(opType: string): CycleStep[] {
+        switch (opType) {
+            case 'clearing':
+                return ['implements', 'cultivate']; // Campo limpo precisa ser arado
+            case 'plowing':
+                return ['implements', 'seed'];
+            case 'seeding':
+                return ['harvest'];
+            case 'harvesting':
+                return ['implements', 'cultivate', 'sell']; // Silo recebeu a colheita
+            case 'fertilizing':
+                return ['harvest'];
+            default:
+                return ['harvest', 'implements', 'seed', 'cultivate'];
+        }
+    }
+
+    markFullCycle(now: number = Date.now()): void {
+        this.lastFullCycleAt = now;
+    }
+
+    /**
+     * Registra os tempos devolvidos ao iniciar uma ação em lote.
+     * `farmlandName` pode ser um nome único ou um mapa userFarmlandId -> nome (lotes com vários terrenos).
+     */
+    recordBatchResult(
+        response: BatchActionResponse,
+        farmlandName: string | Map<number, string>,
+        now: number = Date.now()
+    ): void {
+        for (const result of Object.values(response.result || {})) {
+            if (result.success !== 1) continue;
+            // Após semear ou fertilizar, a colheita só fica pronta quando a cultura amadurece
+            const remain = result.opType === 'seeding' || result.opType === 'fertilizing'
+                ? Math.max(result.opTimeRemain, result.growTimeRemain || 0)
+                : result.opTimeRemain;
+
+            if (!remain || remain <= 0) continue;
+
+            this.upsert({
+                userFarmlandId: result.userFarmlandId,
+                farmlandName: typeof farmlandName === 'string'
+                    ? farmlandName
+                    : farmlandName.get(result.userFarmlandId) || `#${result.userFarmlandId}`,
+                at: now + remain * 1000,
+                steps: Scheduler.stepsAfter(result.opType),
+                reason: `${result.opType} termina`,
+            });
+        }
+    }
+
+    /**
+     * Atualiza a linha do tempo com as operações em andamento e campos em maturação.
+     * Campos já prontos são ignorados: o ciclo que acabou de rodar já tentou atendê-los.
+     */
+    syncFromPending(pending: PendingTabResponse, now: number = Date.now()): void {
+        for (const op of Object.values(pending.farmlands?.operating || {})) {
+            if (op.opTimeRemain <= 0) continue;
+
+            // A aba de pendentes só traz o fim da semeadura; o fim do crescimento
+            // registrado ao iniciar a ação é mais preciso para a colheita
+            const at = now + op.opTimeRemain * 1000;
+            const existing = this.events.get(op.id);
+            if (op.opType === 'seeding' && existing && existing.at > at) continue;
+
+            this.upsert({
+                userFarmlandId: op.id,
+                farmlandName: op.farmlandName,
+                at,
+                steps: Scheduler.stepsAfter(op.opType),
+                reason: `${op.opType} termina`,
+            });
+        }
+
+        for (const field of Object.values(pending.farmlands?.maturing || {})) {
+            if (field.opTimeRemain <= 0) continue;
+
+            this.upsert({
+                userFarmlandId: field.id,
+                farmlandName: field.farmlandName,
+                at: now + field.opTimeRemain * 1000,
+                steps: ['harvest'],
+                reason: 'cultura madura',
+            });
+        }
+    }
+
+    /**
+     * Calcula quando acordar: no próximo evento ou no limite do intervalo, o que vier antes
+     */
+    planNextWake(now: number = Date.now()): WakePlan {
+        const fullAt = this.lastFullCycleAt + this.intervalMs;
+        const next = this.getNextEvent();
+
+        if (!next || next.at + EVENT_GRACE_MS >= fullAt) {
+            return { delayMs: Math.max(MIN_SLEEP_MS, fullAt - now), full: true, reason: 'intervalo' };
+        }
+
+        return {
+            delayMs: Math.max(MIN_SLEEP_MS, next.at + EVENT_GRACE_MS - now),
+            full: false,
+            reason: `"${next.farmlandName}": ${next.reason}`,
+        };
+    }
+
+    /**
+     * Remove e retorna os passos de todos os eventos que já venceram
+     */
+    takeDueSteps(now: number = Date.now()): Set<CycleStep> {
+        const steps = new Set<CycleStep>();
+
+        for (const [id, event] of this.events) {
+            if (event.at + EVENT_GRACE_MS > now) continue;
+
+            event.steps.forEach(step => steps.add(step));
+            this.events.delete(id);
+            this.logger.debugLog(`[Scheduler] Evento vencido em "${event.farmlandName}": ${event.reason}`);
+        }
+
+        return steps;
+    }
+
+    private getNextEvent(): ScheduledEvent | null {
+        let next: ScheduledEvent | null = null;
+        for (const event of this.events.values()) {
+            if (!next || event.at < next.at) {
+                next = event;
+            }
+        }
+        return next;
+    }
+
+    private upsert(event: ScheduledEvent): void {
+        this.events.set(event.userFarmlandId, event);
+    }
+}
@@ -0,0 +1,137 @@
+// ============================================
+// Farm Manager Bot - Sell Orders CLI
+// ============================================
+
+import 'dotenv/config';
+import { SellOrderBook } from '../services/SellOrderBook';
+import { SellOrder } from '../types';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('Orders');
+
+const USAGE = [
+    'Uso:',
+    '  npm run orders -- add <grão> (--price <valor por 1000kg> | --rating <avaliação>) [--half] [--expires <horas>] [--fallback <% do silo>]',
+    '  npm run orders -- list [--all]',
+    '  npm run orders -- cancel <id>',
+].join('\n');
+
+/**
+ * Lê `--nome valor` dos argumentos; flags sem valor retornam 'true'
+ */
+function parseFlags(args: string[]): { positional: string[]; flags: Record<string, string> } {
+    const positional: string[] = [];
+    const flags: Record<string, string> = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+
+        const next = args[i + 1];
+        if (next !== undefined && !next.startsWith('--')) {
+            flags[arg.slice(2)] = next;
+            i++;
+        } else {
+            flags[arg.slice(2)] = 'true';
+        }
+    }
+
+    return { positional, flags };
+}
+
+function parseNumber(flags: Record<string, string>, name: string): number | undefined {
+    if (flags[name] === undefined) return undefined;
+
+    const value = parseFloat(flags[name]);
+    if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`--${name} precisa ser um número positivo`);
+    }
+    return value;
+}
+
+function formatOrder(book: SellOrderBook, order: SellOrder): string {
+    const details = [
+        order.fallbackPct !== undefined ? `vende com silo ≥ ${order.fallbackPct}%` : '',
+        order.expiresAt ? `expira ${order.expiresAt}` : '',
+    ].filter(Boolean).join(', ');
+
+    let line = `#${order.id} [${order.status}] ${book.describe(order)}${details ? ` (${details})` : ''}`;
+
+    if (order.fill) {
+        line += ` → ${order.fill.amount.toLocaleString()}kg a $${order.fill.valuePer1k}/1000kg, ` +
+            `receita $${order.fill.income.toLocaleString()}, corretagem $${order.fill.brokerage.toLocaleString()}` +
+            (order.fill.trigger === 'fallback' ? ' (limite do silo)' : '');
+    }
+
+    return line;
+}
+
+function run(args: string[]): void {
+    const book = new SellOrderBook(process.env.STATE_DIR || './data', logger);
+    const [command, ...rest] = args;
+    const { positional, flags } = parseFlags(rest);
+
+    switch (command) {
+        case 'add': {
+            const crop = positional[0];
+            const price = parseNumber(flags, 'price');
+            const rating = parseNumber(flags, 'rating');
+
+            if (!crop || (price === undefined) === (rating === undefined)) {
+                throw new Error(`Informe o grão e exatamente uma condição (--price ou --rating)\n${USAGE}`);
+            }
+
+            const order = book.add({
+                crop,
+                condition: price !== undefined ? 'price' : 'rating',
+                target: (price ?? rating)!,
+                sellType: flags.half === 'true' ? 'half' : 'all',
+                fallbackPct: parseNumber(flags, 'fallback'),
+                expiresInHours: parseNumber(flags, 'expires'),
+            });
+
+            logger.success(`Ordem criada: ${formatOrder(book, order)}`);
+            break;
+        }
+
+        case 'list': {
+            const orders = book.list(flags.all === 'true');
+            if (orders.length === 0) {
+                logger.info(`Nenhuma ordem ${flags.all === 'true' ? '' : 'aberta '}em ${book.getFilePath()}`);
+                break;
+            }
+            for (const order of orders) {
+                logger.info(formatOrder(book, order));
+            }
+            break;
+        }
+
+        case 'cancel': {
+            const id = parseInt(positional[0], 10);
+            if (!Number.isFinite(id)) {
+                throw new Error(`Informe o id da ordem\n${USAGE}`);
+            }
+            if (!book.cancel(id)) {
+                throw new Error(`Ordem #${id} não encontrada ou já fechada`);
+            }
+            logger.success(`Ordem #${id} cancelada`);
+            break;
+        }
+
+        default:
+            logger.info(USAGE);
+    }
+}
+
+// Executar apenas quando chamado diretamente (npm run orders)
+if (require.main === module) {
+    try {
+        run(process.argv.slice(2));
+    } catch (error) {
+        logger.error((error as Error).message);
+        process.exit(1);
+    }
+}
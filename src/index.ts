@@ -4,12 +4,106 @@
 
 import 'dotenv/config';
 import { FarmBot } from './bot/FarmBot';
-import { BotConfig } from './types';
+import { BotConfig, SeedSelectionMode } from './types';
 import { Logger } from './utils/logger';
 import { AuthService } from './services/AuthService';
+import { SessionStore } from './services/SessionStore';
+import { DEFAULT_BASE_URL } from './api/client';
 
 const logger = new Logger('Main');
 
+/**
+ * Reaproveita a sessão guardada de uma conta se ela ainda for válida
+ */
+async function restoreSession(
+    authService: AuthService,
+    sessionStore: SessionStore,
+    accountKey: string
+): Promise<{ phpSessionId: string; bt?: string } | null> {
+    const account = sessionStore.get(accountKey);
+    if (!account?.phpSessionId) {
+        return null;
+    }
+
+    logger.info('💾 Validando sessão guardada...');
+    const bt = await authService.validateSession(account.phpSessionId);
+
+    if (bt === null) {
+        sessionStore.clearSession(accountKey);
+        return null;
+    }
+
+    return { phpSessionId: account.phpSessionId, bt: bt || account.bt };
+}
+
+// Estratégia de venda do silo; valores desconhecidos caem no limite simples
+function parseSellStrategy(value: string | undefined): BotConfig['sellStrategy'] {
+    if (value === 'trend' || value === 'percentile') return value;
+    if (value && value !== 'threshold') {
+        logger.warn(`SELL_STRATEGY "${value}" desconhecida, usando "threshold"`);
+    }
+    return 'threshold';
+}
+
+// Critério de escolha da semente; valores desconhecidos caem no cropScore
+function parseSeedSelectionMode(value: string | undefined, source: string): SeedSelectionMode {
+    if (value === 'cropScore' || value === 'profit' || value === 'blend') return value;
+    if (value) {
+        logger.warn(`${source} "${value}" desconhecido, usando "cropScore"`);
+    }
+    return 'cropScore';
+}
+
+// Critério por farm no formato "farmId:modo,farmId:modo"
+function parseSeedFarmModes(value: string | undefined): Record<number, SeedSelectionMode> {
+    const modes: Record<number, SeedSelectionMode> = {};
+
+    for (const entry of (value || '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const [farmId, mode] = entry.split(':').map(p => p.trim());
+        if (!/^\d+$/.test(farmId)) {
+            logger.warn(`SEED_SELECTION_FARM_MODES: entrada "${entry}" ignorada (use farmId:modo)`);
+            continue;
+        }
+        modes[Number(farmId)] = parseSeedSelectionMode(mode, `SEED_SELECTION_FARM_MODES (farm ${farmId})`);
+    }
+
+    return modes;
+}
+
+// Culturas preferidas depois de cada cultura: "wheat>soybean|corn;corn>soybean"
+function parseRotationFollowUps(value: string | undefined): Record<string, string[]> {
+    const followUps: Record<string, string[]> = {};
+
+    for (const rule of (value || '').split(';').map(r => r.trim()).filter(Boolean)) {
+        const [crop, next] = rule.split('>').map(p => p.trim().toLowerCase());
+        const crops = (next || '').split('|').map(c => c.trim()).filter(Boolean);
+        if (!crop || crops.length === 0) {
+            logger.warn(`ROTATION_FOLLOW_UPS: regra "${rule}" ignorada (use cultura>seguinte|seguinte)`);
+            continue;
+        }
+        followUps[crop] = crops;
+    }
+
+    return followUps;
+}
+
+// Sequência de culturas por farm: "1:wheat>soybean>corn;2:corn>soybean"
+function parseRotationFarmPlans(value: string | undefined): Record<number, string[]> {
+    const plans: Record<number, string[]> = {};
+
+    for (const entry of (value || '').split(';').map(e => e.trim()).filter(Boolean)) {
+        const [farmId, sequence] = entry.split(':').map(p => p.trim());
+        const crops = (sequence || '').split('>').map(c => c.trim().toLowerCase()).filter(Boolean);
+        if (!/^\d+$/.test(farmId) || crops.length === 0) {
+            logger.warn(`ROTATION_FARM_PLANS: plano "${entry}" ignorado (use farmId:cultura>cultura)`);
+            continue;
+        }
+        plans[Number(farmId)] = crops;
+    }
+
+    return plans;
+}
+
 // Carregar configuração do ambiente
 async function loadConfig(): Promise<BotConfig> {
     const email = process.env.FARM_EMAIL;
@@ -17,25 +111,44 @@ async function loadConfig(): Promise<BotConfig> {
     const androidToken = process.env.ANDROID_ACCESS_TOKEN;
     const manualSessionId = process.env.PHPSESSID;
     const createNewGuest = process.env.CREATE_NEW_GUEST === 'true';
+    const baseUrl = process.env.FARM_BASE_URL || DEFAULT_BASE_URL;
+    const stateDir = process.env.STATE_DIR || './data';
+
+    const authService = new AuthService(baseUrl);
+    const sessionStore = new SessionStore(stateDir, logger);
 
     let phpSessionId: string | undefined;
     let savedAccessToken: string | undefined;
+    let accountKey: string | undefined;
+    let initialBT: string | undefined;
 
     // Prioridade: 1) login email/senha, 2) Android token, 3) sessão manual, 4) criar nova conta guest
     if (email && password) {
-        const authService = new AuthService();
+        accountKey = SessionStore.accountKey(baseUrl, 'email', email);
         try {
-            phpSessionId = await authService.login(email, password);
+            const restored = await restoreSession(authService, sessionStore, accountKey);
+            if (restored) {
+                ({ phpSessionId, bt: initialBT } = restored);
+            } else {
+                phpSessionId = await authService.login(email, password);
+                sessionStore.save(accountKey, 'email', baseUrl, { email, phpSessionId });
+            }
         } catch (error) {
             logger.error('Falha no login automático', error as Error);
             process.exit(1);
         }
     } else if (androidToken) {
-        const authService = new AuthService();
+        accountKey = SessionStore.accountKey(baseUrl, 'android', androidToken);
+        savedAccessToken = androidToken;
         try {
-            logger.info('🤖 Tentando login via Android token...');
-            phpSessionId = await authService.loginWithAndroidToken(androidToken);
-            savedAccessToken = androidToken;
+            const restored = await restoreSession(authService, sessionStore, accountKey);
+            if (restored) {
+                ({ phpSessionId, bt: initialBT } = restored);
+            } else {
+                logger.info('🤖 Tentando login via Android token...');
+                phpSessionId = await authService.loginWithAndroidToken(androidToken);
+                sessionStore.save(accountKey, 'android', baseUrl, { accessToken: androidToken, phpSessionId });
+            }
         } catch (error) {
             logger.error('Falha no login via Android token', error as Error);
             process.exit(1);
@@ -44,16 +157,45 @@ async function loadConfig(): Promise<BotConfig> {
         logger.info('📋 Usando PHPSESSID manual do .env');
         phpSessionId = manualSessionId;
     } else if (createNewGuest) {
-        const authService = new AuthService();
+        // Uma conta guest já criada é reutilizada: o token fica em disco e nunca é perdido
+        const existingGuest = sessionStore.findLatestGuest(baseUrl);
+
+        if (existingGuest) {
+            accountKey = existingGuest.key;
+            savedAccessToken = existingGuest.accessToken;
+            logger.info(`🎮 Reutilizando conta guest guardada (User ID: ${existingGuest.userId ?? '?'})`);
+        } else {
+            try {
+                logger.info('🆕 Criando nova conta guest...');
+                const guest = await authService.registerGuest();
+                accountKey = SessionStore.accountKey(baseUrl, 'guest', guest.userId ?? guest.accessToken);
+                savedAccessToken = guest.accessToken;
+
+                try {
+                    sessionStore.save(accountKey, 'guest', baseUrl, { accessToken: guest.accessToken, userId: guest.userId });
+                    logger.info(`🎮 Nova conta criada! User ID: ${guest.userId}`);
+                    logger.info(`💾 Token salvo em ${sessionStore.getFilePath()}`);
+                } catch (error) {
+                    // Último recurso para não perder a conta: o token vai para o log
+                    logger.error('Falha ao salvar a nova conta guest', error as Error);
+                    logger.warn(`💾 Guarde o token manualmente: ${guest.accessToken}`);
+                }
+            } catch (error) {
+                logger.error('Falha ao criar conta guest', error as Error);
+                process.exit(1);
+            }
+        }
+
         try {
-            logger.info('🆕 Criando nova conta guest...');
-            const result = await authService.registerGuestAndLogin();
-            phpSessionId = result.phpSessionId;
-            savedAccessToken = result.accessToken;
-            logger.info(`🎮 Nova conta criada! User ID: ${result.userId}`);
-            logger.info(`💾 Guarde o token para uso futuro: ${result.accessToken}`);
+            const restored = await restoreSession(authService, sessionStore, accountKey!);
+            if (restored) {
+                ({ phpSessionId, bt: initialBT } = restored);
+            } else {
+                phpSessionId = await authService.loginWithAndroidToken(savedAccessToken!);
+                sessionStore.updateSession(accountKey!, phpSessionId);
+            }
         } catch (error) {
-            logger.error('Falha ao criar conta guest', error as Error);
+            logger.error('Falha no login da conta guest', error as Error);
             process.exit(1);
         }
     } else {
@@ -67,14 +209,80 @@ async function loadConfig(): Promise<BotConfig> {
     }
 
     return {
+        baseUrl,
         phpSessionId,
         credentials: email && password ? { email, password } : undefined,
         androidToken: savedAccessToken, // Guardar para possível re-autenticação
         checkIntervalMs: parseInt(process.env.CHECK_INTERVAL_MS || '120000', 10),
         siloSellThreshold: parseInt(process.env.SILO_SELL_THRESHOLD || '80', 10),
+        sellStrategy: parseSellStrategy(process.env.SELL_STRATEGY),
+        sellForcePct: parseFloat(process.env.SELL_FORCE_PCT || '95'),
+        sellPricePercentile: parseFloat(process.env.SELL_PRICE_PERCENTILE || '60'),
+        sellGoodRating: parseFloat(process.env.SELL_GOOD_RATING || '4'),
+        seedSelectionMode: parseSeedSelectionMode(process.env.SEED_SELECTION_MODE, 'SEED_SELECTION_MODE'),
+        seedSelectionFarmModes: parseSeedFarmModes(process.env.SEED_SELECTION_FARM_MODES),
+        seedBlendProfitWeight: parseFloat(process.env.SEED_BLEND_PROFIT_WEIGHT || '0.5'),
+        seedCashReserve: parseInt(process.env.SEED_CASH_RESERVE || '0', 10),
+        rotationEnabled: process.env.ROTATION_ENABLED === 'true',
+        rotationMaxRepeats: parseInt(process.env.ROTATION_MAX_REPEATS || '1', 10),
+        rotationFollowUps: parseRotationFollowUps(process.env.ROTATION_FOLLOW_UPS),
+        rotationFarmPlans: parseRotationFarmPlans(process.env.ROTATION_FARM_PLANS),
+        siloUpgradesEnabled: process.env.SILO_UPGRADES_ENABLED === 'true',
+        siloUpgradeCashReserve: parseInt(process.env.SILO_UPGRADE_CASH_RESERVE || '100000', 10),
+        siloUpgradeMaxPaybackFills: parseFloat(process.env.SILO_UPGRADE_MAX_PAYBACK_FILLS || '3'),
         debug: process.env.DEBUG === 'true',
         maxTractorsPerOp: parseInt(process.env.MAX_TRACTORS_PER_OP || '4', 10),
         maxIdleTimeMinutes: parseInt(process.env.MAX_IDLE_TIME_MINUTES || '30', 10),
+        fuelMinLevel: parseInt(process.env.FUEL_MIN_LEVEL || '1000', 10),
+        fuelTargetLevel: parseInt(process.env.FUEL_TARGET_LEVEL || '2000', 10),
+        fuelCheapPercentile: parseFloat(process.env.FUEL_CHEAP_PERCENTILE || '20'),
+        fuelExpensivePercentile: parseFloat(process.env.FUEL_EXPENSIVE_PERCENTILE || '70'),
+        fuelWindowHours: parseInt(process.env.FUEL_WINDOW_HOURS || '72', 10),
+        fuelTrendHours: parseInt(process.env.FUEL_TREND_HOURS || '12', 10),
+        fuelRisingTrendPct: parseFloat(process.env.FUEL_RISING_TREND_PCT || '5'),
+        fuelHistoryDays: parseInt(process.env.FUEL_HISTORY_DAYS || '30', 10),
+        fuelMinSamples: parseInt(process.env.FUEL_MIN_SAMPLES || '12', 10),
+        fuelForecastEnabled: process.env.FUEL_FORECAST_ENABLED === 'true',
+        fuelForecastHorizonHours: parseFloat(process.env.FUEL_FORECAST_HORIZON_HOURS || '6'),
+        maintenanceEnabled: process.env.MAINTENANCE_ENABLED === 'true',
+        wearRepairThreshold: parseFloat(process.env.WEAR_REPAIR_THRESHOLD || '70'),
+        wearExcludeThreshold: parseFloat(process.env.WEAR_EXCLUDE_THRESHOLD || '90'),
+        wearSampleMaxAgeHours: parseFloat(process.env.WEAR_SAMPLE_MAX_AGE_HOURS || '24'),
+        maintenanceCashReserve: parseInt(process.env.MAINTENANCE_CASH_RESERVE || '100000', 10),
+        implementManagerEnabled: process.env.IMPLEMENT_MANAGER_ENABLED === 'true',
+        implementHorizonMinutes: parseInt(process.env.IMPLEMENT_HORIZON_MINUTES || '60', 10),
+        batchActionsEnabled: process.env.BATCH_ACTIONS_ENABLED === 'true',
+        workersEnabled: process.env.WORKERS_ENABLED === 'true',
+        workersMaxWaitMinutes: parseInt(process.env.WORKERS_MAX_WAIT_MINUTES || '60', 10),
+        workersDailyBudget: parseInt(process.env.WORKERS_DAILY_BUDGET || '50000', 10),
+        fleetAdvisorEnabled: process.env.FLEET_ADVISOR_ENABLED === 'true',
+        fleetAdvisorWindowDays: parseInt(process.env.FLEET_ADVISOR_WINDOW_DAYS || '7', 10),
+        fleetAdvisorSlowHours: parseFloat(process.env.FLEET_ADVISOR_SLOW_HOURS || '3'),
+        fleetAdvisorValuePerHa: parseInt(process.env.FLEET_ADVISOR_VALUE_PER_HA || '500', 10),
+        fleetAdvisorReportHours: parseFloat(process.env.FLEET_ADVISOR_REPORT_HOURS || '6'),
+        fleetAutoBuyEnabled: process.env.FLEET_AUTO_BUY_ENABLED === 'true',
+        fleetAutoBuyBudget: parseInt(process.env.FLEET_AUTO_BUY_BUDGET || '0', 10),
+        fleetMaxPaybackDays: parseInt(process.env.FLEET_MAX_PAYBACK_DAYS || '14', 10),
+        apiTimeoutMs: parseInt(process.env.API_TIMEOUT_MS || '15000', 10),
+        apiMaxRetries: parseInt(process.env.API_MAX_RETRIES || '3', 10),
+        apiRetryBaseDelayMs: parseInt(process.env.API_RETRY_BASE_DELAY_MS || '1000', 10),
+        circuitBreakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+        circuitBreakerCooldownMs: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000', 10),
+        dryRun: process.env.DRY_RUN === 'true',
+        fertilizingEnabled: process.env.FERTILIZING_ENABLED === 'true',
+        fertilizeYieldBonusPct: parseFloat(process.env.FERTILIZE_YIELD_BONUS_PCT || '20'),
+        fertilizeMinGain: parseInt(process.env.FERTILIZE_MIN_GAIN || '1000', 10),
+        fertilizeCostPerHa: parseFloat(process.env.FERTILIZE_COST_PER_HA || '100'),
+        irrigationEnabled: process.env.IRRIGATION_ENABLED === 'true',
+        irrigationGrowthReductionPct: parseFloat(process.env.IRRIGATION_GROWTH_REDUCTION_PCT || '25'),
+        irrigationMinSavedMinutes: parseInt(process.env.IRRIGATION_MIN_SAVED_MINUTES || '60', 10),
+        irrigationMaxCost: parseInt(process.env.IRRIGATION_MAX_COST || '0', 10),
+        irrigationCostPerHa: parseFloat(process.env.IRRIGATION_COST_PER_HA || '0'),
+        cycleTimeoutMs: parseInt(process.env.CYCLE_TIMEOUT_MS || '600000', 10),
+        stepTimeoutMs: parseInt(process.env.STEP_TIMEOUT_MS || '180000', 10),
+        stateDir,
+        accountKey,
+        initialBT,
     };
 }
 
@@ -87,6 +295,9 @@ async function main(): Promise<void> {
 
     const config = await loadConfig();
     logger.info(`Debug mode: ${config.debug ? 'ON' : 'OFF'}`);
+    if (config.dryRun) {
+        logger.warn('🧪 DRY RUN ativo: nenhuma ação será enviada ao jogo');
+    }
 
     const bot = new FarmBot(config);
 
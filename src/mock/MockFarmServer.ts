@@ -0,0 +1,307 @@
+// ============================================
+// Farm Manager Bot - Mock Farm Manager Server
+// ============================================
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { BatchActionUnit, CropSiloUpgradeSize, SiloKind, WearUnitKind } from '../types';
+import { Logger } from '../utils/logger';
+import { MachineType, MockGameState, MockGameOptions } from './MockGameState';
+
+export interface MockServerOptions extends MockGameOptions {
+    port?: number; // 0 = porta aleatória (default)
+    email?: string;
+    password?: string;
+    androidToken?: string;
+    debug?: boolean;
+}
+
+type Params = Record<string, string>;
+
+/**
+ * Servidor HTTP local que imita os endpoints usados pelo ApiClient e AuthService.
+ * Mantém o jogo em memória (MockGameState), exige PHPSESSID válido nos endpoints /api
+ * e rotaciona o BT a cada resposta.
+ */
+export class MockFarmServer {
+    readonly state: MockGameState;
+    private server: http.Server;
+    private logger: Logger;
+    private port: number;
+    private email: string;
+    private password: string;
+    private androidTokens: Set<string> = new Set();
+    private sessions: Set<string> = new Set();
+    private failures: Map<string, { status: number; remaining: number }> = new Map();
+    private missingBT: Map<string, number> = new Map();
+    private guestCounter: number = 1000;
+
+    constructor(options: MockServerOptions = {}) {
+        this.state = new MockGameState(options);
+        this.logger = new Logger('MockServer', options.debug ?? false);
+        this.port = options.port ?? 0;
+        this.email = options.email ?? 'bot@mock.local';
+        this.password = options.password ?? 'mock';
+        this.androidTokens.add(options.androidToken ?? 'guest_android_mock');
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                this.logger.error('Erro ao processar requisição', error as Error);
+                this.sendJson(res, 500, { error: 'internal' });
+            });
+        });
+    }
+
+    /**
+     * Inicia o servidor e retorna a base URL (sem /api)
+     */
+    start(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.port, '127.0.0.1', () => {
+                const address = this.server.address() as AddressInfo;
+                const baseUrl = `http://127.0.0.1:${address.port}`;
+                this.logger.info(`🧪 Mock Farm Manager ouvindo em ${baseUrl}`);
+                resolve(baseUrl);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.close(error => (error ? reject(error) : resolve()));
+        });
+    }
+
+    /**
+     * Cria uma sessão autenticada diretamente (equivalente a um PHPSESSID manual)
+     */
+    createSession(): string {
+        const sessionId = randomBytes(13).toString('hex');
+        this.sessions.add(sessionId);
+        return sessionId;
+    }
+
+    /**
+     * Invalida todas as sessões, simulando expiração do PHPSESSID
+     */
+    expireSessions(): void {
+        this.sessions.clear();
+    }
+
+    /**
+     * Faz as próximas `times` chamadas a um endpoint (ex: '/get-crop-values.php') responderem `status`
+     */
+    injectFailure(endpoint: string, status: number, times: number = 1): void {
+        this.failures.set(endpoint, { status, remaining: times });
+    }
+
+    /**
+     * Faz as próximas `times` respostas de um endpoint virem sem BT, mas com a ação executada
+     */
+    omitBT(endpoint: string, times: number = 1): void {
+        this.missingBT.set(endpoint, times);
+    }
+
+    // ============================================
+    // Roteamento
+    // ============================================
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const params = { ...Object.fromEntries(url.searchParams), ...(await this.readBody(req)) };
+        const path = url.pathname;
+
+        this.logger.debugLog(`${req.method} ${path} ${JSON.stringify(params)}`);
+
+        switch (path) {
+            case '/index-login.php':
+                return this.handleLoginPage(res);
+            case '/login-check.php':
+                return this.handleLoginCheck(params, res);
+            case '/app/app-dispatch.php':
+                return this.handleAppDispatch(params, res);
+            case '/app/auth.php':
+                return this.handleGuestRegister(res);
+        }
+
+        if (!path.startsWith('/api/')) {
+            return this.sendJson(res, 404, { error: 'not found' });
+        }
+
+        if (!this.sessions.has(this.readSessionId(req) || '')) {
+            res.writeHead(302, { Location: '/index-login.php' });
+            res.end();
+            return;
+        }
+
+        const endpoint = path.substring('/api'.length);
+        const failure = this.failures.get(endpoint);
+        if (failure && failure.remaining > 0) {
+            failure.remaining--;
+            return this.sendJson(res, failure.status, { error: 'injected failure' });
+        }
+
+        this.state.checkBT(params.BT);
+        this.state.advance();
+
+        const body = this.handleApi(endpoint, params);
+        if (body === null) {
+            return this.sendJson(res, 404, { error: 'not found' });
+        }
+
+        const missingBT = this.missingBT.get(endpoint) ?? 0;
+        if (missingBT > 0 && body && typeof body === 'object') {
+            this.missingBT.set(endpoint, missingBT - 1);
+            delete (body as { BT?: string }).BT;
+        }
+        this.sendJson(res, 200, body);
+    }
+
+    private handleApi(endpoint: string, params: Params): unknown {
+        const state = this.state;
+
+        switch (endpoint) {
+            case '/farmland-status-bar.php':
+                return params.view === 'seeding' ? state.getSeedingTab() : state.getCultivatingTab();
+            case '/farmland-status-bar-harvest.php':
+                return state.getHarvestTab();
+            case '/farmland-status-bar-pending.php':
+                return state.getPendingTab();
+            case '/farmland-status-bar-silo.php':
+                return state.getSiloTab();
+            case '/get-crop-values.php':
+                return state.getCropValues();
+            case '/market-details.php':
+                return state.sellProduct(Number(params.cropId), params.sellType || 'all');
+            case '/user-farmland-details.php':
+                return state.getFarmlandDetails(Number(params.id));
+            case '/farmland-action-seed.php':
+                return state.getFarmlandAction(Number(params.farmId));
+            case '/farmland-action-plow.php':
+                return state.getFarmlandAction(Number(params.farmId));
+            case '/farmland-batch-action-start.php': {
+                const farmlandIds = Object.values(JSON.parse(params.farmlandIds || '{}') as Record<string, number>);
+                const units = JSON.parse(params.units || '{}') as Record<string, BatchActionUnit>;
+                const cropId = params.cropId !== undefined ? Number(params.cropId) : undefined;
+                const opType = params.opType as MachineType;
+                return state.startOperation(opType, farmlandIds.map(Number), MockGameState.unitIds(units), cropId);
+            }
+            case '/farmland-batch-action-harvest.php': {
+                const farmlandIds = String(params.farmlandIds || '').split(',').map(Number);
+                const harvesterIds = String(params.units || '').split(',').map(Number);
+                return state.startOperation('harvesting', farmlandIds, harvesterIds);
+            }
+            case '/user-farmland-data.php':
+                return state.getFarmlandData(Number(params.gisId));
+            case '/market.php':
+                return state.getMarketSeeds();
+            case '/market-seed-details.php':
+                return state.buySeeds(Number(params.cropId), Number(params.amount));
+            case '/user-silo.php':
+                return state.getFuelSilo();
+            case '/silo-fuel-buy.php':
+                return state.buyFuel(Number(params.amount));
+            case '/silo-increase.php':
+                return state.upgradeSilo(params.type as SiloKind, params.size as CropSiloUpgradeSize | undefined);
+            case '/farmland-irrigate.php':
+                return state.irrigate(Number(params.id));
+            case '/tractor-implement-attach.php':
+                return state.changeImplement('attach', Number(params.tractorId), Number(params.implementId));
+            case '/tractor-implement-swap.php':
+                return state.changeImplement('swap', Number(params.tractorId), Number(params.implementId));
+            case '/equipment-repair.php':
+                return state.repair(params.type as WearUnitKind, Number(params.id));
+            case '/market-equipment.php':
+                return state.getMachineMarket();
+            case '/market-equipment-buy.php':
+                return state.buyMachine(Number(params.id), Number(params.farmId));
+        }
+
+        return null;
+    }
+
+    // ============================================
+    // Autenticação
+    // ============================================
+
+    private handleLoginPage(res: ServerResponse): void {
+        // Sessão inicial ainda não autenticada
+        const sessionId = randomBytes(13).toString('hex');
+        res.writeHead(200, {
+            'Content-Type': 'text/html',
+            'Set-Cookie': `PHPSESSID=${sessionId}; path=/`,
+        });
+        res.end('<html><form action="login-check.php"></form></html>');
+    }
+
+    private handleLoginCheck(params: Params, res: ServerResponse): void {
+        if (params.email !== this.email || params.password !== this.password) {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end('<html>Invalid email or password</html>');
+            return;
+        }
+
+        this.redirectWithSession(res, '/index.php');
+    }
+
+    private handleAppDispatch(params: Params, res: ServerResponse): void {
+        if (!this.androidTokens.has(params.access_token)) {
+            return this.sendJson(res, 401, { error: 'invalid token' });
+        }
+
+        this.redirectWithSession(res, '/index.php');
+    }
+
+    private handleGuestRegister(res: ServerResponse): void {
+        const accessToken = `guest_android_${randomBytes(12).toString('hex')}`;
+        this.androidTokens.add(accessToken);
+        this.sendJson(res, 200, { success: true, access_token: accessToken, user_id: ++this.guestCounter });
+    }
+
+    private redirectWithSession(res: ServerResponse, location: string): void {
+        const sessionId = this.createSession();
+        res.writeHead(302, {
+            Location: location,
+            'Set-Cookie': `PHPSESSID=${sessionId}; path=/`,
+        });
+        res.end();
+    }
+
+    // ============================================
+    // Utilitários HTTP
+    // ============================================
+
+    private readSessionId(req: IncomingMessage): string | null {
+        const match = (req.headers.cookie || '').match(/PHPSESSID=([^;]+)/);
+        return match ? match[1] : null;
+    }
+
+    private readBody(req: IncomingMessage): Promise<Params> {
+        return new Promise((resolve, reject) => {
+            let raw = '';
+            req.setEncoding('utf8');
+            req.on('data', chunk => (raw += chunk));
+            req.on('error', reject);
+            req.on('end', () => {
+                if (!raw) return resolve({});
+
+                if ((req.headers['content-type'] || '').includes('application/json')) {
+                    try {
+                        const json = JSON.parse(raw) as Record<string, unknown>;
+                        return resolve(Object.fromEntries(Object.entries(json).map(([k, v]) => [k, String(v)])));
+                    } catch {
+                        return resolve({});
+                    }
+                }
+
+                resolve(Object.fromEntries(new URLSearchParams(raw)));
+            });
+        });
+    }
+
+    private sendJson(res: ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+}
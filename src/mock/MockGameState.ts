@@ -0,0 +1,1215 @@
+// ============================================
+// Farm Manager Bot - Mock Game State
+// ============================================
+
+import { randomBytes } from 'crypto';
+import {
+    BatchActionResponse,
+    BatchActionResult,
+    BatchActionUnit,
+    BuyFuelResponse,
+    BuyMachineResponse,
+    BuySeedResponse,
+    CropSiloUpgradeSize,
+    CropValuesResponse,
+    CultivatingTabResponse,
+    EquipmentCategory,
+    Farm,
+    FarmFarmlands,
+    FarmlandCategory,
+    FarmlandData,
+    FarmlandActionImplement,
+    FarmlandActionResponse,
+    FarmlandDataResponse,
+    FarmlandDetailsResponse,
+    FarmlandState,
+    FarmTractors,
+    FuelSilo,
+    FuelSiloResponse,
+    HarvestFarm,
+    HarvestTabResponse,
+    ImplementChangeResponse,
+    IrrigateResponse,
+    MachineMarketResponse,
+    MachineOffer,
+    MarketResponse,
+    PendingFarmland,
+    PendingTabResponse,
+    RepairResponse,
+    SeedInfo,
+    SeedingTabResponse,
+    SellProductResponse,
+    SiloKind,
+    SiloProduct,
+    SiloTabResponse,
+    SiloUpgradeResponse,
+    TractorCategory,
+    WearUnitKind,
+} from '../types';
+
+export type MachineType = 'clearing' | 'plowing' | 'seeding' | 'fertilizing' | 'harvesting';
+
+// Operações feitas por trator + implemento; sem implemento o trator não trabalha nelas
+const IMPLEMENT_TYPES: MachineType[] = ['plowing', 'seeding', 'fertilizing'];
+
+export interface MockCrop {
+    id: number;
+    name: string;
+    nameLatin: string;
+    category: string;
+    kgPerHa: number;
+    yieldPerHa: number; // kg colhidos por hectare
+    seedCost: number; // $ por 1000kg de semente
+    growTime: number; // segundos de jogo
+    cropValuePer1k: number;
+}
+
+export interface MockOperation {
+    type: MachineType;
+    tractorIds: number[];
+    start: number;
+    end: number;
+    cropId?: number;
+}
+
+export interface MockFarmland {
+    id: number; // userFarmlandId
+    farmlandId: number; // gisId
+    farmId: number;
+    name: string;
+    area: number;
+    complexityIndex: number;
+    state: FarmlandState;
+    cropId: number;
+    previousCropName: string | null;
+    operation: MockOperation | null;
+    growEnd: number;
+    fertilized: boolean;
+    irrigated: boolean;
+}
+
+export interface MockTractor {
+    id: number;
+    farmId: number;
+    name: string;
+    type: MachineType;
+    haHour: number;
+    fuelHour: number;
+    hp: number;
+    implementId?: number;
+    busyUntil: number;
+    farmlandId: number;
+    wear: number; // %
+}
+
+export interface MockImplement {
+    id: number;
+    farmId: number;
+    name: string;
+    type: MachineType;
+    haHour: number;
+    minHp: number;
+    tractorId: number | null; // null = livre
+    wear: number; // %
+}
+
+export interface MockGameOptions {
+    timeScale?: number; // Quantos segundos de jogo passam por segundo real (default: 1)
+    fertilizingUnlocked?: boolean; // default: false
+    canIrrigate?: boolean; // default: false
+    irrigateCount?: number; // Irrigações disponíveis (default: 3)
+    irrigationCostPerHa?: number; // default: 200
+    wearPerOperation?: number; // Desgaste (%) somado a cada máquina e implemento por operação (default: 0)
+    repairCostPerPct?: number; // Custo do reparo por ponto de desgaste (default: 500)
+}
+
+// Estado que cada operação deixa no terreno ao terminar
+const NEXT_STATE: Record<MachineType, FarmlandState> = {
+    clearing: 'cleared',
+    plowing: 'plowed',
+    seeding: 'growing',
+    fertilizing: 'growing',
+    harvesting: 'cleared',
+};
+
+// Estado exigido para iniciar cada operação
+const REQUIRED_STATE: Record<MachineType, FarmlandState> = {
+    clearing: 'raw',
+    plowing: 'cleared',
+    seeding: 'plowed',
+    fertilizing: 'growing',
+    harvesting: 'matured',
+};
+
+const SEED_SILO_CAPACITY = 50000;
+const FERTILIZER_YIELD_BONUS = 0.2;
+const IRRIGATION_GROWTH_REDUCTION = 0.25;
+
+const CROP_SILO_INCREASE: Record<CropSiloUpgradeSize, { cost: number; capacity: number }> = {
+    small: { cost: 50000, capacity: 100000 },
+    medium: { cost: 120000, capacity: 300000 },
+};
+const FUEL_SILO_INCREASE = { cost: 40000, capacity: 10000 };
+
+/**
+ * Estado em memória do jogo simulado e as regras de cada endpoint.
+ * O tempo avança de forma preguiçosa: cada chamada conclui operações e crescimentos vencidos.
+ */
+export class MockGameState {
+    private timeScale: number;
+    private timeOffset: number = 0;
+    private nextUnitId: number = 3000;
+
+    money: number = 1000000;
+    points: number = 0;
+    fuelHolding: number = 5000;
+    fuelCapacity: number = 20000;
+    fuelCost: number = 900;
+    cropSiloCapacity: number = 300000; // Por grão
+    fertilizingUnlocked: boolean;
+    canIrrigate: boolean;
+    irrigateCount: number;
+    irrigationCostPerHa: number;
+    wearPerOperation: number;
+    repairCostPerPct: number;
+    farms: Map<number, { name: string; countryCode: string }> = new Map();
+    farmlands: Map<number, MockFarmland> = new Map();
+    tractors: Map<number, MockTractor> = new Map();
+    implements: Map<number, MockImplement> = new Map();
+    crops: Map<number, MockCrop> = new Map();
+    silo: Map<number, number> = new Map(); // cropId -> kg
+    seeds: Map<number, number> = new Map(); // cropId -> kg
+    machineOffers: MachineOffer[] = [];
+    currentBT: string = '';
+    btMismatches: number = 0;
+
+    constructor(options: MockGameOptions = {}) {
+        this.timeScale = options.timeScale ?? 1;
+        this.fertilizingUnlocked = options.fertilizingUnlocked ?? false;
+        this.canIrrigate = options.canIrrigate ?? false;
+        this.irrigateCount = options.irrigateCount ?? 3;
+        this.irrigationCostPerHa = options.irrigationCostPerHa ?? 200;
+        this.wearPerOperation = options.wearPerOperation ?? 0;
+        this.repairCostPerPct = options.repairCostPerPct ?? 500;
+        this.seedDefaults();
+        this.rotateBT();
+    }
+
+    /**
+     * Cenário padrão: uma fazenda com um terreno em cada estágio, duas máquinas de cada tipo
+     * (menos fertilização, com uma) e algumas ofertas no mercado de máquinas
+     */
+    private seedDefaults(): void {
+        this.crops.set(1, { id: 1, name: 'Wheat', nameLatin: 'Triticum', category: 'grain', kgPerHa: 150, yieldPerHa: 4000, seedCost: 500, growTime: 4 * 3600, cropValuePer1k: 300 });
+        this.crops.set(2, { id: 2, name: 'Corn', nameLatin: 'Zea mays', category: 'grain', kgPerHa: 25, yieldPerHa: 9000, seedCost: 2500, growTime: 6 * 3600, cropValuePer1k: 220 });
+        this.crops.set(3, { id: 3, name: 'Soybean', nameLatin: 'Glycine max', category: 'legume', kgPerHa: 80, yieldPerHa: 3000, seedCost: 900, growTime: 5 * 3600, cropValuePer1k: 480 });
+
+        this.farms.set(1, { name: 'Fazenda Teste', countryCode: 'br' });
+
+        this.addFarmland({ id: 101, farmlandId: 5001, farmId: 1, name: 'Campo Bruto', area: 10, complexityIndex: 1, state: 'raw' });
+        this.addFarmland({ id: 102, farmlandId: 5002, farmId: 1, name: 'Campo Limpo', area: 8, complexityIndex: 1, state: 'cleared' });
+        this.addFarmland({ id: 103, farmlandId: 5003, farmId: 1, name: 'Campo Arado', area: 5, complexityIndex: 1, state: 'plowed' });
+        this.addFarmland({ id: 104, farmlandId: 5004, farmId: 1, name: 'Campo Maduro', area: 6, complexityIndex: 1, state: 'matured', cropId: 1 });
+
+        const machines: Array<[number, MachineType, number, number]> = [
+            [201, 'clearing', 4, 30], [202, 'clearing', 3, 25],
+            [211, 'plowing', 5, 35], [212, 'plowing', 4, 30],
+            [221, 'seeding', 6, 20], [222, 'seeding', 5, 18],
+            [241, 'fertilizing', 8, 15],
+            [231, 'harvesting', 4, 40], [232, 'harvesting', 3, 35],
+        ];
+        for (const [id, type, haHour, fuelHour] of machines) {
+            this.addTractor({ id, farmId: 1, name: `${type} #${id}`, type, haHour, fuelHour, hp: 150 });
+            if (IMPLEMENT_TYPES.includes(type)) {
+                this.addImplement({ id: id + 1000, farmId: 1, name: `Implemento ${type} #${id + 1000}`, type, haHour, minHp: 100 }, id);
+            }
+        }
+
+        this.machineOffers = [
+            { id: 901, name: 'Trator 200cv', category: 'tractor', type: 'clearing', haHour: 6, fuelHour: 35, hp: 200, price: 150000 },
+            { id: 902, name: 'Colheitadeira Média', category: 'harvester', type: 'harvesting', haHour: 6, fuelHour: 45, price: 250000 },
+            { id: 903, name: 'Semeadeira 12 linhas', category: 'implement', type: 'seeding', haHour: 8, fuelHour: 0, price: 60000 },
+        ];
+
+        this.seeds.set(1, 500);
+    }
+
+    addTractor(data: Omit<MockTractor, 'busyUntil' | 'farmlandId' | 'wear' | 'implementId'> & { wear?: number }): MockTractor {
+        const tractor: MockTractor = { busyUntil: 0, farmlandId: 0, wear: 0, ...data };
+        this.tractors.set(tractor.id, tractor);
+        return tractor;
+    }
+
+    /**
+     * Inclui um implemento, livre ou já anexado a `tractorId`
+     */
+    addImplement(data: Omit<MockImplement, 'tractorId' | 'wear'> & { wear?: number }, tractorId: number | null = null): MockImplement {
+        const implement: MockImplement = { tractorId: null, wear: 0, ...data };
+        this.implements.set(implement.id, implement);
+
+        const tractor = tractorId !== null ? this.tractors.get(tractorId) : undefined;
+        if (tractor) this.attach(tractor, implement);
+
+        return implement;
+    }
+
+    private attach(tractor: MockTractor, implement: MockImplement): void {
+        implement.tractorId = tractor.id;
+        tractor.implementId = implement.id;
+        tractor.type = implement.type;
+        tractor.haHour = implement.haHour;
+    }
+
+    addFarmland(
+        data: Omit<MockFarmland, 'cropId' | 'previousCropName' | 'operation' | 'growEnd' | 'fertilized' | 'irrigated'> & { cropId?: number }
+    ): void {
+        this.farmlands.set(data.id, {
+            cropId: 0,
+            previousCropName: null,
+            operation: null,
+            growEnd: 0,
+            fertilized: false,
+            irrigated: false,
+            ...data,
+        });
+    }
+
+    // ============================================
+    // Tempo e BT
+    // ============================================
+
+    now(): number {
+        return Date.now() + this.timeOffset;
+    }
+
+    /**
+     * Adianta o relógio do jogo sem esperar (testes)
+     */
+    fastForward(gameSeconds: number): void {
+        this.timeOffset += this.gameSecondsToMs(gameSeconds);
+    }
+
+    /**
+     * Converte segundos de jogo em milissegundos reais
+     */
+    private gameSecondsToMs(seconds: number): number {
+        return (seconds * 1000) / this.timeScale;
+    }
+
+    private remainingSeconds(until: number): number {
+        return Math.max(0, Math.ceil((until - this.now()) / 1000));
+    }
+
+    rotateBT(): string {
+        this.currentBT = randomBytes(16).toString('hex');
+        return this.currentBT;
+    }
+
+    /**
+     * Registra BTs recebidos que não são o último emitido
+     */
+    checkBT(bt: string | undefined): void {
+        if (bt && bt !== this.currentBT) {
+            this.btMismatches++;
+        }
+    }
+
+    /**
+     * Conclui operações e crescimentos cujo tempo já passou
+     */
+    advance(): void {
+        const now = this.now();
+
+        for (const farmland of this.farmlands.values()) {
+            const op = farmland.operation;
+
+            if (op && op.end <= now) {
+                this.completeOperation(farmland, op);
+            }
+
+            if (farmland.state === 'growing' && farmland.growEnd <= now) {
+                farmland.state = 'matured';
+            }
+        }
+    }
+
+    private completeOperation(farmland: MockFarmland, op: MockOperation): void {
+        for (const id of op.tractorIds) {
+            const tractor = this.tractors.get(id);
+            // Em lotes, a máquina pode seguir para o próximo terreno
+            if (tractor && tractor.busyUntil <= op.end) {
+                tractor.busyUntil = 0;
+                tractor.farmlandId = 0;
+            }
+        }
+
+        farmland.operation = null;
+        farmland.state = NEXT_STATE[op.type];
+
+        if (op.type === 'fertilizing') {
+            farmland.fertilized = true;
+        }
+
+        if (op.type === 'seeding' && op.cropId) {
+            const crop = this.crops.get(op.cropId);
+            farmland.cropId = op.cropId;
+            farmland.growEnd = op.end + this.gameSecondsToMs(crop?.growTime || 0);
+        }
+
+        if (op.type === 'harvesting') {
+            const crop = this.crops.get(farmland.cropId);
+            if (crop) {
+                const stored = this.silo.get(crop.id) || 0;
+                const bonus = farmland.fertilized ? 1 + FERTILIZER_YIELD_BONUS : 1;
+                const harvested = Math.round(farmland.area * crop.yieldPerHa * bonus);
+                this.silo.set(crop.id, Math.min(this.cropSiloCapacity, stored + harvested));
+                farmland.previousCropName = crop.name;
+            }
+            farmland.cropId = 0;
+            farmland.fertilized = false;
+            farmland.irrigated = false;
+        }
+    }
+
+    // ============================================
+    // Helpers de resposta
+    // ============================================
+
+    private isIdle(tractor: MockTractor): boolean {
+        return tractor.busyUntil === 0;
+    }
+
+    /**
+     * Trator de operação com implemento só trabalha com um implemento anexado
+     */
+    private canWork(tractor: MockTractor, type: MachineType): boolean {
+        return tractor.type === type && (!IMPLEMENT_TYPES.includes(type) || tractor.implementId !== undefined);
+    }
+
+    private idleTractors(farmId: number, type: MachineType): MockTractor[] {
+        return Array.from(this.tractors.values())
+            .filter(t => t.farmId === farmId && this.canWork(t, type) && this.isIdle(t));
+    }
+
+    private freeImplements(farmId?: number): MockImplement[] {
+        return Array.from(this.implements.values())
+            .filter(i => i.tractorId === null && (farmId === undefined || i.farmId === farmId));
+    }
+
+    /**
+     * Trocas possíveis agora: tratores livres de operação com implemento e implementos livres
+     */
+    private buildImplementChangeData(): SeedingTabResponse['implementChangeData'] {
+        const free = this.freeImplements();
+        const idle = Array.from(this.tractors.values())
+            .filter(t => IMPLEMENT_TYPES.includes(t.type) && this.isIdle(t));
+
+        if (free.length === 0 || idle.length === 0) {
+            return { total: 0, swap: 0, attach: 0, types: {} };
+        }
+
+        const attach = idle.filter(t => t.implementId === undefined).length;
+        const swap = idle.length - attach;
+        const types: Record<string, number> = {};
+        for (const implement of free) {
+            types[implement.type] = (types[implement.type] || 0) + 1;
+        }
+
+        return { total: attach + swap, swap, attach, types };
+    }
+
+    private canFertilize(field: MockFarmland): boolean {
+        return this.fertilizingUnlocked && !field.operation && field.state === 'growing' && !field.fertilized;
+    }
+
+    private canIrrigateField(field: MockFarmland): boolean {
+        return this.canIrrigate && this.irrigateCount > 0 && !field.operation && field.state === 'growing' && !field.irrigated;
+    }
+
+    private toFarmlandData(farmland: MockFarmland): FarmlandData {
+        return {
+            id: farmland.id,
+            farmlandId: farmland.farmlandId,
+            farmlandName: farmland.name,
+            area: farmland.area,
+            cropYield: this.crops.get(farmland.cropId)?.yieldPerHa || 0,
+            complexityIndex: farmland.complexityIndex,
+            farmId: farmland.farmId,
+            farmlandState: farmland.state,
+            previousSeed: {
+                img: '',
+                name: farmland.previousCropName || '',
+                hasPrevious: farmland.previousCropName ? 1 : 0,
+            },
+        };
+    }
+
+    private buildFarms(): Record<string, Farm> {
+        const farms: Record<string, Farm> = {};
+
+        for (const [farmId, farm] of this.farms) {
+            const farmlands: FarmFarmlands = {};
+            const ownFields = Array.from(this.farmlands.values()).filter(f => f.farmId === farmId);
+
+            for (const field of ownFields) {
+                if (field.operation) continue;
+
+                const state = field.state as keyof FarmFarmlands;
+                if (!farmlands[state]) {
+                    const nextOp = (Object.keys(REQUIRED_STATE) as MachineType[])
+                        .find(op => REQUIRED_STATE[op] === field.state);
+
+                    const category: FarmlandCategory = {
+                        typeCount: 0,
+                        farmId,
+                        tractors: nextOp ? this.idleTractors(farmId, nextOp).length : 0,
+                        canCultivate: nextOp ? this.idleTractors(farmId, nextOp).length : 0,
+                        nextState: nextOp ? NEXT_STATE[nextOp] : '',
+                        data: {},
+                    };
+                    farmlands[state] = category;
+                }
+
+                const category = farmlands[state]!;
+                category.typeCount++;
+                category.data[String(field.id)] = this.toFarmlandData(field);
+            }
+
+            farms[String(farmId)] = {
+                name: farm.name,
+                countryCode: farm.countryCode,
+                tractorCount: Array.from(this.tractors.values()).filter(t => t.farmId === farmId).length,
+                farmlandCount: ownFields.length,
+                farmlands,
+            };
+        }
+
+        return farms;
+    }
+
+    private buildTractors(): Record<string, FarmTractors> {
+        const result: Record<string, FarmTractors> = {};
+
+        for (const tractor of this.tractors.values()) {
+            const farmKey = String(tractor.farmId);
+            if (!result[farmKey]) {
+                result[farmKey] = { tractorCount: 0 };
+            }
+
+            const farmTractors = result[farmKey];
+            farmTractors.tractorCount++;
+
+            const category: TractorCategory = farmTractors[tractor.type] || { count: 0, data: {} };
+            category.count++;
+            category.data[String(tractor.id)] = {
+                id: tractor.id,
+                location: tractor.farmId,
+                haHour: tractor.haHour,
+                fuelHour: tractor.fuelHour,
+                opType: tractor.type,
+                inUse: this.isIdle(tractor) ? 0 : 1,
+                farmlandId: tractor.farmlandId,
+                opTimes: {},
+                wear: tractor.wear,
+            };
+            farmTractors[tractor.type] = category;
+        }
+
+        return result;
+    }
+
+    private countFields(state: FarmlandState): number {
+        return Array.from(this.farmlands.values()).filter(f => !f.operation && f.state === state).length;
+    }
+
+    private buildCount(): CultivatingTabResponse['count'] {
+        return {
+            pending: Array.from(this.farmlands.values()).filter(f => f.operation || f.state === 'growing').length,
+            cultivate: this.countFields('raw') + this.countFields('cleared'),
+            harvesting: this.countFields('matured'),
+            seed: this.countFields('plowed'),
+            silo: this.silo.size,
+        };
+    }
+
+    private buildSeedInfo(): Record<string, SeedInfo> {
+        const seeds: Record<string, SeedInfo> = {};
+        for (const [cropId, amount] of this.seeds) {
+            const crop = this.crops.get(cropId);
+            if (!crop) continue;
+            seeds[String(cropId)] = {
+                id: cropId,
+                amount,
+                remainingCapacity: Math.max(0, SEED_SILO_CAPACITY - amount),
+                bushels: 0,
+                img: '',
+                name: crop.name,
+                kgPerHa: crop.kgPerHa,
+                siloImg: '',
+            };
+        }
+        return seeds;
+    }
+
+    private buildFuelSilo(): FuelSilo {
+        const remaining = Math.max(0, this.fuelCapacity - this.fuelHolding);
+        return {
+            siloHolding: this.fuelHolding,
+            siloCapacity: this.fuelCapacity,
+            totalHolding: this.fuelHolding,
+            remainingCapacityActual: remaining,
+            remainingCapacity: remaining,
+            holding: this.fuelHolding,
+            pctFull: (this.fuelHolding / this.fuelCapacity) * 100,
+        };
+    }
+
+    // ============================================
+    // Endpoints de leitura
+    // ============================================
+
+    getCultivatingTab(): CultivatingTabResponse {
+        return {
+            BT: this.rotateBT(),
+            data: { seeding: 0, farmlands: this.farmlands.size, sumArea: 0 },
+            implementChangeData: this.buildImplementChangeData(),
+            farms: this.buildFarms(),
+            tractors: this.buildTractors(),
+            count: this.buildCount(),
+            fertilizingUnlocked: this.fertilizingUnlocked ? 1 : 0,
+            disableFertilizing: this.fertilizingUnlocked ? 0 : 1,
+        };
+    }
+
+    getSeedingTab(): SeedingTabResponse {
+        return {
+            ...this.getCultivatingTab(),
+            data: { hasSeed: this.seeds.size > 0 ? 1 : 0, seeding: 0, farmlands: this.farmlands.size, sumArea: 0 },
+            seed: this.buildSeedInfo(),
+            implementChangeData: this.buildImplementChangeData(),
+        };
+    }
+
+    /**
+     * Colheita agrupa por cultura: farms[farmId].farmlands[cropId].data[userFarmlandId]
+     */
+    getHarvestTab(): HarvestTabResponse {
+        const farms: Record<string, HarvestFarm> = {};
+
+        for (const field of this.farmlands.values()) {
+            if (field.operation || field.state !== 'matured') continue;
+
+            const farmKey = String(field.farmId);
+            const farm = this.farms.get(field.farmId);
+            farms[farmKey] = farms[farmKey] || { name: farm?.name || '', countryCode: farm?.countryCode || '', farmlands: {} };
+
+            const cropKey = String(field.cropId);
+            const group = farms[farmKey].farmlands[cropKey] || { canHarvest: 1, data: {} };
+            group.data[String(field.id)] = { ...this.toFarmlandData(field), canHarvest: 1 };
+            farms[farmKey].farmlands[cropKey] = group;
+        }
+
+        return {
+            BT: this.rotateBT(),
+            data: { farmlands: Object.keys(farms).length, sumArea: 0 },
+            farms,
+            tractors: this.buildTractors(),
+        };
+    }
+
+    getPendingTab(): PendingTabResponse {
+        const operating: Record<string, PendingFarmland> = {};
+        const maturing: Record<string, PendingFarmland> = {};
+
+        for (const field of this.farmlands.values()) {
+            const base = {
+                id: field.id,
+                farmlandId: field.farmlandId,
+                farmlandName: field.name,
+                area: field.area,
+                farmId: field.farmId,
+            };
+
+            if (field.operation) {
+                const op = field.operation;
+                const total = op.end - op.start;
+                operating[String(field.id)] = {
+                    ...base,
+                    opType: op.type,
+                    opTimeRemain: this.remainingSeconds(op.end),
+                    opPct: total > 0 ? Math.min(100, ((this.now() - op.start) / total) * 100) : 100,
+                };
+            } else if (field.state === 'growing') {
+                maturing[String(field.id)] = {
+                    ...base,
+                    opType: 'growing',
+                    opTimeRemain: this.remainingSeconds(field.growEnd),
+                    opPct: 0,
+                };
+            }
+        }
+
+        return {
+            BT: this.rotateBT(),
+            farmlands: {
+                operating: Object.keys(operating).length > 0 ? operating : null,
+                maturing: Object.keys(maturing).length > 0 ? maturing : null,
+            },
+            canIrrigate: this.canIrrigate && this.irrigateCount > 0 ? 1 : 0,
+            irrigateCount: this.canIrrigate ? this.irrigateCount : 0,
+            checklist: false,
+        };
+    }
+
+    getSiloTab(): SiloTabResponse {
+        const holding: Record<string, SiloProduct> = {};
+        let totalHolding = 0;
+
+        for (const [cropId, amount] of this.silo) {
+            const crop = this.crops.get(cropId);
+            totalHolding += amount;
+            holding[String(cropId)] = {
+                id: cropId,
+                amount,
+                remainingCapacity: this.cropSiloCapacity - amount,
+                bushels: 0,
+                img: '',
+                name: crop?.name || `Crop ${cropId}`,
+                growedImg: '',
+                siloImg: '',
+                pctFull: (amount / this.cropSiloCapacity) * 100,
+            };
+        }
+
+        const siloCapacity = this.cropSiloCapacity * Math.max(1, this.silo.size);
+
+        return {
+            BT: this.rotateBT(),
+            cropSilo: {
+                siloCapacity,
+                totalHolding,
+                totalHoldingBushels: 0,
+                holding,
+                pctFull: (totalHolding / siloCapacity) * 100,
+            },
+            increase: CROP_SILO_INCREASE,
+        };
+    }
+
+    getCropValues(): CropValuesResponse {
+        const cropValues: CropValuesResponse['cropValues'] = {};
+        const history: CropValuesResponse['history'] = {};
+
+        for (const crop of this.crops.values()) {
+            cropValues[String(crop.id)] = { priceIncrease: 0, cropValuePer1k: crop.cropValuePer1k, cropValueRating: 3 };
+            history[String(crop.id)] = Array(10).fill(crop.cropValuePer1k);
+        }
+
+        return { BT: this.rotateBT(), cropValues, history };
+    }
+
+    /**
+     * Detalhes por gisId (farmlandId). Este endpoint não retorna BT.
+     */
+    getFarmlandDetails(gisId: number): FarmlandDetailsResponse | null {
+        const field = Array.from(this.farmlands.values()).find(f => f.farmlandId === gisId);
+        if (!field) return null;
+
+        const farm = this.farms.get(field.farmId);
+        const equipment = (type: MachineType): EquipmentCategory => {
+            const units = this.idleTractors(field.farmId, type);
+            const best = units.reduce((max, t) => Math.max(max, t.haHour), 0);
+            return {
+                data: {
+                    available: units.length,
+                    maxUnitsToUse: units.length,
+                    selectedUnits: units.length > 0 ? 1 : 0,
+                    sumHaHour: best,
+                    ci: field.complexityIndex,
+                    opDuration: best > 0 ? Math.ceil((field.area / best) * 3600) : 0,
+                },
+                units: units.map(t => ({ id: t.id, haHour: t.haHour, img: '', wear: t.wear, implementId: t.implementId })),
+            };
+        };
+
+        const op = field.operation;
+
+        return {
+            id: field.id,
+            userFarmlandId: field.id,
+            farmId: field.farmId,
+            farmName: farm?.name || '',
+            farmlandId: field.farmlandId,
+            farmlandName: field.name,
+            farmlandColor: '',
+            city: '',
+            country: '',
+            countryCode: farm?.countryCode || '',
+            area: field.area,
+            machinesOperating: op ? op.tractorIds.length : 0,
+            isIrrigating: field.irrigated && field.state === 'growing' ? 1 : 0,
+            userCultivateCount: 0,
+            farmland: {
+                isSeeding: op?.type === 'seeding' ? 1 : 0,
+                isHarvesting: op?.type === 'harvesting' ? 1 : 0,
+                harvestCycles: 0,
+                maxHarvestCycles: 1,
+                outputState: field.state,
+                opType: op?.type || '',
+                isCultivating: op && (op.type === 'clearing' || op.type === 'plowing') ? 1 : 0,
+                isGrowing: field.state === 'growing' ? 1 : 0,
+                canIrrigate: this.canIrrigateField(field) ? 1 : 0,
+                maturedIn: field.state === 'growing' ? this.remainingSeconds(field.growEnd) : 0,
+                isPendingOp: op ? 1 : 0,
+                isPendingMaturing: field.state === 'growing' ? 1 : 0,
+                isMatured: field.state === 'matured' ? 1 : 0,
+                complexityIndex: field.complexityIndex,
+                farmlandState: field.state,
+                cropImg: null,
+                cropName: this.crops.get(field.cropId)?.name || null,
+                cropId: field.cropId,
+            },
+            instantCompleteCost: 0,
+            equipment: {
+                clearing: equipment('clearing'),
+                plowing: equipment('plowing'),
+                fertilizing: equipment('fertilizing'),
+                seeding: equipment('seeding'),
+                harvesting: equipment('harvesting'),
+            },
+            operations: {
+                opTimeRemain: op ? this.remainingSeconds(op.end) : 0,
+                opStartIn: 0,
+                opPct: 0,
+                growTimeRemain: field.state === 'growing' ? this.remainingSeconds(field.growEnd) : 0,
+                growPct: 0,
+            },
+            canHarvest: !op && field.state === 'matured' ? 1 : 0,
+            canSeed: !op && field.state === 'plowed' ? 1 : 0,
+            canFertilize: this.canFertilize(field) ? 1 : 0,
+            canPlow: !op && field.state === 'cleared' ? 1 : 0,
+            canClear: !op && field.state === 'raw' ? 1 : 0,
+        };
+    }
+
+    /**
+     * Resposta de farmland-action-seed/plow: tratores da farm com seus implementos e os implementos livres
+     */
+    getFarmlandAction(farmId: number): FarmlandActionResponse {
+        const tractors = Array.from(this.tractors.values())
+            .filter(t => t.farmId === farmId && IMPLEMENT_TYPES.includes(t.type))
+            .map(t => ({
+                id: t.id,
+                tractorName: t.name,
+                type: t.type,
+                isPending: this.isIdle(t) ? 0 : 1,
+                hasImplement: t.implementId ? 1 : 0,
+                implementId: t.implementId,
+                haHour: t.haHour,
+                hp: t.hp,
+                wear: t.wear,
+                implementWear: t.implementId !== undefined ? this.implements.get(t.implementId)?.wear : undefined,
+            }));
+
+        const implementsList: FarmlandActionImplement[] = this.freeImplements(farmId).map(i => ({
+            id: i.id,
+            name: i.name,
+            type: i.type,
+            available: 1,
+            minHp: i.minHp,
+            haHour: i.haHour,
+            wear: i.wear,
+        }));
+
+        return { BT: this.rotateBT(), tractors, implements: implementsList };
+    }
+
+    getFarmlandData(gisId: number): FarmlandDataResponse | null {
+        const field = Array.from(this.farmlands.values()).find(f => f.farmlandId === gisId);
+        if (!field) return null;
+
+        const cropScores: FarmlandDataResponse['cropScores'] = {};
+        for (const crop of this.crops.values()) {
+            // Score determinístico por terreno para variar a melhor cultura
+            cropScores[crop.name] = {
+                id: crop.id,
+                nameLatin: crop.nameLatin,
+                category: crop.category,
+                img: '',
+                score: ((gisId + crop.id * 7) % 10) + 1,
+            };
+        }
+
+        return {
+            BT: this.rotateBT(),
+            farmland: {
+                id: field.id,
+                farmlandId: field.farmlandId,
+                farmlandState: field.state,
+                farmlandName: field.name,
+                area: field.area,
+                cropId: field.cropId,
+            },
+            city: { city: 'Mock City', country: 'Brasil', climate: 'tropical' },
+            cropScores,
+        };
+    }
+
+    getMarketSeeds(): MarketResponse {
+        return {
+            BT: this.rotateBT(),
+            user: { account: this.money, points: this.points },
+            silo: {
+                siloCapacity: SEED_SILO_CAPACITY * this.crops.size,
+                totalHolding: Array.from(this.seeds.values()).reduce((sum, v) => sum + v, 0),
+            },
+            seed: Array.from(this.crops.values()).map(crop => ({
+                id: crop.id,
+                name: crop.name,
+                type: crop.category,
+                img: '',
+                kgPerHa: crop.kgPerHa,
+                yieldPerHa: crop.yieldPerHa,
+                seedCost: crop.seedCost,
+                unlocked: 1,
+                canAfford: this.money >= crop.seedCost ? 1 : 0,
+                cropValueRating: 3,
+                growTime: crop.growTime,
+            })),
+        };
+    }
+
+    getFuelSilo(): FuelSiloResponse {
+        return {
+            BT: this.rotateBT(),
+            canWatchAds: 0,
+            hasLivestock: 0,
+            fuelDiscount: 0,
+            fuelSilo: this.buildFuelSilo(),
+            increase: { ...FUEL_SILO_INCREASE, newCapacity: this.fuelCapacity + FUEL_SILO_INCREASE.capacity },
+            user: { account: this.money, points: this.points },
+            fuelCost: this.fuelCost,
+            fuelHistory: [{ timestamp: Math.floor(this.now() / 1000), price: this.fuelCost }],
+        };
+    }
+
+    // ============================================
+    // Endpoints de ação
+    // ============================================
+
+    sellProduct(cropId: number, sellType: string): SellProductResponse {
+        const crop = this.crops.get(cropId);
+        const stored = this.silo.get(cropId) || 0;
+        const amount = sellType === 'half' ? Math.floor(stored / 2) : stored;
+        const gross = (amount / 1000) * (crop?.cropValuePer1k || 0);
+        const brokerage = Math.round(gross * 0.02);
+        const income = Math.round(gross - brokerage);
+
+        this.silo.set(cropId, stored - amount);
+        this.money += income;
+
+        return {
+            BT: this.rotateBT(),
+            cropId,
+            brokerage,
+            valuePer1k: crop?.cropValuePer1k || 0,
+            cropMultiplier: 1,
+            cropValueRating: 3,
+            cropData: { id: cropId, name: crop?.name || '', type: crop?.category || '', cropValue: crop?.cropValuePer1k || 0 },
+            checklist: false,
+            success: amount > 0 ? 1 : 0,
+            income,
+            amount,
+            remaining: stored - amount,
+        };
+    }
+
+    buySeeds(cropId: number, amount: number): BuySeedResponse {
+        const crop = this.crops.get(cropId);
+        const cost = crop ? Math.round((amount / 1000) * crop.seedCost) : 0;
+        const stock = this.seeds.get(cropId) || 0;
+
+        if (!crop || amount <= 0 || cost > this.money || stock + amount > SEED_SILO_CAPACITY) {
+            return { BT: this.rotateBT(), success: 0, amount: 0, cost: 0, remaining: stock };
+        }
+
+        this.money -= cost;
+        this.seeds.set(cropId, stock + amount);
+        return { BT: this.rotateBT(), success: 1, amount, cost, remaining: stock + amount };
+    }
+
+    buyFuel(amount: number): BuyFuelResponse {
+        const capped = Math.max(0, Math.min(amount, this.fuelCapacity - this.fuelHolding));
+        const cost = Math.round((capped / 1000) * this.fuelCost);
+
+        if (capped === 0 || cost > this.money) {
+            return { BT: this.rotateBT(), success: 0, cost: 0, fuelSilo: this.buildFuelSilo(), amount: 0, checklist: false };
+        }
+
+        this.money -= cost;
+        this.fuelHolding += capped;
+        return { BT: this.rotateBT(), success: 1, cost, fuelSilo: this.buildFuelSilo(), amount: capped, checklist: false };
+    }
+
+    /**
+     * Inicia uma operação em um ou mais terrenos. Com vários terrenos,
+     * as máquinas trabalham em sequência, um terreno após o outro.
+     */
+    startOperation(
+        type: MachineType,
+        userFarmlandIds: number[],
+        tractorIds: number[],
+        cropId?: number
+    ): BatchActionResponse {
+        const errors: string[] = [];
+        const result: Record<string, BatchActionResult> = {};
+        const now = this.now();
+        let cursor = now;
+        let fuelUsed = 0;
+
+        const machines = tractorIds
+            .map(id => this.tractors.get(id))
+            .filter((t): t is MockTractor => !!t && this.canWork(t, type) && this.isIdle(t));
+
+        if (machines.length === 0) {
+            errors.push('Nenhuma máquina disponível');
+        }
+
+        const fields = userFarmlandIds
+            .map(id => this.farmlands.get(id))
+            .filter((f): f is MockFarmland => !!f);
+
+        for (const field of fields) {
+            if (errors.length > 0) break;
+
+            if (field.operation || field.state !== REQUIRED_STATE[type] || (type === 'fertilizing' && !this.canFertilize(field))) {
+                errors.push(`Terreno ${field.id} não está pronto para ${type}`);
+                continue;
+            }
+
+            const haHour = machines.reduce((sum, t) => sum + t.haHour, 0);
+            const gameHours = field.area / haHour;
+            const fuelNeeded = Math.ceil(machines.reduce((sum, t) => sum + t.fuelHour, 0) * gameHours);
+
+            if (fuelNeeded > this.fuelHolding) {
+                errors.push('Combustível insuficiente');
+                continue;
+            }
+
+            if (type === 'seeding') {
+                const crop = cropId !== undefined ? this.crops.get(cropId) : undefined;
+                const seedNeeded = crop ? Math.ceil(field.area * crop.kgPerHa) : 0;
+                const stock = crop ? this.seeds.get(crop.id) || 0 : 0;
+
+                if (!crop || stock < seedNeeded) {
+                    errors.push('Sementes insuficientes');
+                    continue;
+                }
+                this.seeds.set(crop.id, stock - seedNeeded);
+            }
+
+            this.fuelHolding -= fuelNeeded;
+            fuelUsed += fuelNeeded;
+
+            const start = cursor;
+            const end = start + this.gameSecondsToMs(gameHours * 3600);
+            cursor = end;
+            field.operation = { type, tractorIds: machines.map(t => t.id), start, end, cropId };
+            if (type === 'harvesting') {
+                field.state = 'harvesting';
+            }
+
+            for (const machine of machines) {
+                machine.busyUntil = end;
+                machine.farmlandId = field.id;
+            }
+
+            const crop = cropId !== undefined ? this.crops.get(cropId) : undefined;
+            const growEnd = type === 'seeding' && crop ? end + this.gameSecondsToMs(crop.growTime) : 0;
+
+            result[String(field.id)] = {
+                success: 1,
+                type,
+                farmlandId: field.farmlandId,
+                userFarmlandId: field.id,
+                farmId: field.farmId,
+                opTimeRemain: this.remainingSeconds(end),
+                opStartIn: this.remainingSeconds(start),
+                opPctPerSec: 0,
+                farmlandState: field.state,
+                opType: type,
+                growTimeRemain: growEnd ? this.remainingSeconds(growEnd) : 0,
+                growPctPerSec: 0,
+                farmlandNextOpState: NEXT_STATE[type],
+                opStart: Math.floor(start / 1000),
+                opEnd: Math.floor(end / 1000),
+                growEnd: Math.floor(growEnd / 1000),
+                harvestEnd: type === 'harvesting' ? Math.floor(end / 1000) : 0,
+            };
+        }
+
+        const resultIds = Object.keys(result);
+        const lastEnd = resultIds.length > 0 ? Math.max(...resultIds.map(id => result[id].opEnd)) : 0;
+
+        if (resultIds.length > 0) {
+            for (const machine of machines) {
+                machine.wear = Math.min(100, machine.wear + this.wearPerOperation);
+                const implement = machine.implementId !== undefined ? this.implements.get(machine.implementId) : undefined;
+                if (implement) implement.wear = Math.min(100, implement.wear + this.wearPerOperation);
+            }
+        }
+
+        return {
+            BT: this.rotateBT(),
+            isHeavy: 0,
+            opEnd: lastEnd,
+            addHours: 0,
+            farmlandId: userFarmlandIds[0] || 0,
+            // O jogo devolve um único valor: o desgaste da primeira máquina
+            newWear: resultIds.length > 0 ? machines[0].wear : 0,
+            hectare: {},
+            checklist: 0,
+            sumCultivated: fields.filter(f => result[String(f.id)]).reduce((sum, f) => sum + f.area, 0),
+            operationType: type,
+            failed: errors.length,
+            result,
+            income: 0,
+            sumExpense: 0,
+            fuelUsed,
+            unitsOperating: machines.length,
+            now: Math.floor(now / 1000),
+            errors,
+        };
+    }
+
+    /**
+     * Irriga um terreno em crescimento, encurtando o tempo restante
+     */
+    irrigate(userFarmlandId: number): IrrigateResponse {
+        const field = this.farmlands.get(userFarmlandId);
+        const cost = field ? Math.round(field.area * this.irrigationCostPerHa) : 0;
+        const fail = (error: string): IrrigateResponse => ({
+            BT: this.rotateBT(), success: 0, userFarmlandId, cost: 0, growTimeRemain: 0, irrigateCount: this.irrigateCount, errors: [error],
+        });
+
+        if (!field || !this.canIrrigateField(field)) return fail('Terreno não pode ser irrigado');
+        if (cost > this.money) return fail('Saldo insuficiente');
+
+        const now = this.now();
+        this.money -= cost;
+        this.irrigateCount--;
+        field.irrigated = true;
+        field.growEnd = now + (field.growEnd - now) * (1 - IRRIGATION_GROWTH_REDUCTION);
+
+        return {
+            BT: this.rotateBT(),
+            success: 1,
+            userFarmlandId,
+            cost,
+            growTimeRemain: this.remainingSeconds(field.growEnd),
+            irrigateCount: this.irrigateCount,
+        };
+    }
+
+    /**
+     * Anexa (attach) ou troca (swap) o implemento de um trator livre
+     */
+    changeImplement(action: 'attach' | 'swap', tractorId: number, implementId: number): ImplementChangeResponse {
+        const tractor = this.tractors.get(tractorId);
+        const implement = this.implements.get(implementId);
+        const fail = (error: string): ImplementChangeResponse => ({
+            BT: this.rotateBT(), success: 0, tractorId, implementId, errors: [error],
+        });
+
+        if (!tractor || !implement || implement.farmId !== tractor.farmId) return fail('Trator ou implemento não encontrado');
+        if (!this.isIdle(tractor)) return fail('Trator em uso');
+        if (implement.tractorId !== null) return fail('Implemento em uso');
+        if (tractor.hp < implement.minHp) return fail('Potência insuficiente');
+        if ((action === 'attach') !== (tractor.implementId === undefined)) {
+            return fail(action === 'attach' ? 'Trator já tem implemento' : 'Trator sem implemento');
+        }
+
+        const current = tractor.implementId !== undefined ? this.implements.get(tractor.implementId) : undefined;
+        if (current) current.tractorId = null;
+        this.attach(tractor, implement);
+
+        return { BT: this.rotateBT(), success: 1, tractorId, implementId };
+    }
+
+    /**
+     * Zera o desgaste de uma máquina (livre) ou implemento
+     */
+    repair(kind: WearUnitKind, id: number): RepairResponse {
+        const unit = kind === 'tractor' ? this.tractors.get(id) : this.implements.get(id);
+        const fail = (error: string): RepairResponse => ({
+            BT: this.rotateBT(), success: 0, id, cost: 0, wear: unit?.wear ?? 0, errors: [error],
+        });
+
+        if (!unit) return fail('Unidade não encontrada');
+        if (kind === 'tractor' && !this.isIdle(unit as MockTractor)) return fail('Máquina em uso');
+
+        const cost = Math.round(unit.wear * this.repairCostPerPct);
+        if (cost > this.money) return fail('Saldo insuficiente');
+
+        this.money -= cost;
+        unit.wear = 0;
+        return { BT: this.rotateBT(), success: 1, id, cost, wear: 0 };
+    }
+
+    getMachineMarket(): MachineMarketResponse {
+        return { BT: this.rotateBT(), user: { account: this.money }, machines: this.machineOffers };
+    }
+
+    /**
+     * Compra uma oferta do mercado. Implementos chegam livres; máquinas chegam sem implemento.
+     */
+    buyMachine(offerId: number, farmId: number): BuyMachineResponse {
+        const offer = this.machineOffers.find(o => o.id === offerId);
+        const fail = (error: string): BuyMachineResponse => ({
+            BT: this.rotateBT(), success: 0, id: 0, farmId, cost: 0, errors: [error],
+        });
+
+        if (!offer || !this.farms.has(farmId)) return fail('Oferta ou farm não encontrada');
+        if (offer.price > this.money) return fail('Saldo insuficiente');
+
+        const id = this.nextUnitId++;
+        const type = offer.type as MachineType;
+        this.money -= offer.price;
+
+        if (offer.category === 'implement') {
+            this.addImplement({ id, farmId, name: offer.name, type, haHour: offer.haHour, minHp: offer.hp ?? 0 });
+        } else {
+            this.addTractor({ id, farmId, name: offer.name, type, haHour: offer.haHour, fuelHour: offer.fuelHour, hp: offer.hp ?? 150 });
+        }
+
+        return { BT: this.rotateBT(), success: 1, id, farmId, cost: offer.price };
+    }
+
+    /**
+     * Amplia o silo de grãos (por grão) ou de combustível
+     */
+    upgradeSilo(type: SiloKind, size?: CropSiloUpgradeSize): SiloUpgradeResponse {
+        const increase = type === 'fuel' ? FUEL_SILO_INCREASE : CROP_SILO_INCREASE[size || 'small'];
+        const capacity = () => (type === 'fuel' ? this.fuelCapacity : this.cropSiloCapacity);
+
+        if (!increase || increase.cost > this.money) {
+            return { BT: this.rotateBT(), success: 0, cost: 0, siloCapacity: capacity(), errors: ['Saldo insuficiente'] };
+        }
+
+        this.money -= increase.cost;
+        if (type === 'fuel') {
+            this.fuelCapacity += increase.capacity;
+        } else {
+            this.cropSiloCapacity += increase.capacity;
+        }
+
+        return { BT: this.rotateBT(), success: 1, cost: increase.cost, siloCapacity: capacity() };
+    }
+
+    /**
+     * Converte o mapa de unidades enviado pelo bot em IDs de trator
+     */
+    static unitIds(units: Record<string, BatchActionUnit>): number[] {
+        return Object.values(units).map(u => Number(u.tractorId));
+    }
+}
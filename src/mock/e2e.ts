@@ -0,0 +1,279 @@
+// ============================================
+// Farm Manager Bot - End-to-End Tests (npm test)
+// ============================================
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiClient } from '../api/client';
+import { FarmBot } from '../bot/FarmBot';
+import { AuthService } from '../services/AuthService';
+import { BotConfig, CycleStep } from '../types';
+import { Logger } from '../utils/logger';
+import { MockFarmServer, MockServerOptions } from './MockFarmServer';
+import { MockGameState } from './MockGameState';
+
+const EMAIL = 'bot@mock.local';
+const PASSWORD = 'mock';
+const HOUR = 3600;
+
+interface Harness {
+    baseUrl: string;
+    server: MockFarmServer;
+    state: MockGameState;
+    bot: FarmBot;
+}
+
+const running: Array<{ server: MockFarmServer; stateDir: string }> = [];
+
+/**
+ * Sobe um mock novo e um FarmBot logado nele, com as funcionalidades opcionais desligadas
+ * (como no .env.example) e `overrides` por cima
+ */
+async function startBot(overrides: Partial<BotConfig> = {}, options: MockServerOptions = {}): Promise<Harness> {
+    const server = new MockFarmServer(options);
+    const baseUrl = await server.start();
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-bot-e2e-'));
+    running.push({ server, stateDir });
+
+    const phpSessionId = await new AuthService(baseUrl).login(EMAIL, PASSWORD);
+
+    const config: BotConfig = {
+        baseUrl,
+        phpSessionId,
+        credentials: { email: EMAIL, password: PASSWORD },
+        checkIntervalMs: 120000,
+        siloSellThreshold: 80,
+        sellStrategy: 'threshold',
+        sellForcePct: 95,
+        sellPricePercentile: 60,
+        sellGoodRating: 4,
+        seedSelectionMode: 'cropScore',
+        seedSelectionFarmModes: {},
+        seedBlendProfitWeight: 0.5,
+        seedCashReserve: 0,
+        rotationEnabled: false,
+        rotationMaxRepeats: 1,
+        rotationFollowUps: {},
+        rotationFarmPlans: {},
+        siloUpgradesEnabled: false,
+        siloUpgradeCashReserve: 100000,
+        siloUpgradeMaxPaybackFills: 3,
+        debug: false,
+        maxTractorsPerOp: 4,
+        maxIdleTimeMinutes: 30,
+        fuelMinLevel: 1000,
+        fuelTargetLevel: 2000,
+        fuelCheapPercentile: 20,
+        fuelExpensivePercentile: 70,
+        fuelWindowHours: 72,
+        fuelTrendHours: 12,
+        fuelRisingTrendPct: 5,
+        fuelHistoryDays: 30,
+        fuelMinSamples: 12,
+        fuelForecastEnabled: false,
+        fuelForecastHorizonHours: 6,
+        maintenanceEnabled: false,
+        wearRepairThreshold: 70,
+        wearExcludeThreshold: 90,
+        wearSampleMaxAgeHours: 24,
+        maintenanceCashReserve: 100000,
+        implementManagerEnabled: false,
+        implementHorizonMinutes: 60,
+        batchActionsEnabled: false,
+        workersEnabled: false,
+        workersMaxWaitMinutes: 60,
+        workersDailyBudget: 50000,
+        fleetAdvisorEnabled: false,
+        fleetAdvisorWindowDays: 7,
+        fleetAdvisorSlowHours: 3,
+        fleetAdvisorValuePerHa: 500,
+        fleetAdvisorReportHours: 6,
+        fleetAutoBuyEnabled: false,
+        fleetAutoBuyBudget: 0,
+        fleetMaxPaybackDays: 14,
+        apiTimeoutMs: 5000,
+        apiMaxRetries: 0,
+        apiRetryBaseDelayMs: 10,
+        circuitBreakerThreshold: 5,
+        circuitBreakerCooldownMs: 60000,
+        dryRun: false,
+        fertilizingEnabled: false,
+        fertilizeYieldBonusPct: 20,
+        fertilizeMinGain: 1000,
+        fertilizeCostPerHa: 100,
+        irrigationEnabled: false,
+        irrigationGrowthReductionPct: 25,
+        irrigationMinSavedMinutes: 60,
+        irrigationMaxCost: 0,
+        irrigationCostPerHa: 0,
+        cycleTimeoutMs: 60000,
+        stepTimeoutMs: 20000,
+        stateDir,
+        ...overrides,
+    };
+
+    return { baseUrl, server, state: server.state, bot: new FarmBot(config) };
+}
+
+/**
+ * Terreno extra já em crescimento, amadurecendo em `hoursLeft` horas de jogo
+ */
+function addGrowingField(state: MockGameState, id: number, area: number, hoursLeft: number): void {
+    state.addFarmland({ id, farmlandId: id + 4900, farmId: 1, name: `Campo ${id}`, area, complexityIndex: 1, state: 'growing', cropId: 1 });
+    state.farmlands.get(id)!.growEnd = state.now() + hoursLeft * HOUR * 1000;
+}
+
+function steps(...names: CycleStep[]): Set<CycleStep> {
+    return new Set(names);
+}
+
+describe('FarmBot contra o mock server', () => {
+    afterEach(async () => {
+        for (const { server, stateDir } of running.splice(0)) {
+            await server.stop();
+            fs.rmSync(stateDir, { recursive: true, force: true });
+        }
+    });
+
+    test('limpa, ara, semeia e colhe cada terreno e o grão chega ao silo', async () => {
+        const { state, bot } = await startBot();
+
+        await bot.runCycle();
+
+        assert.equal(state.farmlands.get(101)!.operation?.type, 'clearing');
+        assert.equal(state.farmlands.get(102)!.operation?.type, 'plowing');
+        assert.equal(state.farmlands.get(103)!.operation?.type, 'seeding');
+        assert.equal(state.farmlands.get(104)!.operation?.type, 'harvesting');
+
+        state.fastForward(3 * HOUR);
+        state.advance();
+
+        assert.equal(state.farmlands.get(101)!.state, 'cleared');
+        assert.equal(state.farmlands.get(102)!.state, 'plowed');
+        assert.equal(state.farmlands.get(103)!.state, 'growing');
+        assert.equal(state.silo.get(1), 6 * 4000);
+        assert.equal(state.btMismatches, 0);
+    });
+
+    test('colhe um terreno com todas as colheitadeiras livres', async () => {
+        const { state, bot } = await startBot();
+
+        await bot.runCycle(steps('harvest'));
+
+        const op = state.farmlands.get(104)!.operation!;
+        assert.deepEqual([...op.tractorIds].sort(), [231, 232]);
+        // 6 ha com 4 + 3 ha/h
+        assert.equal(Math.round((op.end - op.start) / 1000), Math.round((6 / 7) * HOUR));
+    });
+
+    test('dry run não altera o jogo', async () => {
+        const { state, bot } = await startBot({ dryRun: true });
+        const money = state.money;
+
+        await bot.runCycle();
+
+        assert.equal(state.money, money);
+        assert.ok(Array.from(state.farmlands.values()).every(f => f.operation === null));
+    });
+
+    test('não repete uma compra cuja resposta veio sem BT', async () => {
+        const { baseUrl, server, state } = await startBot();
+        let refreshes = 0;
+        const api = new ApiClient(server.createSession(), new Logger('E2E', false), {
+            baseUrl,
+            onSessionExpired: async () => {
+                refreshes++;
+                return server.createSession();
+            },
+        });
+        const money = state.money;
+
+        server.omitBT('/silo-fuel-buy.php');
+        await api.buyFuel(1000);
+
+        assert.equal(refreshes, 0);
+        assert.equal(state.money, money - state.fuelCost);
+
+        // Uma leitura sem BT ainda é tratada como sessão expirada e repetida
+        server.omitBT('/user-silo.php');
+        await api.getFuelSilo();
+        assert.equal(refreshes, 1);
+    });
+
+    test('irriga terrenos em crescimento dentro do limite de custo', async () => {
+        const { state, bot } = await startBot(
+            { irrigationEnabled: true, irrigationMaxCost: 5000, irrigationCostPerHa: 200 },
+            { canIrrigate: true, irrigationCostPerHa: 200 }
+        );
+        addGrowingField(state, 105, 10, 4);
+        addGrowingField(state, 106, 40, 4); // ~$8.000, acima do limite
+        const money = state.money;
+
+        await bot.runCycle(steps('irrigate'));
+
+        assert.equal(state.farmlands.get(105)!.irrigated, true);
+        assert.equal(state.farmlands.get(106)!.irrigated, false);
+        assert.equal(state.money, money - 10 * 200);
+    });
+
+    test('fertiliza quando o ganho líquido compensa', async () => {
+        const { state, bot } = await startBot(
+            { fertilizingEnabled: true, fertilizeMinGain: 500 },
+            { fertilizingUnlocked: true }
+        );
+        addGrowingField(state, 105, 10, 4);
+
+        await bot.runCycle(steps('fertilize'));
+
+        assert.equal(state.farmlands.get(105)!.operation?.type, 'fertilizing');
+
+        state.fastForward(2 * HOUR);
+        state.advance();
+
+        assert.equal(state.farmlands.get(105)!.fertilized, true);
+        assert.equal(state.farmlands.get(105)!.state, 'growing');
+    });
+
+    test('repara máquinas e implementos desgastados lidos da frota inteira', async () => {
+        const { state, bot } = await startBot({ maintenanceEnabled: true, maintenanceCashReserve: 0 });
+        state.tractors.get(201)!.wear = 80;
+        state.implements.get(1211)!.wear = 85;
+        const money = state.money;
+
+        await bot.runCycle(steps('maintenance'));
+
+        assert.equal(state.tractors.get(201)!.wear, 0);
+        assert.equal(state.implements.get(1211)!.wear, 0);
+        assert.equal(state.money, money - (80 + 85) * 500);
+    });
+
+    test('tira das operações a máquina desgastada que não pôde ser reparada', async () => {
+        const { state, bot } = await startBot({ maintenanceEnabled: true, maintenanceCashReserve: 0 });
+        state.tractors.get(231)!.wear = 95;
+
+        await bot.runCycle(steps('maintenance'));
+        assert.equal(state.tractors.get(231)!.wear, 0);
+
+        // Sem saldo para reparar, a colheitadeira gasta fica fora da colheita
+        state.tractors.get(231)!.wear = 95;
+        state.money = 0;
+        await bot.runCycle(steps('maintenance', 'harvest'));
+
+        assert.deepEqual(state.farmlands.get(104)!.operation?.tractorIds, [232]);
+    });
+
+    test('troca implementos conforme a área que vai precisar de cada um', async () => {
+        const { state, bot } = await startBot({ implementManagerEnabled: true });
+        state.addImplement({ id: 1300, farmId: 1, name: 'Arado extra', type: 'plowing', haHour: 5, minHp: 100 });
+
+        await bot.runCycle(steps('implements'));
+
+        // Sem fertilização a fazer, o trator de fertilização passa a arar (102 está limpo)
+        assert.equal(state.tractors.get(241)!.implementId, 1300);
+        assert.equal(state.tractors.get(241)!.type, 'plowing');
+        assert.equal(state.implements.get(1241)!.tractorId, null);
+    });
+});
@@ -0,0 +1,40 @@
+// ============================================
+// Farm Manager Bot - Mock Server Entry Point
+// ============================================
+
+import 'dotenv/config';
+import { MockFarmServer } from './MockFarmServer';
+import { Logger } from '../utils/logger';
+
+export { MockFarmServer, MockServerOptions } from './MockFarmServer';
+export { MockGameState, MockGameOptions, MachineType } from './MockGameState';
+
+const logger = new Logger('Mock');
+
+async function main(): Promise<void> {
+    const server = new MockFarmServer({
+        port: parseInt(process.env.MOCK_PORT || '8080', 10),
+        timeScale: parseFloat(process.env.MOCK_TIME_SCALE || '60'),
+        debug: process.env.DEBUG === 'true',
+    });
+
+    const baseUrl = await server.start();
+    logger.info(`Use no .env do bot: FARM_BASE_URL=${baseUrl}`);
+    logger.info('Credenciais: FARM_EMAIL=bot@mock.local FARM_PASSWORD=mock (ou ANDROID_ACCESS_TOKEN=guest_android_mock)');
+
+    const shutdown = async () => {
+        await server.stop();
+        process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+// Executar apenas quando chamado diretamente (npm run mock)
+if (require.main === module) {
+    main().catch((error) => {
+        logger.error('Erro ao iniciar mock server', error);
+        process.exit(1);
+    });
+}
@@ -3,11 +3,15 @@
 // ============================================
 
 import axios from 'axios';
+import { ApiClient, DEFAULT_BASE_URL } from '../api/client';
+import { ApiError } from '../api/errors';
+import { AuthCredentials } from '../types';
 import { Logger } from '../utils/logger';
 
-const LOGIN_URL = 'https://farm-app.trophyapi.com/login-check.php';
-const ANDROID_DISPATCH_URL = 'https://farm-app.trophyapi.com/app/app-dispatch.php';
-const AUTH_URL = 'https://farm-app.trophyapi.com/app/auth.php';
+const LOGIN_PATH = '/login-check.php';
+const LOGIN_PAGE_PATH = '/index-login.php';
+const ANDROID_DISPATCH_PATH = '/app/app-dispatch.php';
+const AUTH_PATH = '/app/auth.php';
 
 const ANDROID_HEADERS = {
     'User-Agent': 'Mozilla/5.0 (Linux; Android 12; SM-G973F Build/SP1A.210812.016; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/143.0.7499.146 Mobile Safari/537.36',
@@ -42,9 +46,11 @@ const DEFAULT_HEADERS = {
 
 export class AuthService {
     private logger: Logger;
+    private baseUrl: string;
 
-    constructor() {
+    constructor(baseUrl: string = DEFAULT_BASE_URL) {
         this.logger = new Logger('Auth');
+        this.baseUrl = baseUrl;
     }
 
     /**
@@ -63,7 +69,7 @@ export class AuthService {
                 platform: 'android',
                 appVersion: appVersion,
             });
-            const url = `${ANDROID_DISPATCH_URL}?${params.toString()}`;
+            const url = `${this.baseUrl}${ANDROID_DISPATCH_PATH}?${params.toString()}`;
 
             const response = await axios.get(url, {
                 headers: {
@@ -96,17 +102,17 @@ export class AuthService {
     }
 
     /**
-     * Registra uma NOVA conta guest e faz login automaticamente.
+     * Registra uma NOVA conta guest, sem fazer login.
      * Não precisa de nenhuma credencial - o servidor gera um novo usuário a cada chamada.
+     * O token retornado deve ser persistido antes de qualquer outra chamada, senão a conta é perdida.
      * @param appVersion Versão do app (padrão: 1.1.4)
-     * @returns Objeto com accessToken (para uso futuro) e phpSessionId
+     * @returns Objeto com accessToken e userId da nova conta
      */
-    async registerGuestAndLogin(appVersion: string = '1.1.4'): Promise<{ accessToken: string; phpSessionId: string; userId: number }> {
+    async registerGuest(appVersion: string = '1.1.4'): Promise<{ accessToken: string; userId: number }> {
         this.logger.info('🆕 Registrando nova conta guest...');
 
         try {
-            // Passo 1: Chamar /app/auth.php para criar nova conta guest
-            const authResponse = await axios.post(AUTH_URL, {
+            const authResponse = await axios.post(`${this.baseUrl}${AUTH_PATH}`, {
                 platform: 'android',
                 appVersion: appVersion,
             }, {
@@ -128,14 +134,7 @@ export class AuthService {
 
             this.logger.info(`✅ Conta guest criada! User ID: ${userId}, Token: ${accessToken.substring(0, 20)}...`);
 
-            // Passo 2: Usar o access_token para obter PHPSESSID
-            const phpSessionId = await this.loginWithAndroidToken(accessToken, appVersion);
-
-            return {
-                accessToken,
-                phpSessionId,
-                userId,
-            };
+            return { accessToken, userId };
 
         } catch (error: unknown) {
             if (axios.isAxiosError(error)) {
@@ -156,7 +155,7 @@ export class AuthService {
 
         try {
             // Primeiro, fazer uma requisição para obter um PHPSESSID inicial
-            const initialResponse = await axios.get('https://farm-app.trophyapi.com/index-login.php', {
+            const initialResponse = await axios.get(`${this.baseUrl}${LOGIN_PAGE_PATH}`, {
                 headers: {
                     'User-Agent': DEFAULT_HEADERS['User-Agent'],
                     'Accept': DEFAULT_HEADERS['Accept'],
@@ -179,7 +178,7 @@ export class AuthService {
             formData.append('email', email);
             formData.append('password', password);
 
-            const loginResponse = await axios.post(LOGIN_URL, formData, {
+            const loginResponse = await axios.post(`${this.baseUrl}${LOGIN_PATH}`, formData, {
                 headers: {
                     ...DEFAULT_HEADERS,
                     Cookie: initialSessionId ? `PHPSESSID=${initialSessionId}; device=web` : 'device=web',
@@ -221,6 +220,44 @@ export class AuthService {
         }
     }
 
+    /**
+     * Obtém uma nova sessão a partir das credenciais guardadas.
+     * Usa a mesma prioridade do login inicial: email/senha, depois Android token.
+     * @returns O novo PHPSESSID
+     */
+    async refreshSession(credentials?: AuthCredentials, androidToken?: string): Promise<string> {
+        if (credentials) {
+            return this.login(credentials.email, credentials.password);
+        }
+
+        if (androidToken) {
+            return this.loginWithAndroidToken(androidToken);
+        }
+
+        throw new Error('Nenhuma credencial disponível para renovar a sessão.');
+    }
+
+    /**
+     * Verifica se um PHPSESSID guardado ainda é válido com uma leitura barata (aba de pendentes).
+     * @returns O BT recebido se a sessão for válida, ou null se precisar de um novo login
+     */
+    async validateSession(sessionId: string): Promise<string | null> {
+        const api = new ApiClient(sessionId, this.logger, { baseUrl: this.baseUrl, maxRetries: 0 });
+
+        try {
+            await api.getPendingTab();
+            this.logger.info(`✅ Sessão guardada ainda é válida: ${sessionId.substring(0, 8)}...`);
+            return api.getCurrentBT();
+        } catch (error) {
+            if (error instanceof ApiError && error.kind === 'session') {
+                this.logger.info('🔑 Sessão guardada expirou, será feito um novo login');
+            } else {
+                this.logger.warn(`Não foi possível validar a sessão guardada: ${(error as Error).message}`);
+            }
+            return null;
+        }
+    }
+
     /**
      * Extrai o PHPSESSID do header Set-Cookie
      */
@@ -0,0 +1,266 @@
+// ============================================
+// Farm Manager Bot - Batch Action Service
+// ============================================
+
+import { ApiClient } from '../api/client';
+import { AvailableTask, BatchActionResponse } from '../types';
+import { Logger } from '../utils/logger';
+import { TractorService } from './TractorService';
+import { FleetAdvisorService } from './FleetAdvisorService';
+
+// Limite de duração de uma operação no jogo (6 horas)
+const MAX_BATCH_SECONDS = 6 * 3600;
+
+export interface BatchSettings {
+    maxTractors: number;
+    maxIdleTimeMinutes: number;
+}
+
+export interface BatchPlan {
+    farmId: number;
+    opType: string;
+    cropId?: number;
+    tasks: AvailableTask[];
+    tractors: { tractorId: number; implementId?: number; haHour: number }[];
+    estimatedDuration: number; // em segundos, todos os terrenos em sequência
+}
+
+export interface BatchTaskOutcome {
+    task: AvailableTask;
+    success: boolean;
+    opTimeRemain: number; // em segundos, até o fim da operação neste terreno
+    error?: string;
+}
+
+/**
+ * Agrupa tarefas compatíveis (mesma farm, operação e cultura) em uma única ação batch.
+ * O jogo processa os terrenos de um lote em sequência com as mesmas máquinas, então
+ * cada lote é limitado pela duração máxima de uma operação.
+ */
+export class BatchActionService {
+    private api: ApiClient;
+    private logger: Logger;
+    private tractorService: TractorService;
+    private advisor: FleetAdvisorService | null;
+
+    constructor(api: ApiClient, logger: Logger, tractorService: TractorService, advisor: FleetAdvisorService | null = null) {
+        this.api = api;
+        this.logger = logger;
+        this.tractorService = tractorService;
+        this.advisor = advisor;
+    }
+
+    /**
+     * Monta os lotes das tarefas. Lotes da mesma farm e operação (ex: sementes diferentes)
+     * disputam as mesmas máquinas, que são divididas entre eles conforme a área.
+     * Tarefas que não cabem em nenhum lote ficam para o próximo ciclo.
+     */
+    async planBatches(tasks: AvailableTask[], settings: BatchSettings): Promise<BatchPlan[]> {
+        const plans: BatchPlan[] = [];
+
+        for (const pool of this.groupByPool(tasks)) {
+            const groups = this.groupByCrop(pool);
+            const totalArea = pool.reduce((sum, t) => sum + t.area, 0);
+            const first = pool[0];
+
+            const fleet = await this.tractorService.getOptimalTractorsForOperation(
+                first.farmlandId,
+                first.farmId,
+                totalArea,
+                first.complexityIndex,
+                first.type as 'seeding' | 'plowing' | 'clearing',
+                settings.maxTractors,
+                settings.maxIdleTimeMinutes
+            );
+
+            if (!fleet || fleet.tractors.length === 0) {
+                this.logger.warn(`Nenhum trator disponível para ${first.type} na farm ${first.farmId}`);
+                pool.forEach(task => this.advisor?.recordBlocked(task, 'no_equipment'));
+                continue;
+            }
+
+            const split = this.splitFleet(groups, fleet.tractors);
+
+            for (const [cropId, group] of groups) {
+                const tractors = split.get(cropId) || [];
+                if (tractors.length === 0) {
+                    this.logger.debugLog(
+                        `[Batch] Sem tratores para ${group.length} terreno(s) de ${first.type} na farm ${first.farmId}, ficam para o próximo ciclo`
+                    );
+                    group.forEach(task => this.advisor?.recordBlocked(task, 'no_equipment'));
+                    continue;
+                }
+
+                const plan = this.fitToLimit(first.farmId, first.type, cropId, group, tractors);
+                if (plan) {
+                    plans.push(plan);
+                }
+            }
+        }
+
+        return plans;
+    }
+
+    /**
+     * Inicia um lote e devolve o resultado de cada terreno
+     */
+    async execute(plan: BatchPlan): Promise<{ response: BatchActionResponse; outcomes: BatchTaskOutcome[] }> {
+        const farmlandIds: Record<string, number> = {};
+        for (const task of plan.tasks) {
+            farmlandIds[String(task.userFarmlandId)] = task.userFarmlandId;
+        }
+
+        const response = await this.api.startBatchAction(
+            plan.opType,
+            farmlandIds,
+            this.tractorService.buildMultiBatchUnits(plan.tractors),
+            plan.tasks.length === 1,
+            false,
+            plan.cropId
+        );
+
+        this.logger.debugLog(`[Batch] Resultado: ${JSON.stringify(response)}`);
+
+        return { response, outcomes: this.parseOutcomes(plan.tasks, response) };
+    }
+
+    /**
+     * Separa o resultado da ação por terreno. Terrenos sem entrada de sucesso em `result`
+     * recebem os erros que os mencionam, ou todos os erros quando nenhum menciona um terreno.
+     */
+    private parseOutcomes(tasks: AvailableTask[], response: BatchActionResponse): BatchTaskOutcome[] {
+        const errors = response.errors || [];
+
+        return tasks.map(task => {
+            const result = response.result?.[String(task.userFarmlandId)];
+
+            if (result && result.success === 1) {
+                return { task, success: true, opTimeRemain: result.opTimeRemain };
+            }
+
+            const own = errors.filter(e =>
+                e.includes(String(task.userFarmlandId)) || e.includes(task.farmlandName)
+            );
+
+            return {
+                task,
+                success: false,
+                opTimeRemain: 0,
+                error: (own.length > 0 ? own : errors).join(', ') || 'Erro desconhecido',
+            };
+        });
+    }
+
+    /**
+     * Agrupa tarefas que usam as mesmas máquinas: mesma farm e mesma operação
+     */
+    private groupByPool(tasks: AvailableTask[]): AvailableTask[][] {
+        const pools = new Map<string, AvailableTask[]>();
+
+        for (const task of tasks) {
+            const key = `${task.farmId}:${task.type}`;
+            const pool = pools.get(key) || [];
+            pool.push(task);
+            pools.set(key, pool);
+        }
+
+        return Array.from(pools.values());
+    }
+
+    /**
+     * Dentro de um grupo de máquinas, cada lote só pode ter uma cultura (cropId)
+     */
+    private groupByCrop(tasks: AvailableTask[]): Map<number | undefined, AvailableTask[]> {
+        const groups = new Map<number | undefined, AvailableTask[]>();
+
+        for (const task of tasks) {
+            const group = groups.get(task.cropId) || [];
+            group.push(task);
+            groups.set(task.cropId, group);
+        }
+
+        return groups;
+    }
+
+    /**
+     * Divide as máquinas entre os lotes: cada lote (maior área primeiro) recebe uma máquina,
+     * e as restantes vão, uma a uma, para o lote que terminaria por último
+     */
+    private splitFleet<K>(
+        groups: Map<K, AvailableTask[]>,
+        tractors: BatchPlan['tractors']
+    ): Map<K, BatchPlan['tractors']> {
+        const areaOf = (tasks: AvailableTask[]) => tasks.reduce((sum, t) => sum + t.area, 0);
+        const haHourOf = (units: BatchPlan['tractors']) => units.reduce((sum, u) => sum + u.haHour, 0);
+
+        const order = Array.from(groups.keys()).sort((a, b) => areaOf(groups.get(b)!) - areaOf(groups.get(a)!));
+        const remaining = [...tractors].sort((a, b) => b.haHour - a.haHour);
+        const split = new Map<K, BatchPlan['tractors']>();
+
+        for (const key of order) {
+            const tractor = remaining.shift();
+            if (!tractor) break;
+            split.set(key, [tractor]);
+        }
+
+        for (const tractor of remaining) {
+            let slowest: K | null = null;
+            let slowestHours = -1;
+
+            for (const [key, units] of split) {
+                const hours = areaOf(groups.get(key)!) / Math.max(haHourOf(units), 0.1);
+                if (hours > slowestHours) {
+                    slowest = key;
+                    slowestHours = hours;
+                }
+            }
+
+            if (slowest !== null) {
+                split.get(slowest)!.push(tractor);
+            }
+        }
+
+        return split;
+    }
+
+    /**
+     * Remove os maiores terrenos do lote até a duração total caber no limite do jogo
+     */
+    private fitToLimit(
+        farmId: number,
+        opType: string,
+        cropId: number | undefined,
+        tasks: AvailableTask[],
+        tractors: BatchPlan['tractors']
+    ): BatchPlan | null {
+        const totalHaHour = tractors.reduce((sum, t) => sum + t.haHour, 0);
+        if (totalHaHour <= 0) return null;
+
+        // Nota: haHour já considera a complexidade do terreno
+        const durationOf = (list: AvailableTask[]) =>
+            Math.ceil((list.reduce((sum, t) => sum + t.area, 0) / totalHaHour) * 3600);
+
+        const selected = [...tasks].sort((a, b) => a.area - b.area);
+        while (selected.length > 0 && durationOf(selected) > MAX_BATCH_SECONDS) {
+            const dropped = selected.pop()!;
+            this.advisor?.recordBlocked(dropped, 'over_limit', totalHaHour);
+            this.logger.debugLog(`[Batch] "${dropped.farmlandName}" não cabe no lote de ${opType}, fica para o próximo ciclo`);
+        }
+
+        if (selected.length === 0) {
+            this.logger.warn(
+                `⏱️ ${opType} ignorado na farm ${farmId}: nenhum terreno termina dentro do limite de ${MAX_BATCH_SECONDS / 3600}h`
+            );
+            return null;
+        }
+
+        return {
+            farmId,
+            opType,
+            cropId,
+            tasks: selected,
+            tractors,
+            estimatedDuration: durationOf(selected),
+        };
+    }
+}
@@ -0,0 +1,143 @@
+// ============================================
+// Farm Manager Bot - Crop Rotation Service
+// ============================================
+
+import path from 'path';
+import { AvailableTask, CropRotationStateFile, FieldRotationState, RotationConstraints } from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+
+const ROTATION_FILE_NAME = 'crop-rotation.json';
+
+// Culturas guardadas por terreno
+const HISTORY_SIZE = 10;
+
+export interface CropRotationSettings {
+    maxRepeats: number; // Vezes seguidas que uma cultura pode ser plantada no mesmo terreno (0 = sem limite)
+    followUps: Record<string, string[]>; // Cultura anterior -> culturas preferidas em seguida
+    farmPlans: Record<number, string[]>; // farmId -> sequência de culturas, repetida em ciclo
+}
+
+/**
+ * Guarda as culturas plantadas em cada terreno e define as restrições de rotação
+ * para a próxima semeadura:
+ * - bloqueia a cultura que já foi plantada `maxRepeats` vezes seguidas
+ * - com plano da farm, prefere a cultura seguinte do plano
+ * - sem plano, prefere as culturas configuradas para depois da anterior
+ *
+ * O histórico vem das semeaduras do bot e de `previousSeed`, que revela
+ * plantios feitos fora do bot. Os nomes de cultura são comparados em minúsculas.
+ */
+export class CropRotationService {
+    private filePath: string;
+    private logger: Logger;
+    private settings: CropRotationSettings;
+    private state: CropRotationStateFile;
+
+    constructor(stateDir: string, logger: Logger, settings: CropRotationSettings) {
+        this.filePath = path.join(stateDir, ROTATION_FILE_NAME);
+        this.logger = logger;
+        this.settings = settings;
+        this.state = this.load();
+    }
+
+    /**
+     * Atualiza o histórico com `previousSeed` e retorna as restrições para semear o terreno,
+     * ou null quando nenhuma regra se aplica
+     */
+    getConstraints(task: AvailableTask): RotationConstraints | null {
+        this.observe(task);
+
+        const history = this.getHistory(task.userFarmlandId);
+        const last = history[history.length - 1];
+        const blocked: string[] = [];
+        const reasons: string[] = [];
+
+        const { maxRepeats } = this.settings;
+        if (last && maxRepeats > 0 && history.length >= maxRepeats &&
+            history.slice(-maxRepeats).every(crop => crop === last)) {
+            blocked.push(last);
+            reasons.push(`${last} plantado ${maxRepeats}x seguida(s)`);
+        }
+
+        let preferred: string[] = [];
+        const plan = this.settings.farmPlans[task.farmId];
+
+        if (plan && plan.length > 0) {
+            const index = last ? plan.indexOf(last) : -1;
+            const next = plan[(index + 1) % plan.length];
+            preferred = [next];
+            reasons.push(`plano da farm ${task.farmId}: ${next}`);
+        } else if (last && this.settings.followUps[last]) {
+            preferred = this.settings.followUps[last];
+            reasons.push(`depois de ${last}: ${preferred.join(', ')}`);
+        }
+
+        if (blocked.length === 0 && preferred.length === 0) return null;
+
+        return { blocked, preferred, reason: reasons.join('; ') };
+    }
+
+    /**
+     * Registra a cultura semeada pelo bot
+     */
+    recordSeeding(task: AvailableTask): void {
+        if (task.type !== 'seeding' || !task.cropName) return;
+        this.append(task, task.cropName, 'bot');
+    }
+
+    /**
+     * Culturas plantadas no terreno, mais antiga primeiro
+     */
+    getHistory(userFarmlandId: number): string[] {
+        return (this.state.fields[String(userFarmlandId)]?.history || []).map(e => e.crop);
+    }
+
+    /**
+     * `previousSeed` diferente da última cultura registrada indica um plantio feito fora do bot
+     */
+    private observe(task: AvailableTask): void {
+        if (!task.previousCrop) return;
+
+        const previous = task.previousCrop.trim().toLowerCase();
+        const history = this.getHistory(task.userFarmlandId);
+
+        if (history[history.length - 1] !== previous) {
+            this.append(task, previous, 'game');
+        }
+    }
+
+    private append(task: AvailableTask, crop: string, source: 'bot' | 'game'): void {
+        const key = String(task.userFarmlandId);
+        const field: FieldRotationState = this.state.fields[key] ||
+            { farmId: task.farmId, farmlandName: task.farmlandName, history: [] };
+
+        field.farmlandName = task.farmlandName;
+        field.history.push({ crop: crop.trim().toLowerCase(), at: new Date().toISOString(), source });
+        field.history = field.history.slice(-HISTORY_SIZE);
+
+        this.state.fields[key] = field;
+        this.save();
+
+        this.logger.debugLog(
+            `[Rotation] "${task.farmlandName}": ${field.history.map(e => e.crop).join(' → ')}`
+        );
+    }
+
+    private load(): CropRotationStateFile {
+        try {
+            return readStateFile<CropRotationStateFile>(this.filePath, { fields: {} });
+        } catch (error) {
+            this.logger.warn(`Histórico de rotação ilegível (${this.filePath}), começando do zero: ${(error as Error).message}`);
+            return { fields: {} };
+        }
+    }
+
+    private save(): void {
+        try {
+            writeStateFile(this.filePath, this.state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar o histórico de rotação: ${(error as Error).message}`);
+        }
+    }
+}
@@ -11,6 +11,7 @@ import {
     AvailableTask,
     FarmlandState,
     Farm,
+    HarvestFarm,
 } from '../types';
 import { Logger } from '../utils/logger';
 
@@ -92,6 +93,49 @@ export class FarmService {
         return this.extractTasksFromFarms(response.farms, 'seeding');
     }
 
+    /**
+     * Obtém terrenos semeados ou em crescimento que podem ser fertilizados.
+     * Só retorna tarefas quando a fertilização está desbloqueada na conta.
+     */
+    async getFertilizingTasks(): Promise<AvailableTask[]> {
+        const response = await this.api.getCultivatingTab();
+
+        if (response.fertilizingUnlocked !== 1 || response.disableFertilizing === 1) {
+            this.logger.debugLog('[Fertilizing] Fertilização bloqueada ou desativada na conta');
+            return [];
+        }
+
+        if (!response.farms) {
+            this.logger.debugLog('[Fertilizing] Nenhuma farm encontrada na resposta');
+            return [];
+        }
+
+        const tasks: AvailableTask[] = [];
+
+        for (const [farmId, farm] of Object.entries(response.farms)) {
+            const categories = [farm.farmlands.seeded, farm.farmlands.growing];
+
+            for (const category of categories) {
+                if (!category?.data) continue;
+
+                for (const farmland of Object.values(category.data)) {
+                    tasks.push({
+                        type: 'fertilizing',
+                        farmId: Number(farmId),
+                        farmlandId: farmland.farmlandId,
+                        userFarmlandId: farmland.id,
+                        area: farmland.area,
+                        complexityIndex: farmland.complexityIndex,
+                        farmlandName: farmland.farmlandName,
+                        cropYield: farmland.cropYield,
+                    });
+                }
+            }
+        }
+
+        return tasks;
+    }
+
     /**
      * Obtém todas as tarefas disponíveis para colheita
      * A estrutura da resposta de Harvest é diferente das outras abas!
@@ -113,25 +157,21 @@ export class FarmService {
      * Estrutura: farms[farmId].farmlands[cropTypeId].data[farmlandId]
      * Aplica filtro de 6 horas para evitar colher terras recentemente colhidas
      */
-    private extractHarvestTasks(farms: Record<string, any>): AvailableTask[] {
+    private extractHarvestTasks(farms: Record<string, HarvestFarm>): AvailableTask[] {
         const tasks: AvailableTask[] = [];
 
         for (const [farmId, farm] of Object.entries(farms)) {
-            const farmlands = (farm as any).farmlands;
+            const farmlands = farm.farmlands;
 
             if (!farmlands) continue;
 
             // farmlands é agrupado por tipo de cultura (1, 2, etc), não por estado
-            for (const [cropTypeId, cropFarmlands] of Object.entries(farmlands)) {
-                const cropData = cropFarmlands as any;
-
+            for (const [cropTypeId, cropData] of Object.entries(farmlands)) {
                 if (!cropData.data || cropData.canHarvest !== 1) {
                     continue;
                 }
 
-                for (const [farmlandId, farmland] of Object.entries(cropData.data)) {
-                    const fl = farmland as any;
-
+                for (const [farmlandId, fl] of Object.entries(cropData.data)) {
                     if (fl.canHarvest === 1) {
                         // Verificar filtro de 6 horas
                         if (!this.canHarvest(fl.id)) {
@@ -219,6 +259,7 @@ export class FarmService {
                                 area: farmland.area,
                                 complexityIndex: farmland.complexityIndex,
                                 farmlandName: farmland.farmlandName,
+                                previousCrop: farmland.previousSeed?.hasPrevious ? farmland.previousSeed.name : undefined,
                             });
                         }
                     }
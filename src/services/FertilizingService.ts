@@ -0,0 +1,173 @@
+// ============================================
+// Farm Manager Bot - Fertilizing Service
+// ============================================
+
+import { ApiClient } from '../api/client';
+import { AvailableTask, CropValuesResponse, FarmlandDetailsResponse } from '../types';
+import { Logger } from '../utils/logger';
+import { FuelForecastService } from './FuelForecastService';
+import { TractorService } from './TractorService';
+
+export interface FertilizingSettings {
+    yieldBonusPct: number; // Aumento de produtividade esperado (%)
+    minGain: number; // Ganho líquido mínimo ($) para valer a pena
+    costPerHa: number; // Custo do fertilizante por hectare ($)
+    maxTractors: number;
+}
+
+export interface FertilizingCandidate {
+    task: AvailableTask;
+    cropName: string;
+    growTimeRemain: number; // em segundos
+    estimatedCost: number; // fertilizante + combustível ($)
+    expectedGain: number; // receita extra estimada menos o custo ($)
+}
+
+export interface FertilizingPlan extends FertilizingCandidate {
+    tractors: { tractorId: number; implementId?: number; haHour: number }[];
+    estimatedDuration: number; // em segundos
+}
+
+export class FertilizingService {
+    private api: ApiClient;
+    private logger: Logger;
+    private tractorService: TractorService;
+    private fuelForecast: FuelForecastService | null;
+
+    constructor(
+        api: ApiClient,
+        logger: Logger,
+        tractorService: TractorService,
+        fuelForecast: FuelForecastService | null = null
+    ) {
+        this.api = api;
+        this.logger = logger;
+        this.tractorService = tractorService;
+        this.fuelForecast = fuelForecast;
+    }
+
+    /**
+     * Avalia os terrenos candidatos e retorna apenas os que compensam fertilizar:
+     * o jogo permite, há equipamento livre, a operação termina antes da maturação
+     * e o ganho líquido estimado atinge o mínimo configurado.
+     */
+    async planFertilizing(tasks: AvailableTask[], settings: FertilizingSettings): Promise<FertilizingPlan[]> {
+        const assessed = await this.assess(tasks, settings);
+        const plans: FertilizingPlan[] = [];
+
+        for (const { candidate, details } of assessed) {
+            const plan = this.evaluateEquipment(candidate, details, settings);
+            if (plan) {
+                plans.push(plan);
+            }
+        }
+
+        // Maior ganho primeiro: o equipamento disponível vai para quem rende mais
+        return plans.sort((a, b) => b.expectedGain - a.expectedGain);
+    }
+
+    /**
+     * Terrenos que o jogo permite fertilizar e cujo ganho líquido (receita extra
+     * menos fertilizante e combustível) atinge o mínimo, sem olhar o equipamento livre
+     */
+    async findWorthwhile(tasks: AvailableTask[], settings: FertilizingSettings): Promise<FertilizingCandidate[]> {
+        const assessed = await this.assess(tasks, settings);
+        return assessed.map(a => a.candidate);
+    }
+
+    private async assess(
+        tasks: AvailableTask[],
+        settings: FertilizingSettings
+    ): Promise<{ candidate: FertilizingCandidate; details: FarmlandDetailsResponse }[]> {
+        if (tasks.length === 0) return [];
+
+        const cropValues = await this.api.getCropValues();
+        const fuelCost = await this.getFuelCost();
+        const assessed: { candidate: FertilizingCandidate; details: FarmlandDetailsResponse }[] = [];
+
+        for (const task of tasks) {
+            const details = await this.api.getFarmlandDetails(task.farmlandId);
+            const candidate = this.evaluateGain(task, details, cropValues, fuelCost, settings);
+            if (candidate) {
+                assessed.push({ candidate, details });
+            }
+        }
+
+        return assessed;
+    }
+
+    private evaluateGain(
+        task: AvailableTask,
+        details: FarmlandDetailsResponse,
+        cropValues: CropValuesResponse,
+        fuelCost: number,
+        settings: FertilizingSettings
+    ): FertilizingCandidate | null {
+        if (details.canFertilize !== 1) {
+            this.logger.debugLog(`[Fertilizing] "${task.farmlandName}" não pode ser fertilizado agora`);
+            return null;
+        }
+
+        const cropValue = cropValues.cropValues[String(details.farmland.cropId)];
+        const expectedYieldKg = task.area * (task.cropYield || 0);
+        const revenue = expectedYieldKg * (settings.yieldBonusPct / 100) * ((cropValue?.cropValuePer1k || 0) / 1000);
+
+        // Sem consumo conhecido para fertilizar, só o fertilizante entra no custo
+        const fuelLiters = this.fuelForecast?.estimate({ type: 'fertilizing', farmId: task.farmId, area: task.area }) ?? 0;
+        const estimatedCost = Math.round(task.area * settings.costPerHa + (fuelLiters / 1000) * fuelCost);
+        const expectedGain = Math.round(revenue) - estimatedCost;
+
+        if (expectedGain < settings.minGain) {
+            this.logger.debugLog(
+                `[Fertilizing] "${task.farmlandName}" não compensa: receita extra $${Math.round(revenue).toLocaleString()} ` +
+                `- custo $${estimatedCost.toLocaleString()} = $${expectedGain.toLocaleString()} ` +
+                `< mínimo $${settings.minGain.toLocaleString()}`
+            );
+            return null;
+        }
+
+        return {
+            task,
+            cropName: details.farmland.cropName || `Cultura ${details.farmland.cropId}`,
+            growTimeRemain: details.operations?.growTimeRemain || 0,
+            estimatedCost,
+            expectedGain,
+        };
+    }
+
+    private evaluateEquipment(
+        candidate: FertilizingCandidate,
+        details: FarmlandDetailsResponse,
+        settings: FertilizingSettings
+    ): FertilizingPlan | null {
+        const { task } = candidate;
+        const tractors = this.tractorService.selectEquipmentUnits(details.equipment?.fertilizing, settings.maxTractors);
+        if (tractors.length === 0) {
+            this.logger.debugLog(`[Fertilizing] Nenhum equipamento de fertilização disponível para "${task.farmlandName}"`);
+            return null;
+        }
+
+        const totalHaHour = tractors.reduce((sum, t) => sum + t.haHour, 0);
+        const estimatedDuration = totalHaHour > 0
+            ? Math.ceil((task.area / totalHaHour) * 3600)
+            : details.equipment.fertilizing.data.opDuration || 0;
+
+        // Fertilizar depois que a cultura amadurece atrasaria a colheita
+        const { growTimeRemain } = candidate;
+        if (growTimeRemain > 0 && estimatedDuration >= growTimeRemain) {
+            this.logger.debugLog(
+                `[Fertilizing] "${task.farmlandName}" amadurece em ${Math.ceil(growTimeRemain / 60)}min, ` +
+                `antes da fertilização terminar (~${Math.ceil(estimatedDuration / 60)}min)`
+            );
+            return null;
+        }
+
+        return { ...candidate, tractors, estimatedDuration };
+    }
+
+    private async getFuelCost(): Promise<number> {
+        if (!this.fuelForecast) return 0;
+        const status = await this.api.getFuelSilo();
+        return status.fuelCost;
+    }
+}
@@ -0,0 +1,327 @@
+// ============================================
+// Farm Manager Bot - Fleet Advisor Service
+// ============================================
+
+import path from 'path';
+import { ApiClient } from '../api/client';
+import {
+    AvailableTask,
+    BottleneckEvent,
+    BottleneckReason,
+    FleetAdvisorStateFile,
+    MachineOffer,
+    PurchaseRecommendation,
+} from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+
+const ADVISOR_FILE_NAME = 'fleet-advisor.json';
+
+// Limite de duração de uma operação no jogo (6 horas)
+const MAX_OPERATION_SECONDS = 6 * 3600;
+
+// O mesmo gargalo no mesmo terreno só conta uma vez neste intervalo
+const DEDUPE_MS = 6 * 3600 * 1000;
+
+// Horas por dia que uma unidade nova consegue trabalhar
+const WORK_HOURS_PER_DAY = 24;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export interface FleetAdvisorOptions {
+    windowDays: number; // Dias de histórico de gargalos considerados
+    slowHours: number; // Operações mais longas que isso contam como lentas
+    valuePerHa: number; // Valor ($) de cada hectare que deixa de esperar por máquina
+}
+
+export interface AutoBuySettings {
+    budget: number; // Gasto total máximo com compras automáticas ($)
+    maxPaybackDays: number; // Retorno máximo estimado para comprar
+}
+
+export interface BottleneckSummary {
+    opType: string;
+    noEquipment: number;
+    overLimit: number;
+    slow: number;
+    area: number;
+}
+
+/**
+ * Acompanha, ao longo dos dias, as operações bloqueadas (sem máquina, acima de 6h)
+ * ou lentas e estima o retorno de comprar uma máquina ou implemento do mercado.
+ *
+ * Para cada oferta, conta quantos hectares por dia deixariam de esperar com ela:
+ * - sem máquina: a área inteira
+ * - acima de 6h: a área, se com a nova unidade a operação couber no limite
+ * - lenta: a parte da área que a nova unidade faria
+ * Cada terreno conta no máximo uma vez por operação no período.
+ * O ganho diário é esse total vezes o valor por hectare, menos o combustível.
+ */
+export class FleetAdvisorService {
+    private api: ApiClient;
+    private logger: Logger;
+    private filePath: string;
+    private options: FleetAdvisorOptions;
+    private state: FleetAdvisorStateFile;
+
+    constructor(api: ApiClient, logger: Logger, stateDir: string, options: FleetAdvisorOptions) {
+        this.api = api;
+        this.logger = logger;
+        this.filePath = path.join(stateDir, ADVISOR_FILE_NAME);
+        this.options = options;
+        this.state = this.load();
+    }
+
+    /**
+     * Registra uma operação que não pôde ser iniciada
+     */
+    recordBlocked(task: AvailableTask, reason: Exclude<BottleneckReason, 'slow'>, haHour?: number): void {
+        this.record(task, reason, haHour);
+    }
+
+    /**
+     * Registra uma operação iniciada; conta como gargalo se passar do limite de lentidão
+     */
+    recordOperation(task: AvailableTask, haHour: number, estimatedDuration: number): void {
+        if (estimatedDuration <= this.options.slowHours * 3600) return;
+        this.record(task, 'slow', haHour);
+    }
+
+    /**
+     * Gargalos do período por operação, mais frequentes primeiro
+     */
+    getSummary(): BottleneckSummary[] {
+        const byType = new Map<string, BottleneckSummary>();
+        const counted = new Set<string>();
+
+        for (const event of this.recentEvents()) {
+            const summary = byType.get(event.opType) ||
+                { opType: event.opType, noEquipment: 0, overLimit: 0, slow: 0, area: 0 };
+
+            if (event.reason === 'no_equipment') summary.noEquipment++;
+            else if (event.reason === 'over_limit') summary.overLimit++;
+            else summary.slow++;
+            if (!counted.has(`${event.opType}:${event.userFarmlandId}`)) {
+                counted.add(`${event.opType}:${event.userFarmlandId}`);
+                summary.area += event.area;
+            }
+
+            byType.set(event.opType, summary);
+        }
+
+        const total = (s: BottleneckSummary) => s.noEquipment + s.overLimit + s.slow;
+        return Array.from(byType.values()).sort((a, b) => total(b) - total(a));
+    }
+
+    /**
+     * Verifica se já passou o intervalo desde o último relatório
+     */
+    isReportDue(intervalHours: number): boolean {
+        if (!this.state.lastReportAt) return true;
+        return Date.now() - Date.parse(this.state.lastReportAt) >= intervalHours * 3600 * 1000;
+    }
+
+    markReported(): void {
+        this.state.lastReportAt = new Date().toISOString();
+        this.save();
+    }
+
+    /**
+     * Avalia as ofertas do mercado contra os gargalos de cada farm.
+     * Ordena pelo retorno (dias para a compra se pagar).
+     */
+    async recommend(): Promise<{ recommendations: PurchaseRecommendation[]; account: number }> {
+        const events = this.recentEvents();
+        if (events.length === 0) return { recommendations: [], account: 0 };
+
+        const market = await this.api.getMachineMarket();
+        const fuel = await this.api.getFuelSilo();
+        const days = this.observedDays(events);
+        const recommendations: PurchaseRecommendation[] = [];
+
+        for (const [key, group] of this.groupByFarmAndType(events)) {
+            const [farmId, opType] = [Number(key.split(':')[0]), key.split(':')[1]];
+
+            for (const offer of market.machines.filter(m => m.type === opType && m.haHour > 0)) {
+                const recommendation = this.evaluate(offer, farmId, group, days, fuel.fuelCost);
+                if (recommendation) {
+                    recommendations.push(recommendation);
+                }
+            }
+        }
+
+        recommendations.sort((a, b) => a.paybackDays - b.paybackDays);
+        return { recommendations, account: market.user.account };
+    }
+
+    /**
+     * Compra a melhor recomendação que se paga no prazo e cabe no orçamento e no saldo
+     */
+    async autoBuy(
+        recommendations: PurchaseRecommendation[],
+        account: number,
+        settings: AutoBuySettings
+    ): Promise<PurchaseRecommendation | null> {
+        const remaining = settings.budget - this.getSpent();
+
+        const choice = recommendations.find(r =>
+            r.paybackDays <= settings.maxPaybackDays &&
+            r.offer.price <= remaining &&
+            r.offer.price <= account
+        );
+
+        if (!choice) {
+            this.logger.debugLog(
+                `[FleetAdvisor] Nenhuma compra dentro do orçamento (restam $${Math.max(remaining, 0).toLocaleString()}) ` +
+                `com retorno em até ${settings.maxPaybackDays} dia(s)`
+            );
+            return null;
+        }
+
+        const response = await this.api.buyMachine(choice.offer.id, choice.farmId);
+
+        if (response.success !== 1) {
+            const errorMsg = response.errors?.join(', ') || 'Erro desconhecido';
+            this.logger.warn(`Falha ao comprar "${choice.offer.name}": ${errorMsg}`);
+            return null;
+        }
+
+        this.state.purchases.push({
+            at: new Date().toISOString(),
+            offerId: choice.offer.id,
+            name: choice.offer.name,
+            farmId: choice.farmId,
+            opType: choice.offer.type,
+            cost: response.cost || choice.offer.price,
+        });
+
+        // O gargalo atendido pela compra não deve gerar outra compra
+        this.state.events = this.state.events.filter(e => !(e.farmId === choice.farmId && e.opType === choice.offer.type));
+        this.save();
+
+        this.logger.success(
+            `🛒 Comprado(a) "${choice.offer.name}" (${choice.offer.type}, ${choice.offer.haHour} ha/h) para a farm ${choice.farmId} ` +
+            `por $${(response.cost || choice.offer.price).toLocaleString()}`
+        );
+        return choice;
+    }
+
+    getSpent(): number {
+        return this.state.purchases.reduce((sum, p) => sum + p.cost, 0);
+    }
+
+    private evaluate(
+        offer: MachineOffer,
+        farmId: number,
+        events: BottleneckEvent[],
+        days: number,
+        fuelCost: number
+    ): PurchaseRecommendation | null {
+        // O mesmo terreno é registrado de novo enquanto o gargalo dura: conta uma vez no período
+        const byField = new Map<number, number>();
+        for (const event of events) {
+            const area = this.unlockedArea(event, offer.haHour);
+            byField.set(event.userFarmlandId, Math.max(byField.get(event.userFarmlandId) || 0, area));
+        }
+        const unlockedArea = Array.from(byField.values()).reduce((sum, area) => sum + area, 0);
+        const haPerDay = Math.min(unlockedArea / days, offer.haHour * WORK_HOURS_PER_DAY);
+
+        // fuelCost é o preço por 1000L
+        const fuelPerDay = (haPerDay / offer.haHour) * offer.fuelHour * fuelCost / 1000;
+        const gainPerDay = haPerDay * this.options.valuePerHa - fuelPerDay;
+
+        if (gainPerDay <= 0) return null;
+
+        return {
+            offer,
+            farmId,
+            haPerDay,
+            gainPerDay,
+            paybackDays: offer.price / gainPerDay,
+        };
+    }
+
+    /**
+     * Hectares do gargalo que uma unidade com `haHour` a mais teria atendido
+     */
+    private unlockedArea(event: BottleneckEvent, haHour: number): number {
+        const current = event.haHour || 0;
+
+        if (event.reason === 'no_equipment') return event.area;
+
+        if (event.reason === 'over_limit') {
+            return (event.area / (current + haHour)) * 3600 <= MAX_OPERATION_SECONDS ? event.area : 0;
+        }
+
+        return event.area * (haHour / (current + haHour));
+    }
+
+    private groupByFarmAndType(events: BottleneckEvent[]): Map<string, BottleneckEvent[]> {
+        const groups = new Map<string, BottleneckEvent[]>();
+
+        for (const event of events) {
+            const key = `${event.farmId}:${event.opType}`;
+            const group = groups.get(key) || [];
+            group.push(event);
+            groups.set(key, group);
+        }
+
+        return groups;
+    }
+
+    /**
+     * Dias cobertos pelo histórico, entre 1 e a janela configurada
+     */
+    private observedDays(events: BottleneckEvent[]): number {
+        const span = (Date.now() - Date.parse(events[0].at)) / DAY_MS;
+        return Math.min(Math.max(span, 1), this.options.windowDays);
+    }
+
+    private record(task: AvailableTask, reason: BottleneckReason, haHour?: number): void {
+        const now = Date.now();
+        const duplicate = this.state.events.some(e =>
+            e.userFarmlandId === task.userFarmlandId &&
+            e.opType === task.type &&
+            e.reason === reason &&
+            now - Date.parse(e.at) < DEDUPE_MS
+        );
+        if (duplicate) return;
+
+        this.state.events = this.recentEvents();
+        this.state.events.push({
+            at: new Date(now).toISOString(),
+            opType: task.type,
+            farmId: task.farmId,
+            userFarmlandId: task.userFarmlandId,
+            area: task.area,
+            reason,
+            haHour,
+        });
+        this.save();
+
+        this.logger.debugLog(`[FleetAdvisor] Gargalo ${reason} em ${task.type} ("${task.farmlandName}", ${task.area}ha)`);
+    }
+
+    private recentEvents(): BottleneckEvent[] {
+        const since = Date.now() - this.options.windowDays * DAY_MS;
+        return this.state.events.filter(e => Date.parse(e.at) >= since);
+    }
+
+    private load(): FleetAdvisorStateFile {
+        try {
+            return readStateFile<FleetAdvisorStateFile>(this.filePath, { events: [], purchases: [] });
+        } catch (error) {
+            this.logger.warn(`Histórico de gargalos ilegível (${this.filePath}), começando do zero: ${(error as Error).message}`);
+            return { events: [], purchases: [] };
+        }
+    }
+
+    private save(): void {
+        try {
+            writeStateFile(this.filePath, this.state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar o histórico de gargalos: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,172 @@
+// ============================================
+// Farm Manager Bot - Fuel Forecast Service
+// ============================================
+
+import { ApiClient } from '../api/client';
+import { AvailableTask, BatchActionResponse, CultivatingTabResponse, FarmTractors } from '../types';
+import { Logger } from '../utils/logger';
+
+// Peso da observação mais recente no consumo aprendido por hectare
+const LEARNING_RATE = 0.3;
+
+export interface FuelForecast {
+    readyLiters: number; // Tarefas que o ciclo pode iniciar agora
+    upcomingHarvestLiters: number; // Colheitas que amadurecem dentro do horizonte
+    byOpType: Record<string, number>;
+    unknownTasks: number; // Tarefas sem máquina ou consumo conhecido
+}
+
+/**
+ * Estima o combustível do trabalho previsto (litros por hectare da frota de cada farm:
+ * soma de `fuelHour` / soma de `haHour`, ou o consumo observado em ações anteriores)
+ * e controla o combustível liberado para as tarefas do ciclo.
+ *
+ * Quando o combustível não cobre tudo, as colheitas têm prioridade: as demais
+ * operações não podem usar a reserva das colheitas que estão para amadurecer,
+ * e só as colheitas podem usar o combustível abaixo do nível mínimo.
+ */
+export class FuelForecastService {
+    private api: ApiClient;
+    private logger: Logger;
+
+    // farmId:opType -> litros por hectare, da última leitura da frota
+    private fleetRates: Map<string, number> = new Map();
+
+    // opType -> litros por hectare observados em `fuelUsed`
+    private learnedRates: Map<string, number> = new Map();
+
+    // Litros liberados para as tarefas do ciclo (Infinity sem previsão)
+    private budget: number = Infinity;
+    private harvestReserve: number = 0;
+
+    // Combustível abaixo do nível mínimo, liberado só para colheitas
+    private minLevelReserve: number = 0;
+
+    constructor(api: ApiClient, logger: Logger) {
+        this.api = api;
+        this.logger = logger;
+    }
+
+    /**
+     * Libera todas as tarefas até a etapa de combustível definir o orçamento do ciclo
+     */
+    startCycle(): void {
+        this.budget = Infinity;
+        this.harvestReserve = 0;
+        this.minLevelReserve = 0;
+    }
+
+    /**
+     * Estima o combustível das tarefas prontas e das colheitas dentro do horizonte
+     */
+    async forecast(tasks: AvailableTask[], horizonHours: number): Promise<FuelForecast> {
+        const tab = await this.api.getCultivatingTab();
+        this.loadFleetRates(tab);
+
+        const byOpType: Record<string, number> = {};
+        let readyLiters = 0;
+        let unknownTasks = 0;
+
+        for (const task of tasks) {
+            const liters = this.estimate(task);
+            if (liters === null) {
+                unknownTasks++;
+                continue;
+            }
+            readyLiters += liters;
+            byOpType[task.type] = (byOpType[task.type] || 0) + liters;
+        }
+
+        const pending = await this.api.getPendingTab();
+        let upcomingHarvestLiters = 0;
+
+        for (const field of Object.values(pending.farmlands?.maturing || {})) {
+            if (field.opTimeRemain > horizonHours * 3600) continue;
+            const rate = this.rateFor(field.farmId, 'harvesting');
+            if (rate !== null) {
+                upcomingHarvestLiters += field.area * rate;
+            }
+        }
+
+        return { readyLiters, upcomingHarvestLiters, byOpType, unknownTasks };
+    }
+
+    /**
+     * Combustível estimado (L) para uma tarefa, ou null sem consumo conhecido
+     */
+    estimate(task: Pick<AvailableTask, 'type' | 'farmId' | 'area'>): number | null {
+        const rate = this.rateFor(task.farmId, task.type);
+        return rate !== null ? Math.ceil(task.area * rate) : null;
+    }
+
+    /**
+     * Define o combustível disponível para as tarefas do ciclo (o que passa do nível mínimo)
+     * e quanto dele fica para as colheitas previstas. As colheitas também podem usar o nível mínimo.
+     */
+    setBudget(levelLiters: number, minLevel: number, harvestReserve: number): void {
+        this.budget = Math.max(0, levelLiters - minLevel);
+        this.minLevelReserve = Math.max(0, Math.min(levelLiters, minLevel));
+        this.harvestReserve = Math.max(0, harvestReserve);
+    }
+
+    /**
+     * Verifica se há combustível para as tarefas e desconta do orçamento.
+     * Tarefas sem consumo conhecido são sempre liberadas.
+     */
+    admit(tasks: AvailableTask[]): boolean {
+        if (this.budget === Infinity) return true;
+
+        const liters = tasks.reduce((sum, t) => sum + (this.estimate(t) || 0), 0);
+        const isHarvest = tasks.every(t => t.type === 'harvesting');
+        const available = isHarvest
+            ? this.budget + this.minLevelReserve
+            : this.budget - this.harvestReserve;
+
+        if (liters > available) {
+            const names = tasks.map(t => `"${t.farmlandName}"`).join(', ');
+            this.logger.warn(
+                `⛽ ${tasks[0].type} em ${names} fica para depois: precisa de ~${liters.toLocaleString()}L, ` +
+                `${Math.max(0, Math.floor(available)).toLocaleString()}L liberados` +
+                (isHarvest ? '' : ` (${Math.ceil(this.harvestReserve).toLocaleString()}L reservados para colheitas)`)
+            );
+            return false;
+        }
+
+        this.budget -= liters;
+        return true;
+    }
+
+    /**
+     * Aprende o consumo por hectare com o combustível informado pela ação
+     */
+    observeBatchResult(response: BatchActionResponse, opType: string, area: number): void {
+        if (!(response.fuelUsed > 0) || area <= 0) return;
+
+        const observed = response.fuelUsed / area;
+        const previous = this.learnedRates.get(opType);
+        this.learnedRates.set(
+            opType,
+            previous === undefined ? observed : previous + LEARNING_RATE * (observed - previous)
+        );
+    }
+
+    private rateFor(farmId: number, opType: string): number | null {
+        return this.fleetRates.get(`${farmId}:${opType}`) ?? this.learnedRates.get(opType) ?? null;
+    }
+
+    private loadFleetRates(tab: CultivatingTabResponse): void {
+        this.fleetRates.clear();
+
+        for (const [farmId, farm] of Object.entries(tab.tractors || {})) {
+            for (const opType of ['plowing', 'clearing', 'seeding', 'harvesting'] as const) {
+                const units = Object.values((farm as FarmTractors)[opType]?.data || {});
+                const haHour = units.reduce((sum, u) => sum + u.haHour, 0);
+                const fuelHour = units.reduce((sum, u) => sum + u.fuelHour, 0);
+
+                if (haHour > 0) {
+                    this.fleetRates.set(`${farmId}:${opType}`, fuelHour / haHour);
+                }
+            }
+        }
+    }
+}
@@ -2,21 +2,65 @@
 // Farm Manager Bot - Fuel Service
 // ============================================
 
+import path from 'path';
 import { ApiClient } from '../api/client';
-import { FuelSiloResponse, BuyFuelResponse } from '../types';
+import { FuelHistoryEntry, FuelPriceStateFile, FuelSiloResponse, BuyFuelResponse } from '../types';
 import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
 
-// Configurações de combustível
-const FUEL_MIN_LEVEL = 1000; // Mínimo de litros para manter
-const FUEL_PRICE_THRESHOLD = 1000; // Preço considerado "baixo" para comprar
+const PRICE_FILE_NAME = 'fuel-prices.json';
 
+// Intervalo mínimo entre amostras próprias do preço atual (o histórico do jogo já vem espaçado)
+const SAMPLE_INTERVAL_SECONDS = 30 * 60;
+
+export interface FuelStrategySettings {
+    minLevel: number; // Litros abaixo dos quais sempre compra
+    targetLevel: number; // Nível buscado ao comprar o mínimo ou antes de uma alta
+    cheapPercentile: number; // Preço até este percentil da janela: encher o silo
+    expensivePercentile: number; // Preço a partir deste percentil: comprar só o mínimo
+    windowHours: number; // Janela dos percentis
+    trendHours: number; // Janela da tendência
+    risingTrendPct: number; // Alta (% por dia) que antecipa a compra até o nível alvo
+    historyDays: number; // Tempo que o histórico fica guardado
+    minSamples: number; // Amostras na janela para confiar nos percentis
+}
+
+export interface FuelPriceStats {
+    samples: number;
+    percentile: number | null; // Posição do preço atual na janela (0-100), null sem histórico suficiente
+    trendPctPerDay: number | null; // Variação estimada por dia (%), null sem histórico suficiente
+}
+
+export interface FuelDecision {
+    shouldBuy: boolean;
+    reason: string;
+    currentLevel: number;
+    currentPrice: number;
+    maxCanBuy: number;
+    amount: number; // Litros a comprar
+    stats: FuelPriceStats;
+}
+
+/**
+ * Compra combustível guiada pelo histórico de preços (guardado em disco):
+ * - abaixo do nível mínimo compra sempre, só até o nível alvo
+ * - preço entre os mais baratos da janela: enche o silo
+ * - preço caro: compra só o mínimo
+ * - preço intermediário em alta: compra até o nível alvo antes de subir mais
+ */
 export class FuelService {
     private api: ApiClient;
     private logger: Logger;
+    private filePath: string;
+    private settings: FuelStrategySettings;
+    private state: FuelPriceStateFile;
 
-    constructor(api: ApiClient, logger: Logger) {
+    constructor(api: ApiClient, logger: Logger, stateDir: string, settings: FuelStrategySettings) {
         this.api = api;
         this.logger = logger;
+        this.filePath = path.join(stateDir, PRICE_FILE_NAME);
+        this.settings = settings;
+        this.state = this.load();
     }
 
     /**
@@ -27,52 +71,13 @@ export class FuelService {
     }
 
     /**
-     * Verifica se precisa comprar combustível
-     * Retorna true se:
-     * - Combustível está abaixo de 1000L
-     * - OU preço atual está abaixo de 1000 (bom preço)
+     * Atualiza o histórico com o status atual e decide se e quanto comprar
+     * para o trabalho previsto (`requiredLiters`)
      */
-    async shouldBuyFuel(): Promise<{
-        shouldBuy: boolean;
-        reason: string;
-        currentLevel: number;
-        currentPrice: number;
-        maxCanBuy: number;
-    }> {
+    async shouldBuyFuel(requiredLiters: number = 0): Promise<FuelDecision> {
         const status = await this.getFuelStatus();
-        const currentLevel = status.fuelSilo.siloHolding;
-        const currentPrice = status.fuelCost;
-        const remainingCapacity = status.fuelSilo.remainingCapacity;
-
-        // Verificar se está abaixo do mínimo
-        if (currentLevel < FUEL_MIN_LEVEL) {
-            return {
-                shouldBuy: true,
-                reason: `Combustível baixo (${currentLevel}L < ${FUEL_MIN_LEVEL}L)`,
-                currentLevel,
-                currentPrice,
-                maxCanBuy: remainingCapacity,
-            };
-        }
-
-        // Verificar se o preço está bom para encher
-        if (currentPrice < FUEL_PRICE_THRESHOLD && remainingCapacity > 0) {
-            return {
-                shouldBuy: true,
-                reason: `Preço baixo ($${currentPrice}/1000L < $${FUEL_PRICE_THRESHOLD})`,
-                currentLevel,
-                currentPrice,
-                maxCanBuy: remainingCapacity,
-            };
-        }
-
-        return {
-            shouldBuy: false,
-            reason: 'Combustível OK',
-            currentLevel,
-            currentPrice,
-            maxCanBuy: remainingCapacity,
-        };
+        this.recordPrices(status);
+        return this.decide(status, requiredLiters);
     }
 
     /**
@@ -83,77 +88,77 @@ export class FuelService {
     }
 
     /**
-     * Verifica e compra combustível automaticamente se necessário
-     * Retorna true se comprou, false se não precisou
+     * Verifica e compra combustível automaticamente se necessário,
+     * considerando o combustível do trabalho previsto (`requiredLiters`).
+     * Retorna o nível do silo após a compra.
      */
-    async checkAndBuyFuel(): Promise<boolean> {
+    async checkAndBuyFuel(requiredLiters: number = 0): Promise<number> {
         const status = await this.getFuelStatus();
-        const currentLevel = status.fuelSilo.siloHolding;
-        const currentPrice = status.fuelCost;
-        const remainingCapacity = status.fuelSilo.remainingCapacity;
-        const accountBalance = status.user.account;
+        this.recordPrices(status);
 
         // Log do status com saldo
         this.logger.fuel(
-            `Combustível: ${currentLevel.toLocaleString()}L | ` +
-            `Preço: $${currentPrice.toLocaleString()}/1000L | ` +
-            `💰 Saldo: $${accountBalance.toLocaleString()}`
+            `Combustível: ${status.fuelSilo.siloHolding.toLocaleString()}L | ` +
+            `Preço: $${status.fuelCost.toLocaleString()}/1000L | ` +
+            `💰 Saldo: $${status.user.account.toLocaleString()}`
         );
 
-        // Verificar se precisa comprar
-        let shouldBuy = false;
-        let reason = '';
-
-        if (currentLevel < FUEL_MIN_LEVEL) {
-            shouldBuy = true;
-            reason = `Combustível baixo (${currentLevel}L < ${FUEL_MIN_LEVEL}L)`;
-        } else if (currentPrice < FUEL_PRICE_THRESHOLD && remainingCapacity > 0) {
-            shouldBuy = true;
-            reason = `Preço baixo ($${currentPrice}/1000L < $${FUEL_PRICE_THRESHOLD})`;
-        }
+        const decision = this.decide(status, requiredLiters);
+        const currentLevel = status.fuelSilo.siloHolding;
 
-        if (!shouldBuy) {
-            this.logger.debugLog(`[Fuel] Combustível OK`);
-            return false;
+        if (!decision.shouldBuy) {
+            this.logger.fuel(`Sem compra: ${decision.reason}`);
+            return currentLevel;
         }
 
-        this.logger.info(`⛽ ${reason}`);
-
-        // Calcular quanto comprar
-        // Se está baixo, comprar até o mínimo + margem
-        // Se preço está bom, encher o tanque
-        let amountToBuy: number;
-
-        if (currentLevel < FUEL_MIN_LEVEL) {
-            // Comprar para ficar com 2000L (margem de segurança)
-            const targetLevel = 2000;
-            amountToBuy = Math.min(targetLevel - currentLevel, remainingCapacity);
-        } else {
-            // Preço bom - encher o tanque
-            amountToBuy = remainingCapacity;
-        }
+        this.logger.info(`⛽ ${decision.reason}`);
 
-        if (amountToBuy <= 0) {
+        if (decision.amount <= 0) {
             this.logger.warn('Silo de combustível está cheio');
-            return false;
+            return currentLevel;
         }
 
         try {
-            const result = await this.buyFuel(amountToBuy);
+            const result = await this.buyFuel(decision.amount);
 
             if (result.success) {
                 this.logger.success(
                     `⛽ Comprado ${result.amount.toLocaleString()}L de combustível por $${result.cost.toLocaleString()}`
                 );
-                return true;
+                return currentLevel + result.amount;
             } else {
                 this.logger.warn('Falha ao comprar combustível');
-                return false;
+                return currentLevel;
             }
         } catch (error) {
             this.logger.error('Erro ao comprar combustível', error as Error);
-            return false;
+            return currentLevel;
+        }
+    }
+
+    /**
+     * Percentil e tendência do preço atual no histórico guardado
+     */
+    getPriceStats(currentPrice: number, now: number = Math.floor(Date.now() / 1000)): FuelPriceStats {
+        const windowPrices = this.state.prices
+            .filter(p => p.timestamp >= now - this.settings.windowHours * 3600)
+            .map(p => p.price);
+
+        if (windowPrices.length < this.settings.minSamples) {
+            return { samples: windowPrices.length, percentile: null, trendPctPerDay: null };
         }
+
+        const below = windowPrices.filter(p => p < currentPrice).length;
+        const equal = windowPrices.filter(p => p === currentPrice).length;
+        const percentile = ((below + equal / 2) / windowPrices.length) * 100;
+
+        const trendSamples = this.state.prices.filter(p => p.timestamp >= now - this.settings.trendHours * 3600);
+
+        return {
+            samples: windowPrices.length,
+            percentile,
+            trendPctPerDay: trendSamples.length >= 2 ? this.trendPctPerDay(trendSamples) : null,
+        };
     }
 
     /**
@@ -168,4 +173,142 @@ export class FuelService {
             `Preço atual: $${status.fuelCost.toLocaleString()}/1000L`
         );
     }
+
+    private decide(status: FuelSiloResponse, requiredLiters: number): FuelDecision {
+        const currentLevel = status.fuelSilo.siloHolding;
+        const currentPrice = status.fuelCost;
+        const remainingCapacity = status.fuelSilo.remainingCapacity;
+        const stats = this.getPriceStats(currentPrice);
+        const { minLevel, targetLevel, cheapPercentile, expensivePercentile, risingTrendPct } = this.settings;
+
+        const cheap = stats.percentile !== null && stats.percentile <= cheapPercentile;
+        const expensive = stats.percentile !== null && stats.percentile >= expensivePercentile;
+
+        // O nível alvo cobre o trabalho previsto mais a margem (nunca abaixo do mínimo)
+        const reserve = Math.max(targetLevel, minLevel);
+        const target = reserve + requiredLiters;
+        const upTo = (level: number) => Math.max(0, Math.min(level - currentLevel, remainingCapacity));
+        const forecast = requiredLiters > 0 ? `Trabalho previsto ~${Math.ceil(requiredLiters).toLocaleString()}L` : '';
+
+        const decision = (shouldBuy: boolean, reason: string, amount: number): FuelDecision => ({
+            shouldBuy,
+            reason: `${reason} - ${this.describeStats(currentPrice, stats)}`,
+            currentLevel,
+            currentPrice,
+            maxCanBuy: remainingCapacity,
+            amount,
+            stats,
+        });
+
+        // Abaixo do mínimo compra mesmo caro, mas caro só até o nível alvo sem o trabalho previsto
+        if (currentLevel < minLevel) {
+            return expensive
+                ? decision(true, `Combustível baixo (${currentLevel}L < ${minLevel}L), preço caro: comprando só até ${reserve}L`, upTo(reserve))
+                : decision(true, `Combustível baixo (${currentLevel}L < ${minLevel}L), comprando até ${target}L`, upTo(target));
+        }
+
+        if (cheap && remainingCapacity > 0) {
+            return decision(true, `Preço entre os ${cheapPercentile}% mais baratos, enchendo o silo`, remainingCapacity);
+        }
+
+        if (currentLevel - requiredLiters < minLevel) {
+            return expensive
+                ? decision(false, `${forecast} deixaria o silo abaixo de ${minLevel}L, mas o preço está caro: tarefas de menor valor esperam`, 0)
+                : decision(true, `${forecast} deixaria o silo abaixo de ${minLevel}L, comprando até ${target}L`, upTo(target));
+        }
+
+        if (stats.percentile === null) {
+            return decision(false, `Combustível OK, histórico insuficiente para compras oportunistas`, 0);
+        }
+
+        if (expensive) {
+            return decision(false, `Preço caro (acima do percentil ${expensivePercentile}), comprando só abaixo de ${minLevel}L`, 0);
+        }
+
+        if (stats.trendPctPerDay !== null && stats.trendPctPerDay >= risingTrendPct && upTo(target) > 0) {
+            return decision(true, `Preço em alta (≥ ${risingTrendPct}%/dia), comprando até ${target}L`, upTo(target));
+        }
+
+        return decision(false, 'Combustível OK, aguardando preço melhor', 0);
+    }
+
+    private describeStats(currentPrice: number, stats: FuelPriceStats): string {
+        if (stats.percentile === null) {
+            return `$${currentPrice}/1000L, ${stats.samples}/${this.settings.minSamples} amostra(s) nas últimas ${this.settings.windowHours}h`;
+        }
+
+        const trend = stats.trendPctPerDay !== null
+            ? `, tendência ${stats.trendPctPerDay >= 0 ? '+' : ''}${stats.trendPctPerDay.toFixed(1)}%/dia`
+            : '';
+        return `$${currentPrice}/1000L no percentil ${stats.percentile.toFixed(0)} das últimas ${this.settings.windowHours}h${trend}`;
+    }
+
+    /**
+     * Inclinação da regressão linear dos preços, em % da média por dia
+     */
+    private trendPctPerDay(samples: FuelHistoryEntry[]): number {
+        const n = samples.length;
+        const meanX = samples.reduce((sum, s) => sum + s.timestamp, 0) / n;
+        const meanY = samples.reduce((sum, s) => sum + s.price, 0) / n;
+
+        let numerator = 0;
+        let denominator = 0;
+        for (const s of samples) {
+            numerator += (s.timestamp - meanX) * (s.price - meanY);
+            denominator += (s.timestamp - meanX) ** 2;
+        }
+
+        if (denominator === 0 || meanY === 0) return 0;
+
+        const slopePerDay = (numerator / denominator) * 86400;
+        return (slopePerDay / meanY) * 100;
+    }
+
+    /**
+     * Junta o histórico do jogo e o preço atual ao histórico guardado
+     */
+    private recordPrices(status: FuelSiloResponse): void {
+        const now = Math.floor(Date.now() / 1000);
+        const known = new Set(this.state.prices.map(p => p.timestamp));
+        let changed = false;
+
+        for (const entry of status.fuelHistory || []) {
+            if (known.has(entry.timestamp)) continue;
+            this.state.prices.push({ timestamp: entry.timestamp, price: entry.price });
+            known.add(entry.timestamp);
+            changed = true;
+        }
+
+        const latest = this.state.prices.reduce((max, p) => Math.max(max, p.timestamp), 0);
+        if (now - latest >= SAMPLE_INTERVAL_SECONDS) {
+            this.state.prices.push({ timestamp: now, price: status.fuelCost });
+            changed = true;
+        }
+
+        const oldest = now - this.settings.historyDays * 86400;
+        const kept = this.state.prices.filter(p => p.timestamp >= oldest);
+        changed = changed || kept.length !== this.state.prices.length;
+
+        if (changed) {
+            this.state.prices = kept.sort((a, b) => a.timestamp - b.timestamp);
+            this.save();
+        }
+    }
+
+    private load(): FuelPriceStateFile {
+        try {
+            return readStateFile<FuelPriceStateFile>(this.filePath, { prices: [] });
+        } catch (error) {
+            this.logger.warn(`Histórico de preços de combustível ilegível (${this.filePath}), começando do zero: ${(error as Error).message}`);
+            return { prices: [] };
+        }
+    }
+
+    private save(): void {
+        try {
+            writeStateFile(this.filePath, this.state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar o histórico de preços de combustível: ${(error as Error).message}`);
+        }
+    }
 }
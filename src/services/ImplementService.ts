@@ -0,0 +1,310 @@
+// ============================================
+// Farm Manager Bot - Implement Service
+// ============================================
+
+import { ApiClient } from '../api/client';
+import {
+    AvailableTask,
+    CultivatingTabResponse,
+    FarmlandActionImplement,
+    FarmlandActionTractor,
+    FarmlandCategory,
+    FarmlandData,
+    PendingTabResponse,
+} from '../types';
+import { Logger } from '../utils/logger';
+
+// Operações que dependem de um implemento no trator
+const MANAGED_TYPES = ['plowing', 'seeding', 'fertilizing'] as const;
+type ImplementType = typeof MANAGED_TYPES[number];
+
+// Operação de que o campo vai precisar quando a operação em andamento terminar
+const NEXT_IMPLEMENT_TYPE: Record<string, ImplementType> = {
+    clearing: 'plowing',
+    harvesting: 'plowing',
+    plowing: 'seeding',
+};
+
+export interface ImplementSettings {
+    horizonMinutes: number; // Operações que terminam dentro deste prazo contam como demanda
+    fertilizingTasks: AvailableTask[]; // Terrenos que a fertilização planejaria (vazio com ela desativada)
+}
+
+export interface ImplementChange {
+    action: 'attach' | 'swap';
+    farmId: number;
+    tractorId: number;
+    tractorName: string;
+    implementId: number;
+    implementName: string;
+    fromType: string | null; // null quando o trator está sem implemento
+    toType: ImplementType;
+}
+
+type Demand = Record<ImplementType, number>; // hectares por tipo de implemento
+
+export class ImplementService {
+    private api: ApiClient;
+    private logger: Logger;
+
+    constructor(api: ApiClient, logger: Logger) {
+        this.api = api;
+        this.logger = logger;
+    }
+
+    /**
+     * Planeja as trocas de implemento de cada farm: os tratores livres são divididos
+     * entre arar, semear e fertilizar conforme a área que vai precisar de cada operação
+     */
+    async planChanges(settings: ImplementSettings): Promise<ImplementChange[]> {
+        const tab = await this.api.getCultivatingTab();
+        const changeData = tab.implementChangeData;
+
+        if (!changeData || changeData.total === 0) {
+            this.logger.debugLog('[Implements] O jogo não indica trocas de implemento possíveis');
+            return [];
+        }
+
+        const allowed = this.allowedTypes(changeData.types);
+        const pending = await this.api.getPendingTab();
+        const changes: ImplementChange[] = [];
+
+        for (const [farmId, demand] of this.computeDemand(tab, pending, settings)) {
+            if (MANAGED_TYPES.every(type => demand[type] === 0)) continue;
+
+            const sample = ImplementService.sampleFarmland(tab, farmId);
+            if (!sample) continue;
+
+            // O endpoint de ação devolve todos os tratores e implementos livres da farm
+            const action = await this.api.getFarmlandActionPlow(
+                sample.farmlandId,
+                farmId,
+                sample.area,
+                sample.complexityIndex
+            );
+
+            changes.push(...this.planFarm(farmId, demand, allowed, action.tractors || [], action.implements || []));
+        }
+
+        return changes;
+    }
+
+    /**
+     * Executa uma troca planejada
+     */
+    async apply(change: ImplementChange): Promise<boolean> {
+        const response = change.action === 'attach'
+            ? await this.api.attachImplement(change.tractorId, change.implementId)
+            : await this.api.swapImplement(change.tractorId, change.implementId);
+
+        if (response.success !== 1) {
+            const errorMsg = response.errors?.join(', ') || 'Erro desconhecido';
+            this.logger.warn(`Falha ao trocar implemento do trator "${change.tractorName}": ${errorMsg}`);
+            return false;
+        }
+
+        this.logger.success(
+            `🔧 "${change.tractorName}": ${change.fromType || 'sem implemento'} → ${change.toType} ("${change.implementName}")`
+        );
+        return true;
+    }
+
+    /**
+     * Área que vai precisar de cada implemento, por farm: campos prontos agora,
+     * campos cuja operação atual termina dentro do horizonte e os terrenos que
+     * a fertilização considera vantajosos
+     */
+    private computeDemand(
+        tab: CultivatingTabResponse,
+        pending: PendingTabResponse,
+        settings: ImplementSettings
+    ): Map<number, Demand> {
+        const demands = new Map<number, Demand>();
+        const demandOf = (farmId: number): Demand => {
+            let demand = demands.get(farmId);
+            if (!demand) {
+                demand = { plowing: 0, seeding: 0, fertilizing: 0 };
+                demands.set(farmId, demand);
+            }
+            return demand;
+        };
+        const sumArea = (data?: Record<string, FarmlandData>) =>
+            Object.values(data || {}).reduce((sum, f) => sum + f.area, 0);
+
+        for (const [farmId, farm] of Object.entries(tab.farms || {})) {
+            const demand = demandOf(Number(farmId));
+            demand.plowing += sumArea(farm.farmlands.cleared?.data);
+            demand.seeding += sumArea(farm.farmlands.plowed?.data);
+        }
+
+        for (const task of settings.fertilizingTasks) {
+            demandOf(task.farmId).fertilizing += task.area;
+        }
+
+        for (const op of Object.values(pending.farmlands?.operating || {})) {
+            const next = NEXT_IMPLEMENT_TYPE[op.opType];
+            if (!next || op.opTimeRemain > settings.horizonMinutes * 60) continue;
+            demandOf(op.farmId)[next] += op.area;
+        }
+
+        return demands;
+    }
+
+    /**
+     * Define quantos tratores livres devem ficar com cada implemento e monta as trocas.
+     * Tratores sem implemento recebem um primeiro; depois, tratores com implemento
+     * sobrando trocam para o que está faltando.
+     */
+    private planFarm(
+        farmId: number,
+        demand: Demand,
+        allowed: Set<ImplementType>,
+        tractors: FarmlandActionTractor[],
+        implementsList: FarmlandActionImplement[]
+    ): ImplementChange[] {
+        const idle = tractors.filter(t => !t.isPending);
+        const target = this.targetCounts(demand, idle.length);
+        const current: Demand = { plowing: 0, seeding: 0, fertilizing: 0 };
+
+        for (const tractor of idle) {
+            if (tractor.hasImplement && this.isManaged(tractor.type)) {
+                current[tractor.type]++;
+            }
+        }
+
+        const free = implementsList
+            .filter(i => i.available > 0 && this.isManaged(i.type))
+            .map(i => ({ ...i }))
+            .sort((a, b) => b.haHour - a.haHour);
+        const used = new Set<number>();
+        const changes: ImplementChange[] = [];
+
+        // Maior falta primeiro
+        const missing = MANAGED_TYPES
+            .filter(type => allowed.has(type) && target[type] > current[type])
+            .sort((a, b) => (target[b] - current[b]) - (target[a] - current[a]));
+
+        for (const type of missing) {
+            while (current[type] < target[type]) {
+                const change = this.pickChange(farmId, type, idle, used, free, current, target);
+                if (!change) break;
+
+                changes.push(change);
+                used.add(change.tractorId);
+                current[type]++;
+                if (change.fromType && this.isManaged(change.fromType)) {
+                    current[change.fromType]--;
+                }
+            }
+        }
+
+        if (changes.length > 0) {
+            this.logger.debugLog(
+                `[Implements] Farm ${farmId}: demanda ${JSON.stringify(demand)}, alvo ${JSON.stringify(target)}`
+            );
+        }
+
+        return changes;
+    }
+
+    /**
+     * Escolhe um trator e um implemento livre para cobrir a falta de um tipo
+     */
+    private pickChange(
+        farmId: number,
+        type: ImplementType,
+        idle: FarmlandActionTractor[],
+        used: Set<number>,
+        free: FarmlandActionImplement[],
+        current: Demand,
+        target: Demand
+    ): ImplementChange | null {
+        const candidates = idle.filter(t => !used.has(t.id) && (
+            !t.hasImplement ||
+            !this.isManaged(t.type) ||
+            current[t.type] > target[t.type]
+        ));
+
+        // Anexar é preferível a trocar: não tira implemento de ninguém
+        candidates.sort((a, b) => a.hasImplement - b.hasImplement);
+
+        for (const tractor of candidates) {
+            const implement = free.find(i => i.type === type && i.available > 0 && tractor.hp >= i.minHp);
+            if (!implement) continue;
+
+            implement.available--;
+
+            return {
+                action: tractor.hasImplement ? 'swap' : 'attach',
+                farmId,
+                tractorId: tractor.id,
+                tractorName: tractor.tractorName,
+                implementId: implement.id,
+                implementName: implement.name,
+                fromType: tractor.hasImplement ? tractor.type : null,
+                toType: type,
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Divide os tratores livres entre os tipos com demanda: um para cada tipo
+     * (maior área primeiro) e os demais para quem tem mais hectares por trator
+     */
+    private targetCounts(demand: Demand, tractorCount: number): Demand {
+        const target: Demand = { plowing: 0, seeding: 0, fertilizing: 0 };
+        const types = MANAGED_TYPES.filter(type => demand[type] > 0).sort((a, b) => demand[b] - demand[a]);
+        let remaining = tractorCount;
+
+        for (const type of types) {
+            if (remaining === 0) break;
+            target[type] = 1;
+            remaining--;
+        }
+
+        while (remaining > 0 && types.length > 0) {
+            const neediest = types.reduce((best, type) =>
+                demand[type] / (target[type] + 1) > demand[best] / (target[best] + 1) ? type : best
+            );
+            target[neediest]++;
+            remaining--;
+        }
+
+        return target;
+    }
+
+    /**
+     * `implementChangeData.types` lista os tipos que podem ser trocados (lista ou mapa tipo -> quantidade)
+     */
+    private allowedTypes(types: CultivatingTabResponse['implementChangeData']['types']): Set<ImplementType> {
+        const names = Array.isArray(types)
+            ? types
+            : Object.entries(types || {}).filter(([, count]) => count > 0).map(([type]) => type);
+        const allowed = names.filter((name): name is ImplementType => this.isManaged(name));
+
+        // Sem detalhe por tipo, todos os tipos podem ser trocados
+        return new Set(allowed.length > 0 ? allowed : MANAGED_TYPES);
+    }
+
+    private isManaged(type: string): type is ImplementType {
+        return (MANAGED_TYPES as readonly string[]).includes(type);
+    }
+
+    /**
+     * Qualquer terreno da farm serve para consultar os tratores e implementos dela
+     */
+    static sampleFarmland(tab: CultivatingTabResponse, farmId: number): FarmlandData | null {
+        const farm = tab.farms?.[String(farmId)];
+        if (!farm) return null;
+
+        const categories: (FarmlandCategory | undefined)[] = Object.values(farm.farmlands);
+        for (const category of categories) {
+            const first = Object.values(category?.data || {})[0];
+            if (first) return first;
+        }
+
+        return null;
+    }
+}
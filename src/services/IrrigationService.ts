@@ -0,0 +1,183 @@
+// ============================================
+// Farm Manager Bot - Irrigation Service
+// ============================================
+
+import path from 'path';
+import { ApiClient } from '../api/client';
+import { IrrigationStateFile, PendingFarmland } from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+
+const IRRIGATION_FILE_NAME = 'irrigation.json';
+
+export interface IrrigationSettings {
+    growthReductionPct: number; // Redução esperada do tempo de crescimento (%)
+    minSavedMinutes: number; // Tempo mínimo economizado para valer a pena
+    maxCost: number; // Custo máximo estimado ($), 0 = sem limite
+    costPerHa: number; // Custo por hectare usado até o bot observar uma irrigação, 0 = desconhecido
+}
+
+export interface IrrigationCandidate {
+    userFarmlandId: number;
+    farmlandName: string;
+    area: number;
+    growTimeRemain: number; // em segundos
+    savedMinutes: number;
+    estimatedCost: number | null; // null enquanto nenhum custo foi observado
+}
+
+export class IrrigationService {
+    private api: ApiClient;
+    private logger: Logger;
+    private filePath: string;
+
+    // Terrenos irrigados: userFarmlandId -> timestamp previsto do fim do crescimento
+    private irrigating: Map<number, number> = new Map();
+
+    // Custo por hectare observado na última irrigação (persistido), usado para estimar as próximas
+    private state: IrrigationStateFile;
+
+    constructor(api: ApiClient, logger: Logger, stateDir: string) {
+        this.api = api;
+        this.logger = logger;
+        this.filePath = path.join(stateDir, IRRIGATION_FILE_NAME);
+        this.state = this.load();
+    }
+
+    /**
+     * Encontra terrenos em crescimento onde irrigar economiza tempo suficiente
+     * e cujo custo estimado está dentro do limite. Ordena pelo tempo economizado.
+     */
+    async findCandidates(settings: IrrigationSettings): Promise<IrrigationCandidate[]> {
+        const pending = await this.api.getPendingTab();
+
+        if (pending.canIrrigate !== 1) {
+            this.logger.debugLog('[Irrigation] Irrigação indisponível no momento');
+            return [];
+        }
+
+        this.pruneFinished();
+
+        const maturing = Object.values(pending.farmlands?.maturing || {})
+            .filter(field => !this.irrigating.has(field.id));
+
+        const candidates: IrrigationCandidate[] = [];
+
+        for (const field of maturing) {
+            const candidate = await this.evaluate(field, settings);
+            if (candidate) {
+                candidates.push(candidate);
+            }
+        }
+
+        candidates.sort((a, b) => b.savedMinutes - a.savedMinutes);
+
+        // irrigateCount limita quantos terrenos podem ser irrigados agora
+        return pending.irrigateCount > 0 ? candidates.slice(0, pending.irrigateCount) : candidates;
+    }
+
+    /**
+     * Inicia a irrigação e passa a acompanhar o terreno
+     */
+    async irrigate(candidate: IrrigationCandidate): Promise<boolean> {
+        const response = await this.api.startIrrigation(candidate.userFarmlandId, candidate.estimatedCost ?? 0);
+
+        if (response.success !== 1) {
+            const errorMsg = response.errors?.join(', ') || 'Erro desconhecido';
+            this.logger.warn(`Falha ao irrigar "${candidate.farmlandName}": ${errorMsg}`);
+            return false;
+        }
+
+        const growTimeRemain = response.growTimeRemain || candidate.growTimeRemain;
+        this.irrigating.set(candidate.userFarmlandId, Date.now() + growTimeRemain * 1000);
+
+        if (response.cost > 0 && candidate.area > 0) {
+            this.state = { costPerHa: response.cost / candidate.area, observedAt: new Date().toISOString() };
+            this.save();
+        }
+
+        this.logger.success(
+            `💧 Irrigação iniciada em "${candidate.farmlandName}" - economia ~${candidate.savedMinutes}min` +
+            (response.cost > 0 ? `, custo $${response.cost.toLocaleString()}` : '')
+        );
+        return true;
+    }
+
+    private async evaluate(field: PendingFarmland, settings: IrrigationSettings): Promise<IrrigationCandidate | null> {
+        const details = await this.api.getFarmlandDetails(field.farmlandId);
+
+        if (details.isIrrigating === 1) {
+            // Irrigado fora do bot (ou em um ciclo anterior a um reinício)
+            this.irrigating.set(field.id, Date.now() + field.opTimeRemain * 1000);
+            return null;
+        }
+
+        if (details.farmland.canIrrigate !== 1) {
+            this.logger.debugLog(`[Irrigation] "${field.farmlandName}" não pode ser irrigado`);
+            return null;
+        }
+
+        const growTimeRemain = details.operations?.growTimeRemain || field.opTimeRemain;
+        const savedMinutes = Math.floor((growTimeRemain * settings.growthReductionPct / 100) / 60);
+
+        if (savedMinutes < settings.minSavedMinutes) {
+            this.logger.debugLog(
+                `[Irrigation] "${field.farmlandName}" economizaria só ~${savedMinutes}min (mínimo ${settings.minSavedMinutes}min)`
+            );
+            return null;
+        }
+
+        const costPerHa = this.state.costPerHa ?? (settings.costPerHa > 0 ? settings.costPerHa : null);
+        const estimatedCost = costPerHa !== null ? Math.round(costPerHa * field.area) : null;
+
+        // Com limite de custo, não irriga sem saber quanto vai custar
+        if (settings.maxCost > 0 && estimatedCost === null) {
+            this.logger.debugLog(
+                `[Irrigation] "${field.farmlandName}" sem custo estimado (defina IRRIGATION_COST_PER_HA para usar IRRIGATION_MAX_COST)`
+            );
+            return null;
+        }
+
+        if (settings.maxCost > 0 && estimatedCost !== null && estimatedCost > settings.maxCost) {
+            this.logger.debugLog(
+                `[Irrigation] "${field.farmlandName}" custaria ~$${estimatedCost.toLocaleString()} (máximo $${settings.maxCost.toLocaleString()})`
+            );
+            return null;
+        }
+
+        return {
+            userFarmlandId: field.id,
+            farmlandName: field.farmlandName,
+            area: field.area,
+            growTimeRemain,
+            savedMinutes,
+            estimatedCost,
+        };
+    }
+
+    private load(): IrrigationStateFile {
+        try {
+            return readStateFile<IrrigationStateFile>(this.filePath, { costPerHa: null });
+        } catch (error) {
+            this.logger.warn(`Custo de irrigação ilegível (${this.filePath}), começando do zero: ${(error as Error).message}`);
+            return { costPerHa: null };
+        }
+    }
+
+    private save(): void {
+        try {
+            writeStateFile(this.filePath, this.state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar o custo de irrigação: ${(error as Error).message}`);
+        }
+    }
+
+    private pruneFinished(): void {
+        const now = Date.now();
+        for (const [id, until] of this.irrigating) {
+            if (until <= now) {
+                this.irrigating.delete(id);
+            }
+        }
+    }
+}
@@ -0,0 +1,292 @@
+// ============================================
+// Farm Manager Bot - Maintenance Service
+// ============================================
+
+import path from 'path';
+import { ApiClient } from '../api/client';
+import {
+    BatchActionResponse,
+    BatchActionUnit,
+    EquipmentUnit,
+    FarmlandActionResponse,
+    FleetHealthReport,
+    UnitWearHistory,
+    WearStateFile,
+    WearUnitKind,
+} from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+import { ImplementService } from './ImplementService';
+
+const WEAR_FILE_NAME = 'wear.json';
+
+// Amostras mantidas por unidade
+const MAX_SAMPLES = 50;
+
+export interface MaintenanceOptions {
+    repairThreshold: number; // Desgaste (%) a partir do qual a unidade é reparada
+    excludeThreshold: number; // Desgaste (%) a partir do qual a unidade não é mais usada
+    sampleMaxAgeHours: number; // Leituras mais antigas que isso não valem mais como desgaste atual
+    cashReserve: number; // Saldo ($) que nunca é gasto com reparos
+}
+
+/**
+ * Acompanha o desgaste de máquinas e implementos (histórico persistido em disco),
+ * tira unidades muito desgastadas das operações e repara as que passam do limite.
+ *
+ * O desgaste é lido da aba de tratores, dos dados de ação (implementos anexados e livres),
+ * de farmland-details e do resultado das ações. Só conta a unidade lida há menos de
+ * `sampleMaxAgeHours`, mesmo que o desgaste não tenha mudado desde a amostra anterior.
+ */
+export class MaintenanceService {
+    private api: ApiClient;
+    private logger: Logger;
+    private filePath: string;
+    private options: MaintenanceOptions;
+    private state: WearStateFile;
+
+    constructor(api: ApiClient, logger: Logger, stateDir: string, options: MaintenanceOptions) {
+        this.api = api;
+        this.logger = logger;
+        this.filePath = path.join(stateDir, WEAR_FILE_NAME);
+        this.options = options;
+        this.state = this.load();
+    }
+
+    /**
+     * Registra o desgaste informado pelas unidades de farmland-details
+     */
+    observeUnits(units: EquipmentUnit[] | undefined): void {
+        let observed = false;
+
+        for (const unit of units || []) {
+            const id = unit.id || unit.heavyId;
+            if (!id || unit.wear === undefined) continue;
+            this.addSample('tractor', id, unit.wear);
+            observed = true;
+        }
+
+        if (observed) this.save();
+    }
+
+    /**
+     * Registra o desgaste dos tratores, dos implementos anexados e dos implementos livres
+     * de farmland-action-seed/plow
+     */
+    observeFarmlandAction(response: FarmlandActionResponse): void {
+        if (this.recordFarmlandAction(response)) this.save();
+    }
+
+    /**
+     * Registra o desgaste devolvido ao iniciar uma ação (`newWear`). A resposta traz
+     * um único valor, então ele só é atribuído quando a ação usou uma máquina sem implemento.
+     */
+    observeBatchResult(response: BatchActionResponse, units: BatchActionUnit[]): void {
+        if (typeof response.newWear !== 'number' || response.newWear <= 0) return;
+        if (units.length !== 1 || units[0].implementId) return;
+
+        this.addSample('tractor', units[0].tractorId, response.newWear);
+        this.save();
+    }
+
+    /**
+     * Unidade acima do limite de exclusão: não deve ser usada até ser reparada
+     */
+    isWorn(kind: WearUnitKind, id: number): boolean {
+        const wear = this.getWear(kind, id);
+        return wear !== null && wear >= this.options.excludeThreshold;
+    }
+
+    /**
+     * Desgaste da leitura mais recente, ou null sem leitura dentro de `sampleMaxAgeHours`
+     */
+    getWear(kind: WearUnitKind, id: number): number | null {
+        const history = this.state.units[MaintenanceService.unitKey(kind, id)];
+        return history && this.isFresh(history) ? history.samples[history.samples.length - 1].wear : null;
+    }
+
+    getHealthReport(): FleetHealthReport {
+        const units = Object.values(this.state.units).filter(u => this.isFresh(u));
+        const latest = (u: UnitWearHistory) => u.samples[u.samples.length - 1].wear;
+        const byWear = (a: UnitWearHistory, b: UnitWearHistory) => latest(b) - latest(a);
+
+        return {
+            units: units.length,
+            averageWear: units.length > 0 ? units.reduce((sum, u) => sum + latest(u), 0) / units.length : 0,
+            needsRepair: units.filter(u => latest(u) >= this.options.repairThreshold).sort(byWear),
+            excluded: units.filter(u => latest(u) >= this.options.excludeThreshold).sort(byWear),
+        };
+    }
+
+    /**
+     * Repara as unidades acima do limite de reparo sem gastar a reserva de saldo.
+     * Máquinas em uso e reparos que o saldo não cobre ficam para o próximo ciclo.
+     */
+    async repairWornUnits(): Promise<{ repaired: number; cost: number }> {
+        const inUse = await this.refreshFleet();
+        const report = this.getHealthReport();
+        if (report.needsRepair.length === 0) return { repaired: 0, cost: 0 };
+
+        const fuel = await this.api.getFuelSilo();
+        let budget = fuel.user.account - this.options.cashReserve;
+        let repaired = 0;
+        let cost = 0;
+
+        for (const unit of report.needsRepair) {
+            const label = `${unit.kind === 'tractor' ? 'Máquina' : 'Implemento'} ${unit.id}`;
+
+            if (unit.kind === 'tractor' && inUse.has(unit.id)) {
+                this.logger.debugLog(`[Maintenance] ${label} em uso, reparo fica para o próximo ciclo`);
+                continue;
+            }
+
+            const before = unit.samples[unit.samples.length - 1].wear;
+
+            // Sem reparo anterior para estimar, o custo só precisa caber acima da reserva
+            const estimatedCost = this.state.repairCostPerPct !== undefined
+                ? Math.round(this.state.repairCostPerPct * before)
+                : 0;
+
+            if (budget <= 0 || estimatedCost > budget) {
+                this.logger.debugLog(
+                    `[Maintenance] ${label}: saldo acima da reserva ($${Math.max(0, budget).toLocaleString()}) ` +
+                    `não cobre o reparo (~$${estimatedCost.toLocaleString()})`
+                );
+                continue;
+            }
+
+            const response = await this.api.repairEquipment(unit.kind, unit.id, estimatedCost);
+
+            if (response.success !== 1) {
+                const errorMsg = response.errors?.join(', ') || 'Erro desconhecido';
+                this.logger.warn(`Falha ao reparar ${label}: ${errorMsg}`);
+                continue;
+            }
+
+            this.addSample(unit.kind, unit.id, response.wear);
+            unit.lastRepairAt = new Date().toISOString();
+            if (response.cost > 0 && before > response.wear) {
+                this.state.repairCostPerPct = response.cost / (before - response.wear);
+            }
+            this.save();
+
+            repaired++;
+            cost += response.cost;
+            budget -= response.cost;
+            this.logger.success(
+                `🛠️ ${label} reparado(a): desgaste ${before.toFixed(0)}% → ${response.wear.toFixed(0)}%` +
+                (response.cost > 0 ? ` por $${response.cost.toLocaleString()}` : '')
+            );
+        }
+
+        return { repaired, cost };
+    }
+
+    static unitKey(kind: WearUnitKind, id: number): string {
+        return `${kind}:${id}`;
+    }
+
+    /**
+     * Registra uma leitura: sempre renova `lastSeenAt` e só guarda uma amostra nova quando o desgaste mudou
+     */
+    private addSample(kind: WearUnitKind, id: number, wear: number): void {
+        const key = MaintenanceService.unitKey(kind, id);
+        const history = this.state.units[key] || { kind, id, samples: [] };
+        const last = history.samples[history.samples.length - 1];
+        const now = new Date().toISOString();
+
+        history.lastSeenAt = now;
+        this.state.units[key] = history;
+
+        if (last && last.wear === wear) return;
+
+        history.samples.push({ at: now, wear });
+        if (history.samples.length > MAX_SAMPLES) {
+            history.samples.splice(0, history.samples.length - MAX_SAMPLES);
+        }
+    }
+
+    private isFresh(history: UnitWearHistory): boolean {
+        const last = history.samples[history.samples.length - 1];
+        if (!last) return false;
+
+        const seenAt = Date.parse(history.lastSeenAt || last.at);
+        return Date.now() - seenAt <= this.options.sampleMaxAgeHours * 3600 * 1000;
+    }
+
+    /**
+     * Lê o desgaste da frota inteira: máquinas pela aba de tratores e implementos pelos
+     * dados de ação de cada farm. Retorna as máquinas em uso.
+     */
+    private async refreshFleet(): Promise<Set<number>> {
+        const tab = await this.api.getCultivatingTab();
+        const inUse = new Set<number>();
+
+        for (const farm of Object.values(tab.tractors || {})) {
+            for (const category of [farm.plowing, farm.clearing, farm.seeding, farm.fertilizing, farm.harvesting]) {
+                for (const tractor of Object.values(category?.data || {})) {
+                    if (tractor.inUse !== 0) inUse.add(tractor.id);
+                    if (tractor.wear !== undefined) this.addSample('tractor', tractor.id, tractor.wear);
+                }
+            }
+        }
+
+        // O endpoint de ação devolve todos os tratores e implementos livres da farm
+        for (const farmId of Object.keys(tab.farms || {})) {
+            const sample = ImplementService.sampleFarmland(tab, Number(farmId));
+            if (!sample) continue;
+
+            const action = await this.api.getFarmlandActionPlow(
+                sample.farmlandId,
+                Number(farmId),
+                sample.area,
+                sample.complexityIndex
+            );
+            this.recordFarmlandAction(action);
+        }
+
+        this.save();
+        return inUse;
+    }
+
+    private recordFarmlandAction(response: FarmlandActionResponse): boolean {
+        let observed = false;
+
+        for (const tractor of response.tractors || []) {
+            if (tractor.wear !== undefined) {
+                this.addSample('tractor', tractor.id, tractor.wear);
+                observed = true;
+            }
+            if (tractor.implementId && tractor.implementWear !== undefined) {
+                this.addSample('implement', tractor.implementId, tractor.implementWear);
+                observed = true;
+            }
+        }
+
+        for (const implement of response.implements || []) {
+            if (implement.wear !== undefined) {
+                this.addSample('implement', implement.id, implement.wear);
+                observed = true;
+            }
+        }
+
+        return observed;
+    }
+
+    private load(): WearStateFile {
+        try {
+            return readStateFile<WearStateFile>(this.filePath, { units: {} });
+        } catch (error) {
+            this.logger.warn(`Histórico de desgaste ilegível (${this.filePath}), começando do zero: ${(error as Error).message}`);
+            return { units: {} };
+        }
+    }
+
+    private save(): void {
+        try {
+            writeStateFile(this.filePath, this.state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar o histórico de desgaste: ${(error as Error).message}`);
+        }
+    }
+}
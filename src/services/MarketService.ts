@@ -12,6 +12,8 @@ export interface SellResult {
     productName: string;
     amountSold: number;
     income: number;
+    brokerage: number;
+    valuePer1k: number;
     remaining: number;
 }
 
@@ -25,11 +27,18 @@ export class MarketService {
         this.logger = logger;
     }
 
+    /**
+     * Valores atuais e histórico de preços de todos os produtos em uma única leitura
+     */
+    async getMarketSnapshot(): Promise<CropValuesResponse> {
+        return this.api.getCropValues();
+    }
+
     /**
      * Obtém valores atuais de todos os produtos no mercado
      */
     async getCropValues(): Promise<Record<string, CropValue>> {
-        const response = await this.api.getCropValues();
+        const response = await this.getMarketSnapshot();
         return response.cropValues;
     }
 
@@ -42,11 +51,11 @@ export class MarketService {
     }
 
     /**
-     * Vende todo o estoque de um produto
+     * Vende todo o estoque (ou metade) de um produto
      */
-    async sellProduct(cropId: number, productName?: string): Promise<SellResult> {
+    async sellProduct(cropId: number, productName?: string, sellType: 'all' | 'half' = 'all'): Promise<SellResult> {
         try {
-            const response = await this.api.sellProduct(cropId, 'all');
+            const response = await this.api.sellProduct(cropId, sellType);
 
             const result: SellResult = {
                 success: response.success === 1,
@@ -54,6 +63,8 @@ export class MarketService {
                 productName: response.cropData?.name || productName || `Crop ${cropId}`,
                 amountSold: response.amount,
                 income: response.income,
+                brokerage: response.brokerage,
+                valuePer1k: response.valuePer1k,
                 remaining: response.remaining,
             };
 
@@ -74,6 +85,8 @@ export class MarketService {
                 productName: productName || `Crop ${cropId}`,
                 amountSold: 0,
                 income: 0,
+                brokerage: 0,
+                valuePer1k: 0,
                 remaining: 0,
             };
         }
@@ -83,12 +96,12 @@ export class MarketService {
      * Vende múltiplos produtos
      */
     async sellMultipleProducts(
-        products: Array<{ id: number; name: string }>
+        products: Array<{ id: number; name: string; sellType?: 'all' | 'half' }>
     ): Promise<SellResult[]> {
         const results: SellResult[] = [];
 
         for (const product of products) {
-            const result = await this.sellProduct(product.id, product.name);
+            const result = await this.sellProduct(product.id, product.name, product.sellType);
             results.push(result);
 
             // Pequeno delay entre vendas para evitar rate limiting
@@ -102,27 +115,48 @@ export class MarketService {
      * Calcula o valor total que seria obtido vendendo um produto
      */
     async estimateSaleValue(cropId: number, amount: number): Promise<number> {
-        const value = await this.getCropValue(cropId);
-        if (!value) return 0;
-
-        // cropValuePer1k é o valor por 1000kg
-        return (amount / 1000) * value.cropValuePer1k;
+        return MarketService.saleValue(await this.getCropValue(cropId) || undefined, amount);
     }
 
     /**
      * Verifica se é um bom momento para vender (preço subindo)
      */
     async isPriceIncreasing(cropId: number): Promise<boolean> {
-        const value = await this.getCropValue(cropId);
-        return value?.priceIncrease === 1;
+        return MarketService.isIncreasing(await this.getCropValue(cropId) || undefined);
     }
 
     /**
      * Obtém histórico de preços de um produto
      */
     async getPriceHistory(cropId: number): Promise<number[]> {
-        const response = await this.api.getCropValues();
-        return response.history[String(cropId)] || [];
+        return MarketService.priceHistory(await this.getMarketSnapshot(), cropId);
+    }
+
+    /**
+     * Valor de venda de `amount` kg pelo preço atual
+     */
+    static saleValue(value: CropValue | undefined, amount: number): number {
+        // cropValuePer1k é o valor por 1000kg
+        return value ? (amount / 1000) * value.cropValuePer1k : 0;
+    }
+
+    static isIncreasing(value: CropValue | undefined): boolean {
+        return value?.priceIncrease === 1;
+    }
+
+    static priceHistory(market: CropValuesResponse, cropId: number): number[] {
+        return market.history[String(cropId)] || [];
+    }
+
+    /**
+     * Posição do preço no histórico (0-100), null sem histórico
+     */
+    static pricePercentile(price: number, history: number[]): number | null {
+        if (history.length === 0) return null;
+
+        const below = history.filter(p => p < price).length;
+        const equal = history.filter(p => p === price).length;
+        return ((below + equal / 2) / history.length) * 100;
     }
 
     /**
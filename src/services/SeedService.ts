@@ -3,8 +3,17 @@
 // ============================================
 
 import { ApiClient } from '../api/client';
-import { CropScore, MarketSeed, SeedInventory } from '../types';
+import {
+    AvailableTask,
+    CropScore,
+    CropValuesResponse,
+    MarketSeed,
+    RotationConstraints,
+    SeedSelectionMode,
+    SiloTabResponse,
+} from '../types';
 import { Logger } from '../utils/logger';
+import { FuelForecastService } from './FuelForecastService';
 
 export interface BestSeedResult {
     cropId: number;
@@ -15,24 +24,192 @@ export interface BestSeedResult {
     requiredAmount: number;
     currentStock: number;
     needToBuy: number;
+    profitPerHaHour?: number; // Apenas nos modos profit e blend
+}
+
+export interface SeedSelectionSettings {
+    mode: SeedSelectionMode; // Critério padrão
+    farmModes: Record<number, SeedSelectionMode>; // Critério por farm (farmId)
+    blendProfitWeight: number; // Peso do lucro (0-1) no modo blend
+}
+
+export interface SeedEconomics {
+    expectedKg: number; // Colheita prevista do terreno
+    revenuePerHa: number;
+    seedCostPerHa: number;
+    fuelCostPerHa: number;
+    storableRatio: number; // Fração da colheita prevista que cabe no silo
+    profitPerHaHour: number;
+}
+
+export interface SeedingRequest {
+    task: AvailableTask;
+    rotation: RotationConstraints | null;
+}
+
+export interface SeedAllocation {
+    task: AvailableTask;
+    seed: BestSeedResult;
+}
+
+// Dados do mercado lidos uma vez por planejamento
+interface SeedMarket {
+    seeds: Map<number, MarketSeed>; // Desbloqueadas e compráveis
+    account: number;
+    values?: CropValuesResponse; // Apenas nos modos profit e blend
+    silo?: SiloTabResponse;
+    fuelCost: number;
+    plannedKg: Map<number, number>; // Colheita prevista dos terrenos já planejados, por grão
+}
+
+interface SeedCandidate {
+    crop: CropScore & { name: string };
+    seed: MarketSeed;
+    economics?: SeedEconomics;
+    rank: number;
+    preferred?: boolean; // Preferida pela rotação de culturas
 }
 
 export class SeedService {
     private api: ApiClient;
     private logger: Logger;
-
-    constructor(api: ApiClient, logger: Logger) {
+    private settings: SeedSelectionSettings;
+    private fuelForecast: FuelForecastService | null;
+
+    constructor(
+        api: ApiClient,
+        logger: Logger,
+        settings: SeedSelectionSettings = { mode: 'cropScore', farmModes: {}, blendProfitWeight: 0.5 },
+        fuelForecast: FuelForecastService | null = null
+    ) {
         this.api = api;
         this.logger = logger;
+        this.settings = settings;
+        this.fuelForecast = fuelForecast;
+    }
+
+    /**
+     * Critério de escolha da semente para a farm
+     */
+    getMode(farmId?: number): SeedSelectionMode {
+        return (farmId !== undefined && this.settings.farmModes[farmId]) || this.settings.mode;
+    }
+
+    /**
+     * Planeja a semeadura de vários terrenos de uma vez: escolhe a cultura de cada um,
+     * soma a semente necessária por cultura, compra uma vez por cultura (limitado ao
+     * espaço do depósito de sementes e ao saldo acima de `cashReserve`) e distribui
+     * o estoque entre os terrenos, na ordem recebida.
+     * Retorna apenas os terrenos com semente garantida.
+     */
+    async planSeeding(requests: SeedingRequest[], cashReserve: number = 0): Promise<SeedAllocation[]> {
+        if (requests.length === 0) return [];
+
+        const market = await this.loadMarket();
+        if (!market) return [];
+
+        // 1. Escolher a cultura de cada terreno
+        const planned: Array<{ task: AvailableTask; candidate: SeedCandidate; requiredAmount: number }> = [];
+
+        for (const { task, rotation } of requests) {
+            this.logger.debugLog(`[SeedService] Planejando "${task.farmlandName}" (${task.area}ha)`);
+
+            const candidate = await this.chooseSeed(task.farmlandId, task.area, task.farmId, rotation, market);
+            if (!candidate) {
+                this.logger.warn(`Nenhuma semente adequada para "${task.farmlandName}"`);
+                continue;
+            }
+
+            planned.push({ task, candidate, requiredAmount: Math.ceil(task.area * candidate.seed.kgPerHa) });
+        }
+
+        // 2. Somar a necessidade por cultura e comprar uma vez por cultura
+        const inventory = (await this.api.getSeedingTab()).seed || {};
+        const demand = new Map<number, { seed: MarketSeed; name: string; required: number; fields: number }>();
+
+        for (const { candidate, requiredAmount } of planned) {
+            const entry = demand.get(candidate.crop.id) ||
+                { seed: candidate.seed, name: candidate.crop.name, required: 0, fields: 0 };
+            entry.required += requiredAmount;
+            entry.fields++;
+            demand.set(candidate.crop.id, entry);
+        }
+
+        const stockBefore = new Map<number, number>();
+        const available = new Map<number, number>();
+        let budget = market.account - cashReserve;
+
+        // Culturas com maior necessidade primeiro
+        for (const [cropId, entry] of [...demand.entries()].sort((a, b) => b[1].required - a[1].required)) {
+            const info = inventory[String(cropId)];
+            const stock = info?.amount || 0;
+            stockBefore.set(cropId, stock);
+
+            const purchased = await this.procure(cropId, entry, stock, info?.remainingCapacity, budget);
+            budget -= purchased.cost;
+            available.set(cropId, stock + purchased.amount);
+        }
+
+        // 3. Distribuir o estoque entre os terrenos
+        const allocations: SeedAllocation[] = [];
+
+        for (const { task, candidate, requiredAmount } of planned) {
+            const cropId = candidate.crop.id;
+            const left = available.get(cropId) || 0;
+
+            if (left < requiredAmount) {
+                this.logger.warn(
+                    `Semente insuficiente de ${candidate.crop.name} para "${task.farmlandName}" ` +
+                    `(precisa ${requiredAmount.toLocaleString()}kg, restam ${left.toLocaleString()}kg)`
+                );
+                continue;
+            }
+
+            available.set(cropId, left - requiredAmount);
+            allocations.push({ task, seed: this.toResult(candidate, requiredAmount, stockBefore.get(cropId) || 0) });
+        }
+
+        return allocations;
     }
 
     /**
-     * Determina a melhor semente para uma fazenda baseado em:
+     * Lê as sementes do mercado e o saldo, ou null se o mercado não responder como esperado
+     */
+    private async loadMarket(): Promise<SeedMarket | null> {
+        const marketData = await this.api.getMarketSeeds();
+
+        if (!marketData.seed || !Array.isArray(marketData.seed)) {
+            this.logger.warn('[SeedService] Não foi possível obter sementes do mercado');
+            return null;
+        }
+
+        // Criar mapa de sementes desbloqueadas por ID
+        const seeds = new Map<number, MarketSeed>();
+        for (const seed of marketData.seed) {
+            if (seed.unlocked === 1 && seed.canAfford === 1) {
+                seeds.set(seed.id, seed);
+            }
+        }
+        this.logger.debugLog(`[SeedService] ${seeds.size} sementes desbloqueadas e disponíveis`);
+
+        return { seeds, account: marketData.user?.account || 0, fuelCost: 0, plannedKg: new Map() };
+    }
+
+    /**
+     * Ordena as sementes possíveis no terreno e retorna a primeira, considerando:
      * 1. cropScores da terra
      * 2. Sementes desbloqueadas no mercado
      * 3. Capacidade de comprar
+     * 4. No modo profit/blend, lucro estimado por hectare por hora de crescimento
+     * 5. Restrições de rotação de culturas do terreno, quando informadas
      */
-    async getBestSeedForFarmland(farmlandId: number, area: number): Promise<BestSeedResult | null> {
+    private async chooseSeed(
+        farmlandId: number,
+        area: number,
+        farmId: number | undefined,
+        rotation: RotationConstraints | null,
+        market: SeedMarket
+    ): Promise<SeedCandidate | null> {
         this.logger.debugLog(`[SeedService] Buscando melhor semente para farmlandId: ${farmlandId}, área: ${area}ha`);
 
         // 1. Buscar cropScores da terra
@@ -43,136 +220,261 @@ export class SeedService {
             return null;
         }
 
-        const cropScores = farmlandData.cropScores as Record<string, CropScore>;
+        const cropScores = farmlandData.cropScores;
         this.logger.debugLog(`[SeedService] Encontrados ${Object.keys(cropScores).length} cropScores`);
 
-        // 2. Buscar sementes disponíveis no mercado
-        const marketData = await this.api.getMarketSeeds();
+        // 2. Candidatas: culturas da terra com semente disponível, por score (maior primeiro)
+        const candidates: SeedCandidate[] = Object.entries(cropScores)
+            .map(([name, data]) => ({ name, ...data }))
+            .filter(crop => market.seeds.has(crop.id))
+            .map(crop => ({ crop, seed: market.seeds.get(crop.id)!, rank: crop.score }))
+            .sort((a, b) => b.rank - a.rank);
 
-        if (!marketData.seed || !Array.isArray(marketData.seed)) {
-            this.logger.warn('[SeedService] Não foi possível obter sementes do mercado');
+        if (candidates.length === 0) {
+            this.logger.warn('[SeedService] Nenhuma semente adequada encontrada');
             return null;
         }
 
-        const marketSeeds = marketData.seed as MarketSeed[];
-
-        // Criar mapa de sementes desbloqueadas por ID
-        const unlockedSeeds = new Map<number, MarketSeed>();
-        for (const seed of marketSeeds) {
-            if (seed.unlocked === 1 && seed.canAfford === 1) {
-                unlockedSeeds.set(seed.id, seed);
+        // 3. Ordenar pelo critério da farm
+        const mode = this.getMode(farmId);
+        if (mode !== 'cropScore') {
+            try {
+                await this.rankByProfit(candidates, area, farmId, mode, market);
+            } catch (error) {
+                this.logger.warn(`[SeedService] Lucro das sementes indisponível, usando cropScore: ${(error as Error).message}`);
             }
         }
-        this.logger.debugLog(`[SeedService] ${unlockedSeeds.size} sementes desbloqueadas e disponíveis`);
-
-        // 3. Ordenar cropScores por score (maior primeiro)
-        const sortedScores = Object.entries(cropScores)
-            .map(([name, data]) => ({ name, ...data }))
-            .sort((a, b) => b.score - a.score);
 
-        // 4. Encontrar a melhor semente disponível
-        for (const crop of sortedScores) {
-            const marketSeed = unlockedSeeds.get(crop.id);
-
-            if (marketSeed) {
-                // Calcular quantidade necessária
-                const requiredAmount = Math.ceil(area * marketSeed.kgPerHa);
+        if (rotation) {
+            this.applyRotation(candidates, rotation);
+        }
 
-                // Verificar estoque atual
-                const currentStock = await this.getSeedStock(crop.id);
-                const needToBuy = Math.max(0, requiredAmount - currentStock);
+        this.logRanking(candidates, mode);
 
-                this.logger.info(
-                    `🌱 Melhor semente: ${crop.name} (Score: ${crop.score}) - ` +
-                    `Precisa: ${requiredAmount}kg, Estoque: ${currentStock}kg, Comprar: ${needToBuy}kg`
-                );
+        const best = candidates[0];
 
-                return {
-                    cropId: crop.id,
-                    cropName: crop.name,
-                    score: crop.score,
-                    kgPerHa: marketSeed.kgPerHa,
-                    seedCost: marketSeed.seedCost,
-                    requiredAmount,
-                    currentStock,
-                    needToBuy,
-                };
-            }
+        // A colheita prevista ocupa o silo para os próximos terrenos do mesmo grão
+        if (best.economics) {
+            market.plannedKg.set(best.crop.id, (market.plannedKg.get(best.crop.id) || 0) + best.economics.expectedKg);
         }
 
-        this.logger.warn('[SeedService] Nenhuma semente adequada encontrada');
-        return null;
+        return best;
     }
 
     /**
-     * Verifica o estoque atual de uma semente
+     * Compra a semente que falta para uma cultura, limitada ao espaço livre do
+     * depósito de sementes e ao orçamento. Retorna o que foi comprado.
      */
-    async getSeedStock(cropId: number): Promise<number> {
+    private async procure(
+        cropId: number,
+        entry: { seed: MarketSeed; name: string; required: number; fields: number },
+        stock: number,
+        remainingCapacity: number | undefined,
+        budget: number
+    ): Promise<{ amount: number; cost: number }> {
+        const need = Math.max(0, entry.required - stock);
+        const summary = `${entry.name}: ${entry.fields} terreno(s), precisa ${entry.required.toLocaleString()}kg, estoque ${stock.toLocaleString()}kg`;
+
+        if (need === 0) {
+            this.logger.info(`🌱 ${summary}`);
+            return { amount: 0, cost: 0 };
+        }
+
+        // seedCost é por 1000kg
+        const affordable = entry.seed.seedCost > 0
+            ? Math.floor((Math.max(0, budget) / entry.seed.seedCost) * 1000)
+            : need;
+        const amount = Math.min(need, remainingCapacity ?? need, affordable);
+
+        if (amount < need) {
+            const limit = remainingCapacity !== undefined && remainingCapacity < affordable
+                ? `depósito de sementes com ${remainingCapacity.toLocaleString()}kg livres`
+                : `orçamento de $${Math.max(0, Math.floor(budget)).toLocaleString()}`;
+            this.logger.warn(`🌱 ${summary}: comprando só ${amount.toLocaleString()}kg (${limit})`);
+        } else {
+            this.logger.info(`🌱 ${summary}, comprando ${amount.toLocaleString()}kg`);
+        }
+
+        if (amount <= 0) return { amount: 0, cost: 0 };
+
         try {
-            const response = await this.api.getSeedingTab();
+            const result = await this.api.buySeeds(cropId, amount);
 
-            if (response.seed && response.seed[String(cropId)]) {
-                return response.seed[String(cropId)].amount || 0;
+            if (result.success === 1) {
+                this.logger.success(`✅ Compra realizada: ${result.amount}kg de ${entry.name} por $${result.cost}`);
+                return { amount: result.amount, cost: result.cost };
             }
 
-            return 0;
+            this.logger.warn(`[SeedService] Falha na compra de sementes de ${entry.name}`);
         } catch (error) {
-            this.logger.debugLog(`[SeedService] Erro ao verificar estoque do cropId ${cropId}`);
-            return 0;
+            this.logger.error(`[SeedService] Erro ao comprar sementes de ${entry.name}`, error as Error);
         }
+
+        return { amount: 0, cost: 0 };
+    }
+
+    private toResult(candidate: SeedCandidate, requiredAmount: number, currentStock: number): BestSeedResult {
+        return {
+            cropId: candidate.crop.id,
+            cropName: candidate.crop.name,
+            score: candidate.crop.score,
+            kgPerHa: candidate.seed.kgPerHa,
+            seedCost: candidate.seed.seedCost,
+            requiredAmount,
+            currentStock,
+            needToBuy: Math.max(0, requiredAmount - currentStock),
+            profitPerHaHour: candidate.economics?.profitPerHaHour,
+        };
     }
 
     /**
-     * Compra sementes se necessário
+     * Lucro esperado por hectare por hora de crescimento:
+     * (colheita × preço atual − semente − combustível de semear e colher) / horas de crescimento.
+     * A colheita é o `yieldPerHa` ajustado pelo score relativo da terra (score / maior score)
+     * e só conta a parte que cabe no silo daquele grão.
      */
-    async ensureSeedAvailable(cropId: number, requiredAmount: number): Promise<boolean> {
-        const currentStock = await this.getSeedStock(cropId);
-        const needToBuy = Math.max(0, requiredAmount - currentStock);
+    estimateEconomics(
+        seed: MarketSeed,
+        scoreFactor: number,
+        area: number,
+        pricePer1k: number,
+        siloFreeKg: number,
+        fuelCostPer1k: number,
+        fuelLitersPerHa: number
+    ): SeedEconomics {
+        const yieldPerHa = seed.yieldPerHa * scoreFactor;
+        const expectedKg = yieldPerHa * area;
+        const storableRatio = expectedKg > 0 ? Math.min(1, siloFreeKg / expectedKg) : 0;
+
+        // seedCost e cropValuePer1k são por 1000kg; fuelCost por 1000L
+        const revenuePerHa = (yieldPerHa * storableRatio / 1000) * pricePer1k;
+        const seedCostPerHa = (seed.kgPerHa / 1000) * seed.seedCost;
+        const fuelCostPerHa = (fuelLitersPerHa / 1000) * fuelCostPer1k;
+        const hours = Math.max(seed.growTime, 1) / 3600;
+
+        return {
+            expectedKg,
+            revenuePerHa,
+            seedCostPerHa,
+            fuelCostPerHa,
+            storableRatio,
+            profitPerHaHour: (revenuePerHa - seedCostPerHa - fuelCostPerHa) / hours,
+        };
+    }
 
-        if (needToBuy === 0) {
-            this.logger.debugLog(`[SeedService] Estoque suficiente (${currentStock}kg)`);
-            return true;
+    /**
+     * Calcula o lucro de cada candidata e reordena: por lucro (profit) ou pela
+     * média ponderada do score e do lucro, cada um relativo ao maior (blend)
+     */
+    private async rankByProfit(
+        candidates: SeedCandidate[],
+        area: number,
+        farmId: number | undefined,
+        mode: SeedSelectionMode,
+        market: SeedMarket
+    ): Promise<void> {
+        if (!market.values || !market.silo) {
+            market.values = await this.api.getCropValues();
+            market.silo = await this.api.getSiloTab();
+            market.fuelCost = await this.getFuelCost();
         }
 
-        this.logger.info(`💰 Comprando ${needToBuy}kg de sementes (cropId: ${cropId})...`);
+        const { values, silo, fuelCost } = market;
+        const fuelLitersPerHa = this.fuelLitersPerHa(farmId, area);
+
+        const maxScore = Math.max(...candidates.map(c => c.crop.score), 1);
+
+        for (const candidate of candidates) {
+            candidate.economics = this.estimateEconomics(
+                candidate.seed,
+                candidate.crop.score / maxScore,
+                area,
+                values.cropValues[String(candidate.crop.id)]?.cropValuePer1k || 0,
+                Math.max(0, this.siloFreeKg(silo, candidate.crop.id) - (market.plannedKg.get(candidate.crop.id) || 0)),
+                fuelCost,
+                fuelLitersPerHa
+            );
+        }
 
-        try {
-            const result = await this.api.buySeeds(cropId, needToBuy);
+        const maxProfit = Math.max(...candidates.map(c => c.economics!.profitPerHaHour));
+        const weight = Math.min(Math.max(this.settings.blendProfitWeight, 0), 1);
 
-            if (result.success === 1) {
-                this.logger.success(`✅ Compra realizada: ${result.amount}kg por $${result.cost}`);
-                return true;
-            } else {
-                this.logger.warn(`[SeedService] Falha na compra de sementes`);
-                return false;
-            }
-        } catch (error) {
-            this.logger.error('[SeedService] Erro ao comprar sementes', error as Error);
-            return false;
+        for (const candidate of candidates) {
+            const profit = candidate.economics!.profitPerHaHour;
+            candidate.rank = mode === 'profit'
+                ? profit
+                : (1 - weight) * (candidate.crop.score / maxScore) + weight * (maxProfit > 0 ? profit / maxProfit : 0);
         }
+
+        candidates.sort((a, b) => b.rank - a.rank);
     }
 
     /**
-     * Fluxo completo: encontra melhor semente e garante disponibilidade
+     * Tira as culturas bloqueadas e passa as preferidas para a frente, mantendo
+     * a ordem do critério entre elas. Se todas estiverem bloqueadas, o bloqueio
+     * é ignorado para o terreno não ficar parado.
      */
-    async prepareForSeeding(farmlandId: number, area: number): Promise<BestSeedResult | null> {
-        // 1. Encontrar melhor semente
-        const bestSeed = await this.getBestSeedForFarmland(farmlandId, area);
+    private applyRotation(candidates: SeedCandidate[], rotation: RotationConstraints): void {
+        this.logger.debugLog(`[SeedService] Rotação: ${rotation.reason}`);
 
-        if (!bestSeed) {
-            return null;
-        }
+        const blocked = new Set(rotation.blocked);
+        const allowed = candidates.filter(c => !blocked.has(c.crop.name.toLowerCase()));
 
-        // 2. Garantir que temos sementes suficientes
-        if (bestSeed.needToBuy > 0) {
-            const purchased = await this.ensureSeedAvailable(bestSeed.cropId, bestSeed.requiredAmount);
+        if (allowed.length === 0) {
+            this.logger.warn(`[SeedService] Rotação bloqueia todas as sementes disponíveis (${rotation.reason}), ignorando o bloqueio`);
+        } else {
+            candidates.splice(0, candidates.length, ...allowed);
+        }
 
-            if (!purchased) {
-                this.logger.warn('[SeedService] Não foi possível comprar sementes necessárias');
-                return null;
-            }
+        const preferred = new Set(rotation.preferred);
+        for (const candidate of candidates) {
+            candidate.preferred = preferred.has(candidate.crop.name.toLowerCase());
         }
 
-        return bestSeed;
+        candidates.sort((a, b) => Number(b.preferred) - Number(a.preferred));
+    }
+
+    /**
+     * Espaço livre no silo para o grão: o restante do próprio grão ou, se ainda
+     * não há estoque dele, o espaço livre total
+     */
+    private siloFreeKg(silo: SiloTabResponse, cropId: number): number {
+        const product = silo.cropSilo.holding[String(cropId)];
+        if (product) return Math.max(0, product.remainingCapacity);
+        return Math.max(0, silo.cropSilo.siloCapacity - silo.cropSilo.totalHolding);
+    }
+
+    /**
+     * Litros por hectare para semear e colher, pela frota da farm (0 sem previsão)
+     */
+    private fuelLitersPerHa(farmId: number | undefined, area: number): number {
+        if (!this.fuelForecast || farmId === undefined || area <= 0) return 0;
+
+        return (['seeding', 'harvesting'] as const).reduce((sum, type) => {
+            const liters = this.fuelForecast!.estimate({ type, farmId, area });
+            return sum + (liters !== null ? liters / area : 0);
+        }, 0);
+    }
+
+    private async getFuelCost(): Promise<number> {
+        if (!this.fuelForecast) return 0;
+        const status = await this.api.getFuelSilo();
+        return status.fuelCost;
+    }
+
+    private logRanking(candidates: SeedCandidate[], mode: SeedSelectionMode): void {
+        this.logger.debugLog(`[SeedService] Ranking (${mode}):`);
+
+        candidates.forEach((c, index) => {
+            const economics = c.economics
+                ? ` | receita $${Math.round(c.economics.revenuePerHa)}/ha` +
+                  (c.economics.storableRatio < 1 ? ` (${Math.round(c.economics.storableRatio * 100)}% cabe no silo)` : '') +
+                  ` - semente $${Math.round(c.economics.seedCostPerHa)}/ha - combustível $${Math.round(c.economics.fuelCostPerHa)}/ha` +
+                  ` = $${Math.round(c.economics.profitPerHaHour)}/ha/h em ${(c.seed.growTime / 3600).toFixed(1)}h`
+                : '';
+            const rank = mode === 'blend' ? ` | nota ${c.rank.toFixed(2)}` : '';
+            const rotation = c.preferred ? ' | rotação' : '';
+            this.logger.debugLog(`[SeedService]   ${index + 1}. ${c.crop.name} score ${c.crop.score}${economics}${rank}${rotation}`);
+        });
     }
 }
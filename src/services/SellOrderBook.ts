@@ -0,0 +1,200 @@
+// ============================================
+// Farm Manager Bot - Sell Order Book
+// ============================================
+
+import path from 'path';
+import {
+    CropValuesResponse,
+    SellOrder,
+    SellOrderCondition,
+    SellOrderFill,
+    SellOrderStateFile,
+    SiloProduct,
+} from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+
+const ORDERS_FILE_NAME = 'sell-orders.json';
+
+export interface NewSellOrder {
+    crop: string;
+    condition: SellOrderCondition;
+    target: number;
+    sellType: 'all' | 'half';
+    fallbackPct?: number;
+    expiresInHours?: number;
+}
+
+export interface SellOrderMatch {
+    order: SellOrder;
+    product: SiloProduct;
+    trigger: SellOrderFill['trigger'];
+    reason: string;
+}
+
+/**
+ * Ordens de venda permanentes por grão ("vender trigo com cropValuePer1k >= X",
+ * "vender metade da soja com avaliação >= 4"), guardadas em disco.
+ * O arquivo é relido a cada acesso, então a linha de comando (npm run orders)
+ * pode incluir ou cancelar ordens com o bot rodando.
+ */
+export class SellOrderBook {
+    private filePath: string;
+    private logger: Logger;
+
+    constructor(stateDir: string, logger: Logger) {
+        this.filePath = path.join(stateDir, ORDERS_FILE_NAME);
+        this.logger = logger;
+    }
+
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    /**
+     * Inclui uma ordem. Lança erro se o arquivo não puder ser gravado.
+     */
+    add(input: NewSellOrder): SellOrder {
+        const state = this.load();
+        const now = Date.now();
+
+        const order: SellOrder = {
+            id: state.nextId,
+            crop: input.crop,
+            condition: input.condition,
+            target: input.target,
+            sellType: input.sellType,
+            fallbackPct: input.fallbackPct,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: input.expiresInHours
+                ? new Date(now + input.expiresInHours * 3600 * 1000).toISOString()
+                : undefined,
+            status: 'open',
+        };
+
+        state.nextId++;
+        state.orders.push(order);
+        writeStateFile(this.filePath, state);
+        return order;
+    }
+
+    list(includeClosed: boolean = false): SellOrder[] {
+        const orders = this.load().orders;
+        return includeClosed ? orders : orders.filter(o => o.status === 'open');
+    }
+
+    /**
+     * Cancela uma ordem aberta. Retorna false se ela não existir ou já estiver fechada.
+     */
+    cancel(id: number): boolean {
+        const state = this.load();
+        const order = state.orders.find(o => o.id === id);
+        if (!order || order.status !== 'open') return false;
+
+        order.status = 'cancelled';
+        order.closedAt = new Date().toISOString();
+        writeStateFile(this.filePath, state);
+        return true;
+    }
+
+    /**
+     * Expira as ordens vencidas e retorna as que devem ser executadas agora:
+     * condição atingida ou silo no limite de segurança da ordem.
+     * Cada grão executa no máximo uma ordem por ciclo (a mais antiga).
+     */
+    match(products: SiloProduct[], values: CropValuesResponse): SellOrderMatch[] {
+        const state = this.load();
+        const now = Date.now();
+        let expired = false;
+
+        for (const order of state.orders) {
+            if (order.status === 'open' && order.expiresAt && Date.parse(order.expiresAt) <= now) {
+                order.status = 'expired';
+                order.closedAt = new Date(now).toISOString();
+                expired = true;
+                this.logger.market(`Ordem #${order.id} (${this.describe(order)}) expirou sem execução`);
+            }
+        }
+
+        if (expired) this.save(state);
+
+        const matches: SellOrderMatch[] = [];
+        const matchedProducts = new Set<number>();
+
+        for (const order of state.orders.filter(o => o.status === 'open')) {
+            const product = this.findProduct(order, products);
+            if (!product || product.amount <= 0 || matchedProducts.has(product.id)) continue;
+
+            const value = values.cropValues[String(product.id)];
+            const current = order.condition === 'price' ? value?.cropValuePer1k : value?.cropValueRating;
+
+            if (current !== undefined && current >= order.target) {
+                matches.push({ order, product, trigger: 'condition', reason: `${this.describe(order)} (atual ${current})` });
+            } else if (order.fallbackPct !== undefined && product.pctFull >= order.fallbackPct) {
+                matches.push({
+                    order,
+                    product,
+                    trigger: 'fallback',
+                    reason: `silo ${product.pctFull.toFixed(0)}% ≥ ${order.fallbackPct}% sem ${this.describe(order)}`,
+                });
+            } else {
+                continue;
+            }
+
+            matchedProducts.add(product.id);
+        }
+
+        return matches;
+    }
+
+    /**
+     * Fecha a ordem com os dados da venda
+     */
+    recordFill(id: number, fill: SellOrderFill): void {
+        const state = this.load();
+        const order = state.orders.find(o => o.id === id);
+        if (!order) return;
+
+        order.status = 'filled';
+        order.closedAt = fill.at;
+        order.fill = fill;
+        this.save(state);
+    }
+
+    /**
+     * Grãos com ordem aberta (a estratégia de venda não vende esses, exceto na venda forçada)
+     */
+    productsWithOpenOrders(products: SiloProduct[]): Set<number> {
+        const ids = new Set<number>();
+        for (const order of this.list()) {
+            const product = this.findProduct(order, products);
+            if (product) ids.add(product.id);
+        }
+        return ids;
+    }
+
+    describe(order: SellOrder): string {
+        const what = `${order.sellType === 'half' ? 'metade de ' : ''}${order.crop}`;
+        const when = order.condition === 'price'
+            ? `preço ≥ $${order.target}/1000kg`
+            : `avaliação ≥ ${order.target}`;
+        return `${what} com ${when}`;
+    }
+
+    private findProduct(order: SellOrder, products: SiloProduct[]): SiloProduct | undefined {
+        const crop = order.crop.trim().toLowerCase();
+        return products.find(p => String(p.id) === crop || p.name.toLowerCase() === crop);
+    }
+
+    private load(): SellOrderStateFile {
+        return readStateFile<SellOrderStateFile>(this.filePath, { nextId: 1, orders: [] });
+    }
+
+    private save(state: SellOrderStateFile): void {
+        try {
+            writeStateFile(this.filePath, state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar as ordens de venda: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,177 @@
+// ============================================
+// Farm Manager Bot - Sell Strategy Service
+// ============================================
+
+import { CropValue, SiloProduct } from '../types';
+import { Logger } from '../utils/logger';
+import { MarketService } from './MarketService';
+
+export type SellStrategyName = 'threshold' | 'trend' | 'percentile';
+export type SellAction = 'all' | 'half' | 'hold';
+
+export interface SellStrategySettings {
+    strategy: SellStrategyName;
+    sellThreshold: number; // % do silo a partir do qual um grão é vendido
+    forceSellPct: number; // % do silo em que a venda acontece qualquer que seja o preço
+    pricePercentile: number; // Percentil mínimo do preço no histórico para vender (percentile)
+    goodRating: number; // cropValueRating a partir do qual o preço é considerado bom (trend)
+}
+
+export interface SellContext {
+    product: SiloProduct;
+    value: CropValue | undefined;
+    history: number[];
+    settings: SellStrategySettings;
+}
+
+export interface SellDecision {
+    product: SiloProduct;
+    action: SellAction;
+    reason: string;
+    estimatedValue: number; // Receita estimada da venda pelo preço atual (0 ao segurar)
+}
+
+/**
+ * Uma estratégia decide, para um grão do silo, se vende tudo, metade ou segura
+ */
+export interface SellStrategy {
+    readonly name: SellStrategyName;
+    decide(context: SellContext): { action: SellAction; reason: string };
+}
+
+/**
+ * Vende tudo quando o grão passa do limite do silo (comportamento original)
+ */
+class ThresholdStrategy implements SellStrategy {
+    readonly name = 'threshold';
+
+    decide({ product, settings }: SellContext): { action: SellAction; reason: string } {
+        if (product.pctFull >= settings.sellThreshold) {
+            return { action: 'all', reason: `silo ${product.pctFull.toFixed(0)}% ≥ ${settings.sellThreshold}%` };
+        }
+        return { action: 'hold', reason: `silo ${product.pctFull.toFixed(0)}% abaixo do limite` };
+    }
+}
+
+/**
+ * Acima do limite, vende tudo se o preço está bom ou parou de subir;
+ * com o preço ainda subindo, vende só metade e espera pelo resto
+ */
+class TrendStrategy implements SellStrategy {
+    readonly name = 'trend';
+
+    decide({ product, value, settings }: SellContext): { action: SellAction; reason: string } {
+        if (product.pctFull < settings.sellThreshold) {
+            return { action: 'hold', reason: `silo ${product.pctFull.toFixed(0)}% abaixo do limite` };
+        }
+
+        const rating = value?.cropValueRating ?? 0;
+        if (rating >= settings.goodRating) {
+            return { action: 'all', reason: `avaliação do preço ${rating} ≥ ${settings.goodRating}` };
+        }
+
+        if (MarketService.isIncreasing(value)) {
+            return { action: 'half', reason: `preço subindo (avaliação ${rating}), guardando metade` };
+        }
+
+        return { action: 'all', reason: `preço parado ou caindo (avaliação ${rating})` };
+    }
+}
+
+/**
+ * Vende conforme a posição do preço atual no histórico: acima do percentil
+ * configurado, tudo com o silo no limite ou metade com o silo pela metade
+ */
+class PercentileStrategy implements SellStrategy {
+    readonly name = 'percentile';
+
+    decide({ product, value, history, settings }: SellContext): { action: SellAction; reason: string } {
+        const price = value?.cropValuePer1k;
+        const percentile = price !== undefined ? MarketService.pricePercentile(price, history) : null;
+        if (price === undefined || percentile === null) {
+            // Sem histórico, cai no limite do silo
+            return new ThresholdStrategy().decide({ product, value, history, settings });
+        }
+
+        const described = `preço $${price}/1000kg no percentil ${percentile.toFixed(0)}`;
+
+        if (percentile < settings.pricePercentile) {
+            return { action: 'hold', reason: `${described} (< ${settings.pricePercentile})` };
+        }
+
+        if (product.pctFull >= settings.sellThreshold) {
+            return { action: 'all', reason: described };
+        }
+
+        if (product.pctFull >= settings.sellThreshold / 2) {
+            return { action: 'half', reason: `${described}, silo ${product.pctFull.toFixed(0)}%` };
+        }
+
+        return { action: 'hold', reason: `${described}, silo ${product.pctFull.toFixed(0)}% ainda baixo` };
+    }
+}
+
+export function createSellStrategy(name: SellStrategyName): SellStrategy {
+    switch (name) {
+        case 'trend':
+            return new TrendStrategy();
+        case 'percentile':
+            return new PercentileStrategy();
+        default:
+            return new ThresholdStrategy();
+    }
+}
+
+/**
+ * Aplica a estratégia de venda configurada a cada grão do silo.
+ * Um grão prestes a transbordar é vendido por inteiro qualquer que seja a estratégia.
+ */
+export class SellStrategyService {
+    private market: MarketService;
+    private logger: Logger;
+    private settings: SellStrategySettings;
+    private strategy: SellStrategy;
+
+    constructor(market: MarketService, logger: Logger, settings: SellStrategySettings) {
+        this.market = market;
+        this.logger = logger;
+        this.settings = settings;
+        this.strategy = createSellStrategy(settings.strategy);
+    }
+
+    getStrategyName(): SellStrategyName {
+        return this.strategy.name;
+    }
+
+    /**
+     * Decide o que fazer com cada grão armazenado
+     */
+    async evaluate(products: SiloProduct[]): Promise<SellDecision[]> {
+        const stored = products.filter(p => p.amount > 0);
+        if (stored.length === 0) return [];
+
+        const market = await this.market.getMarketSnapshot();
+        const decisions: SellDecision[] = [];
+
+        for (const product of stored) {
+            const value = market.cropValues[String(product.id)];
+            const decision: { action: SellAction; reason: string } = product.pctFull >= this.settings.forceSellPct
+                ? { action: 'all', reason: `venda forçada: silo ${product.pctFull.toFixed(0)}% ≥ ${this.settings.forceSellPct}%` }
+                : this.strategy.decide({
+                    product,
+                    value,
+                    history: MarketService.priceHistory(market, product.id),
+                    settings: this.settings,
+                });
+
+            const sold = decision.action === 'all' ? product.amount : decision.action === 'half' ? product.amount / 2 : 0;
+            decisions.push({ product, ...decision, estimatedValue: MarketService.saleValue(value, sold) });
+        }
+
+        for (const decision of decisions) {
+            this.logger.debugLog(`[Sell:${this.strategy.name}] ${decision.product.name}: ${decision.action} (${decision.reason})`);
+        }
+
+        return decisions;
+    }
+}
@@ -0,0 +1,128 @@
+// ============================================
+// Farm Manager Bot - Session Store
+// ============================================
+
+import path from 'path';
+import { AccountKind, AccountState, SessionStateFile } from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+
+const SESSION_FILE_NAME = 'accounts.json';
+
+/**
+ * Guarda tokens, último PHPSESSID, último BT e user id de cada conta em disco.
+ * O arquivo é relido a cada alteração, então várias instâncias podem
+ * compartilhá-lo sem sobrescrever dados umas das outras.
+ */
+export class SessionStore {
+    private filePath: string;
+    private logger: Logger;
+
+    constructor(stateDir: string, logger: Logger) {
+        this.filePath = path.join(stateDir, SESSION_FILE_NAME);
+        this.logger = logger;
+    }
+
+    /**
+     * Chave da conta no arquivo. Inclui o host para não misturar contas do jogo e do mock.
+     */
+    static accountKey(baseUrl: string, kind: AccountKind, id: string | number): string {
+        return `${kind}:${id}@${baseUrl}`;
+    }
+
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    get(key: string): AccountState | null {
+        return this.load().accounts[key] || null;
+    }
+
+    /**
+     * Conta guest criada mais recentemente para o host (CREATE_NEW_GUEST)
+     */
+    findLatestGuest(baseUrl: string): AccountState | null {
+        const guests = Object.values(this.load().accounts)
+            .filter(a => a.kind === 'guest' && a.baseUrl === baseUrl && a.accessToken);
+
+        if (guests.length === 0) return null;
+
+        return guests.reduce((latest, current) => (current.createdAt > latest.createdAt ? current : latest));
+    }
+
+    /**
+     * Cria ou atualiza uma conta. Campos omitidos em `changes` são preservados.
+     * Lança erro se o arquivo não puder ser gravado.
+     */
+    save(key: string, kind: AccountKind, baseUrl: string, changes: Partial<AccountState> = {}): AccountState {
+        const state = this.load();
+        const now = new Date().toISOString();
+        const existing = state.accounts[key];
+
+        const account: AccountState = {
+            ...existing,
+            ...changes,
+            key,
+            kind,
+            baseUrl,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+        };
+
+        state.accounts[key] = account;
+        writeStateFile(this.filePath, state);
+        return account;
+    }
+
+    /**
+     * Atualiza apenas a sessão (PHPSESSID/BT) de uma conta já existente
+     */
+    updateSession(key: string, phpSessionId: string, bt?: string): void {
+        const state = this.load();
+        const account = state.accounts[key];
+        if (!account) return;
+
+        if (account.phpSessionId === phpSessionId && (!bt || account.bt === bt)) return;
+
+        account.phpSessionId = phpSessionId;
+        if (bt) account.bt = bt;
+        account.updatedAt = new Date().toISOString();
+        this.persist(state);
+    }
+
+    /**
+     * Descarta a sessão guardada (mantendo o token) quando ela não é mais válida
+     */
+    clearSession(key: string): void {
+        const state = this.load();
+        const account = state.accounts[key];
+        if (!account) return;
+
+        delete account.phpSessionId;
+        delete account.bt;
+        account.updatedAt = new Date().toISOString();
+        this.persist(state);
+    }
+
+    private load(): SessionStateFile {
+        try {
+            const state = readStateFile<SessionStateFile>(this.filePath, { accounts: {} });
+            return { accounts: state.accounts || {} };
+        } catch (error) {
+            // Nunca sobrescrever um arquivo ilegível: ele pode conter tokens de contas guest
+            throw new Error(`Arquivo de sessões ilegível (${this.filePath}): ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Grava alterações de sessão. Uma falha aqui não deve derrubar o ciclo,
+     * no pior caso o próximo início faz um login novo.
+     */
+    private persist(state: SessionStateFile): void {
+        try {
+            writeStateFile(this.filePath, state);
+        } catch (error) {
+            this.logger.error(`Falha ao gravar ${this.filePath}`, error as Error);
+        }
+    }
+}
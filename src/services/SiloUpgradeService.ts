@@ -0,0 +1,190 @@
+// ============================================
+// Farm Manager Bot - Silo Upgrade Service
+// ============================================
+
+import { ApiClient } from '../api/client';
+import {
+    CropSiloUpgradeSize,
+    CropValuesResponse,
+    FuelSiloResponse,
+    SiloKind,
+    SiloTabResponse,
+} from '../types';
+import { Logger } from '../utils/logger';
+
+// Silo de combustível considerado cheio: não dá para aproveitar um preço bom
+const FUEL_SILO_FULL_PCT = 90;
+
+export interface SiloUpgradeSettings {
+    sellThreshold: number; // % a partir do qual um grão seria vendido
+    cashReserve: number; // Saldo ($) que nunca é gasto com ampliações
+    maxPaybackFills: number; // Enchimentos do silo para a ampliação se pagar
+}
+
+export interface SiloUpgradeOption {
+    kind: SiloKind;
+    size?: CropSiloUpgradeSize; // Apenas silo de grãos
+    cost: number;
+    capacity: number; // Capacidade adicionada
+    valuePerFill: number; // Ganho estimado ($) cada vez que a capacidade extra é usada
+    paybackFills: number;
+    reason: string;
+}
+
+/**
+ * Decide quando ampliar os silos de grãos e de combustível.
+ *
+ * Grãos: a capacidade extra permite guardar, em vez de vender, os grãos que
+ * passariam do limite de venda enquanto o preço está abaixo da média histórica.
+ * Combustível: com o silo cheio, a capacidade extra permite comprar mais
+ * quando o preço está abaixo da média.
+ * A ampliação só é feita se se pagar em poucos enchimentos e sem tocar na reserva.
+ */
+export class SiloUpgradeService {
+    private api: ApiClient;
+    private logger: Logger;
+
+    constructor(api: ApiClient, logger: Logger) {
+        this.api = api;
+        this.logger = logger;
+    }
+
+    /**
+     * Escolhe a ampliação com retorno mais rápido, ou null quando nenhuma compensa
+     */
+    async planUpgrade(settings: SiloUpgradeSettings): Promise<SiloUpgradeOption | null> {
+        const silo = await this.api.getSiloTab();
+        const values = await this.api.getCropValues();
+        const fuel = await this.api.getFuelSilo();
+
+        const budget = fuel.user.account - settings.cashReserve;
+        const options = [
+            ...this.evaluateCropSilo(silo, values, settings),
+            ...this.evaluateFuelSilo(fuel),
+        ];
+
+        for (const option of options) {
+            this.logger.debugLog(
+                `[SiloUpgrade] ${this.describe(option)}: custo $${option.cost.toLocaleString()}, ` +
+                `~$${Math.round(option.valuePerFill).toLocaleString()} por enchimento (${option.reason})`
+            );
+        }
+
+        const viable = options
+            .filter(o => o.paybackFills <= settings.maxPaybackFills)
+            .sort((a, b) => a.paybackFills - b.paybackFills);
+
+        const choice = viable.find(o => o.cost <= budget);
+        if (!choice && viable.length > 0) {
+            this.logger.debugLog(
+                `[SiloUpgrade] Ampliação vantajosa, mas o saldo ($${fuel.user.account.toLocaleString()}) ` +
+                `não cobre o custo acima da reserva de $${settings.cashReserve.toLocaleString()}`
+            );
+        }
+
+        return choice || null;
+    }
+
+    /**
+     * Executa a ampliação planejada
+     */
+    async apply(option: SiloUpgradeOption): Promise<boolean> {
+        const response = option.kind === 'crop'
+            ? await this.api.upgradeCropSilo(option.size!)
+            : await this.api.upgradeFuelSilo();
+
+        if (response.success !== 1) {
+            const errorMsg = response.errors?.join(', ') || 'Erro desconhecido';
+            this.logger.warn(`Falha ao ampliar ${this.describe(option)}: ${errorMsg}`);
+            return false;
+        }
+
+        this.logger.success(
+            `🏗️ ${this.describe(option)} ampliado em ${option.capacity.toLocaleString()} por ` +
+            `$${(response.cost || option.cost).toLocaleString()} - ${option.reason}`
+        );
+        return true;
+    }
+
+    /**
+     * Grãos no limite de venda com preço abaixo da média: a capacidade extra
+     * vai para os de maior diferença de preço primeiro
+     */
+    private evaluateCropSilo(
+        silo: SiloTabResponse,
+        values: CropValuesResponse,
+        settings: SiloUpgradeSettings
+    ): SiloUpgradeOption[] {
+        const held = Object.values(silo.cropSilo.holding)
+            .filter(p => p.pctFull >= settings.sellThreshold && p.amount > 0)
+            .map(p => {
+                const current = values.cropValues[String(p.id)]?.cropValuePer1k || 0;
+                const average = this.average(values.history[String(p.id)]);
+                return { name: p.name, amount: p.amount, gap: average - current };
+            })
+            .filter(p => p.gap > 0)
+            .sort((a, b) => b.gap - a.gap);
+
+        if (held.length === 0) return [];
+
+        const options: SiloUpgradeOption[] = [];
+
+        for (const size of Object.keys(silo.increase) as CropSiloUpgradeSize[]) {
+            const { cost, capacity } = silo.increase[size];
+            if (capacity <= 0) continue;
+
+            let remaining = capacity;
+            let value = 0;
+            for (const product of held) {
+                const kg = Math.min(remaining, product.amount);
+                value += (kg / 1000) * product.gap;
+                remaining -= kg;
+                if (remaining <= 0) break;
+            }
+
+            if (value <= 0) continue;
+
+            options.push({
+                kind: 'crop',
+                size,
+                cost,
+                capacity,
+                valuePerFill: value,
+                paybackFills: cost / value,
+                reason: `${held.map(p => p.name).join(', ')} abaixo da média de preço`,
+            });
+        }
+
+        return options;
+    }
+
+    private evaluateFuelSilo(fuel: FuelSiloResponse): SiloUpgradeOption[] {
+        const { cost, capacity } = fuel.increase;
+        if (capacity <= 0 || fuel.fuelSilo.pctFull < FUEL_SILO_FULL_PCT) return [];
+
+        const average = this.average(fuel.fuelHistory.map(h => h.price));
+        const gap = average - fuel.fuelCost;
+        if (gap <= 0) return [];
+
+        // fuelCost é o preço por 1000L
+        const value = (capacity / 1000) * gap;
+
+        return [{
+            kind: 'fuel',
+            cost,
+            capacity,
+            valuePerFill: value,
+            paybackFills: cost / value,
+            reason: `silo ${fuel.fuelSilo.pctFull.toFixed(0)}% cheio com combustível a $${fuel.fuelCost} (média $${Math.round(average)})`,
+        }];
+    }
+
+    private describe(option: SiloUpgradeOption): string {
+        return option.kind === 'crop' ? `Silo de grãos (${option.size})` : 'Silo de combustível';
+    }
+
+    private average(prices: number[] | undefined): number {
+        if (!prices || prices.length === 0) return 0;
+        return prices.reduce((sum, p) => sum + p, 0) / prices.length;
+    }
+}
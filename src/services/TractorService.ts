@@ -11,16 +11,29 @@ import {
     AvailableTractor,
     OperationType,
     BatchActionUnit,
+    FarmlandActionResponse,
+    FarmlandDetailsResponse,
+    EquipmentCategory,
 } from '../types';
 import { Logger } from '../utils/logger';
+import { MaintenanceService } from './MaintenanceService';
+
+// Operação de que o campo vai precisar quando a operação em andamento terminar
+const NEXT_OP_TYPE: Record<string, string> = {
+    clearing: 'plowing',
+    plowing: 'seeding',
+    harvesting: 'plowing',
+};
 
 export class TractorService {
     private api: ApiClient;
     private logger: Logger;
+    private maintenance: MaintenanceService | null;
 
-    constructor(api: ApiClient, logger: Logger) {
+    constructor(api: ApiClient, logger: Logger, maintenance: MaintenanceService | null = null) {
         this.api = api;
         this.logger = logger;
+        this.maintenance = maintenance;
     }
 
     /**
@@ -229,7 +242,7 @@ export class TractorService {
         farmId: number,
         area: number,
         complexityIndex: number,
-        equipment: any
+        equipment: FarmlandDetailsResponse['equipment']
     ): Promise<{
         tractorId: number;
         implementId?: number;
@@ -251,7 +264,7 @@ export class TractorService {
             }
 
             // Filtrar apenas tratores do tipo correto e que não estão pendentes
-            const availableTractors = response.tractors.filter((t: any) =>
+            const availableTractors = response.tractors.filter(t =>
                 t.type === opType && !t.isPending && t.hasImplement
             );
 
@@ -261,11 +274,11 @@ export class TractorService {
             }
 
             // Ordenar por haHour (maior = mais rápido)
-            availableTractors.sort((a: any, b: any) => (b.haHour || 0) - (a.haHour || 0));
+            availableTractors.sort((a, b) => (b.haHour || 0) - (a.haHour || 0));
 
             const bestTractor = availableTractors[0];
 
-            this.logger.debugLog(`[${opType}] Tratores disponíveis ordenados: ${JSON.stringify(availableTractors.map((t: any) => ({ id: t.id, name: t.tractorName, haHour: t.haHour })))}`);
+            this.logger.debugLog(`[${opType}] Tratores disponíveis ordenados: ${JSON.stringify(availableTractors.map(t => ({ id: t.id, name: t.tractorName, haHour: t.haHour })))}`);
             this.logger.debugLog(`[${opType}] Melhor trator: ${bestTractor.tractorName} (id: ${bestTractor.id}, haHour: ${bestTractor.haHour}, implement: ${bestTractor.implementId})`);
 
             // Usar opDuration do equipment se disponível
@@ -359,6 +372,45 @@ export class TractorService {
         };
     }
 
+    /**
+     * Seleciona as unidades mais rápidas de uma categoria de equipamento de farmland-details,
+     * respeitando o limite do jogo (maxUnitsToUse) e o limite configurado
+     */
+    selectEquipmentUnits(
+        category: EquipmentCategory | undefined,
+        maxUnits: number
+    ): { tractorId: number; implementId?: number; haHour: number }[] {
+        if (!category?.data?.available || !category.units || category.units.length === 0) {
+            return [];
+        }
+
+        const limit = Math.min(maxUnits, category.data.maxUnitsToUse || maxUnits, category.data.available);
+
+        this.maintenance?.observeUnits(category.units);
+
+        return [...category.units]
+            .sort((a, b) => (b.haHour || 0) - (a.haHour || 0))
+            .map(unit => ({ tractorId: unit.id || unit.heavyId || 0, implementId: unit.implementId, haHour: unit.haHour || 0 }))
+            .filter(unit => unit.tractorId !== 0 && !this.isWornUnit(unit))
+            .slice(0, limit);
+    }
+
+    /**
+     * Máquina ou implemento acima do limite de desgaste fica fora das operações
+     */
+    private isWornUnit(unit: { tractorId: number; implementId?: number }): boolean {
+        if (!this.maintenance) return false;
+
+        const worn = this.maintenance.isWorn('tractor', unit.tractorId) ||
+            (!!unit.implementId && this.maintenance.isWorn('implement', unit.implementId));
+
+        if (worn) {
+            this.logger.debugLog(`[Maintenance] Unidade ${unit.tractorId} desgastada, fora da operação`);
+        }
+
+        return worn;
+    }
+
     /**
      * Prepara os dados de unidades para uma ação batch
      */
@@ -407,85 +459,36 @@ export class TractorService {
     } | null> {
         try {
             // 1. Buscar tratores disponíveis para esta operação
-            let response: any;
+            let response: FarmlandActionResponse;
             if (opType === 'seeding') {
                 response = await this.api.getFarmlandActionSeed(farmlandId, farmId, area, complexityIndex);
             } else if (opType === 'plowing') {
                 response = await this.api.getFarmlandActionPlow(farmlandId, farmId, area, complexityIndex);
-            } else if (opType === 'harvesting') {
-                // Para harvesting: buscar colheitadeiras disponíveis e aplicar verificação de ociosidade
-                const equipment = await this.getEquipmentForFarmland(farmlandId, opType);
-                if (!equipment) return null;
-
-                // Montar lista de colheitadeiras disponíveis
-                const harvesters: { tractorId: number; implementId?: number; haHour: number }[] = [
-                    { tractorId: equipment.tractorId, implementId: equipment.implementId, haHour: equipment.haHour }
-                ];
-
-                // TODO: Em uma implementação futura, buscar todas as colheitadeiras disponíveis
-                // Por agora, usar apenas a melhor colheitadeira encontrada
-
-                // Verificar operações pendentes (campos em maturação) para não deixar ociosos
-                const pendingOps = await this.getPendingOperationsInFarm(farmId);
-                const maturingFields = pendingOps.filter(op => op.opType === 'harvesting');
-
-                if (maturingFields.length > 0 && harvesters.length > 0) {
-                    // Verificar se algum campo vai precisar de colheitadeira em breve
-                    const estimatedDuration = equipment.estimatedDuration;
-
-                    for (const maturing of maturingFields) {
-                        const timeUntilMature = maturing.opTimeRemain;
-                        const potentialIdleTime = estimatedDuration - timeUntilMature;
-
-                        if (potentialIdleTime > maxIdleTimeMinutes * 60 && potentialIdleTime > 0) {
-                            this.logger.info(
-                                `⚠️ Campo "${maturing.farmlandName}" vai precisar de colheita em ` +
-                                `${Math.ceil(timeUntilMature / 60)}min. Considerando isso na alocação.`
-                            );
-                        }
-                    }
-                }
-
-                this.logger.debugLog(
-                    `[Harvester] Usando colheitadeira ${equipment.tractorId} ` +
-                    `(${equipment.haHour} ha/h, ~${Math.ceil(equipment.estimatedDuration / 60)}min)`
-                );
-
-                return {
-                    tractors: harvesters,
-                    totalHaHour: equipment.haHour,
-                    estimatedDuration: equipment.estimatedDuration,
-                    opType,
-                };
             } else {
-                // Para clearing, usar lógica simples (equipamento único)
-                const equipment = await this.getEquipmentForFarmland(farmlandId, opType);
-                if (!equipment) return null;
-                return {
-                    tractors: [{ tractorId: equipment.tractorId, implementId: equipment.implementId, haHour: equipment.haHour }],
-                    totalHaHour: equipment.haHour,
-                    estimatedDuration: equipment.estimatedDuration,
-                    opType,
-                };
+                // Colheitadeiras e máquinas de limpeza não usam implementos: vêm direto de farmland-details
+                return this.getOptimalUnits(farmlandId, farmId, area, opType, maxTractors, maxIdleTimeMinutes);
             }
 
+            this.maintenance?.observeFarmlandAction(response);
+
             if (!response.tractors || response.tractors.length === 0) {
                 this.logger.debugLog(`[MultiTractor] Nenhum trator disponível para ${opType}`);
                 return null;
             }
 
-            // 2. Filtrar tratores do tipo correto e não pendentes
-            const availableTractors = response.tractors.filter((t: any) =>
-                t.type === opType && !t.isPending && t.hasImplement
+            // 2. Filtrar tratores do tipo correto, não pendentes e não desgastados
+            const availableTractors = response.tractors.filter(t =>
+                t.type === opType && !t.isPending && t.hasImplement &&
+                !this.isWornUnit({ tractorId: t.id, implementId: t.implementId })
             );
 
             // 3. Verificar implementos disponíveis para auto-attach
-            const availableImplements = (response.implements || []).filter((i: any) =>
-                i.type === opType && i.available > 0
+            const availableImplements = (response.implements || []).filter(i =>
+                i.type === opType && i.available > 0 && !this.maintenance?.isWorn('implement', i.id)
             );
 
             // 4. Tratores sem implemento mas que podem receber um
-            const tractorsWithoutImplement = response.tractors.filter((t: any) =>
+            const tractorsWithoutImplement = response.tractors.filter(t =>
                 t.type !== opType && !t.isPending && !t.hasImplement
             );
 
@@ -507,10 +510,11 @@ export class TractorService {
                 if (usableTractors.length >= maxTractors) break;
 
                 // Encontrar um trator que possa usar este implemento
-                const compatibleTractor = response.tractors.find((t: any) =>
+                const compatibleTractor = response.tractors.find(t =>
                     !t.isPending &&
                     t.hp >= implement.minHp &&
-                    !usableTractors.some(u => u.tractorId === t.id)
+                    !usableTractors.some(u => u.tractorId === t.id) &&
+                    !this.maintenance?.isWorn('tractor', t.id)
                 );
 
                 if (compatibleTractor) {
@@ -533,34 +537,13 @@ export class TractorService {
 
             // 7. Verificar operações pendentes para não deixar campos ociosos
             const pendingOps = await this.getPendingOperationsInFarm(farmId);
-
-            // Calcular quantos tratores podemos usar sem deixar campos ociosos por muito tempo
-            let tractorsToUse = usableTractors.slice(0, maxTractors);
-
-            if (pendingOps.length > 0 && tractorsToUse.length > 1) {
-                // Calcular tempo de operação com N tratores (haHour já considera complexidade)
-                const totalHaHour = tractorsToUse.reduce((sum, t) => sum + t.haHour, 0);
-                const operationTimeSeconds = (area / totalHaHour) * 3600;
-
-                // Verificar se alguma operação pendente vai precisar de trator
-                for (const pending of pendingOps) {
-                    const timeUntilNeedsTractor = pending.opTimeRemain; // segundos
-                    const potentialIdleTime = operationTimeSeconds - timeUntilNeedsTractor;
-
-                    if (potentialIdleTime > maxIdleTimeMinutes * 60) {
-                        // Reduzir número de tratores para que a operação termine mais rápido? Não!
-                        // Na verdade, precisamos reservar pelo menos 1 trator para o campo pendente
-                        if (tractorsToUse.length > 1) {
-                            this.logger.info(
-                                `⚠️ Campo "${pending.farmlandName}" vai precisar de trator em ${Math.ceil(timeUntilNeedsTractor / 60)}min. ` +
-                                `Reservando 1 trator para ele.`
-                            );
-                            tractorsToUse = tractorsToUse.slice(0, tractorsToUse.length - 1);
-                        }
-                        break;
-                    }
-                }
-            }
+            const tractorsToUse = this.reserveForPending(
+                usableTractors.slice(0, maxTractors),
+                area,
+                pendingOps,
+                maxIdleTimeMinutes,
+                'trator'
+            );
 
             // 8. Calcular totais finais
             const finalTotalHaHour = tractorsToUse.reduce((sum, t) => sum + t.haHour, 0);
@@ -584,6 +567,102 @@ export class TractorService {
         }
     }
 
+    /**
+     * Seleciona todas as unidades disponíveis de colheita ou limpeza para o terreno
+     * (até maxUnits, incluindo equipamento pesado), reservando uma para campos
+     * da mesma farm que vão precisar dela durante a operação
+     */
+    private async getOptimalUnits(
+        farmlandId: number,
+        farmId: number,
+        area: number,
+        opType: 'harvesting' | 'clearing',
+        maxUnits: number,
+        maxIdleTimeMinutes: number
+    ): Promise<{
+        tractors: { tractorId: number; implementId?: number; haHour: number }[];
+        totalHaHour: number;
+        estimatedDuration: number;
+        opType: string;
+    } | null> {
+        const details = await this.api.getFarmlandDetails(farmlandId);
+        const category = details.equipment?.[opType];
+        const unitLabel = opType === 'harvesting' ? 'colheitadeira' : 'máquina de limpeza';
+
+        const available = this.selectEquipmentUnits(category, maxUnits);
+        if (available.length === 0) {
+            this.logger.debugLog(`[MultiUnit] Nenhuma ${unitLabel} disponível`);
+            return null;
+        }
+
+        // Só disputam estas unidades os campos que vão precisar da mesma operação
+        const pendingOps = await this.getPendingOperationsInFarm(farmId);
+        const units = this.reserveForPending(
+            available,
+            area,
+            pendingOps.filter(op => op.nextOpType === opType),
+            maxIdleTimeMinutes,
+            unitLabel
+        );
+
+        const totalHaHour = units.reduce((sum, u) => sum + u.haHour, 0);
+        // Sem haHour nas unidades, usar a duração informada pelo jogo
+        const estimatedDuration = totalHaHour > 0
+            ? Math.ceil((area / totalHaHour) * 3600)
+            : category.data.opDuration || 0;
+
+        this.logger.info(
+            `${opType === 'harvesting' ? '🌾 Multi-harvester' : '🪓 Multi-clearing'}: Usando ${units.length} ` +
+            `${opType === 'harvesting' ? 'colheitadeira(s)' : 'máquina(s) de limpeza'} ` +
+            `(${totalHaHour} ha/h total, ~${Math.ceil(estimatedDuration / 60)}min)`
+        );
+
+        return {
+            tractors: units,
+            totalHaHour,
+            estimatedDuration,
+            opType,
+        };
+    }
+
+    /**
+     * Libera a unidade mais lenta quando, com todas as unidades, a operação terminaria
+     * depois que um campo pendente precisar de máquina (ficando ocioso mais que o limite)
+     */
+    private reserveForPending<T extends { tractorId: number; haHour: number }>(
+        units: T[],
+        area: number,
+        pendingOps: { farmlandName: string; opTimeRemain: number }[],
+        maxIdleTimeMinutes: number,
+        unitLabel: string
+    ): T[] {
+        if (pendingOps.length === 0 || units.length <= 1) {
+            return units;
+        }
+
+        // Calcular tempo de operação com N unidades (haHour já considera complexidade)
+        const totalHaHour = units.reduce((sum, u) => sum + u.haHour, 0);
+        if (totalHaHour <= 0) return units;
+        const operationTimeSeconds = (area / totalHaHour) * 3600;
+
+        // Verificar se alguma operação pendente vai precisar de máquina
+        for (const pending of pendingOps) {
+            const timeUntilNeedsUnit = pending.opTimeRemain; // segundos
+            const potentialIdleTime = operationTimeSeconds - timeUntilNeedsUnit;
+
+            if (potentialIdleTime > maxIdleTimeMinutes * 60) {
+                // Reservar pelo menos 1 unidade para o campo pendente
+                this.logger.info(
+                    `⚠️ Campo "${pending.farmlandName}" vai precisar de ${unitLabel} em ${Math.ceil(timeUntilNeedsUnit / 60)}min. ` +
+                    `Reservando 1 ${unitLabel} para ele.`
+                );
+                return units.slice(0, units.length - 1);
+            }
+        }
+
+        return units;
+    }
+
     /**
      * Obtém operações pendentes (em andamento) em uma farm
      */
@@ -591,11 +670,12 @@ export class TractorService {
         farmlandId: number;
         farmlandName: string;
         opType: string;
+        nextOpType: string;
         opTimeRemain: number;
     }[]> {
         try {
             const pending = await this.api.getPendingTab();
-            const operations: { farmlandId: number; farmlandName: string; opType: string; opTimeRemain: number }[] = [];
+            const operations: { farmlandId: number; farmlandName: string; opType: string; nextOpType: string; opTimeRemain: number }[] = [];
 
             if (pending.farmlands?.operating) {
                 for (const [id, op] of Object.entries(pending.farmlands.operating)) {
@@ -604,6 +684,7 @@ export class TractorService {
                             farmlandId: op.farmlandId,
                             farmlandName: op.farmlandName,
                             opType: op.opType,
+                            nextOpType: NEXT_OP_TYPE[op.opType] || '',
                             opTimeRemain: op.opTimeRemain,
                         });
                     }
@@ -617,6 +698,7 @@ export class TractorService {
                             farmlandId: op.farmlandId,
                             farmlandName: op.farmlandName,
                             opType: 'harvesting', // Vai precisar colher
+                            nextOpType: 'harvesting',
                             opTimeRemain: op.opTimeRemain,
                         });
                     }
@@ -0,0 +1,164 @@
+// ============================================
+// Farm Manager Bot - Worker Service
+// ============================================
+
+import path from 'path';
+import { ApiClient } from '../api/client';
+import { AvailableTask, BatchActionResponse, WorkerStateFile } from '../types';
+import { Logger } from '../utils/logger';
+import { readStateFile, writeStateFile } from '../utils/stateFile';
+
+const WORKERS_FILE_NAME = 'workers.json';
+
+export interface WorkerSettings {
+    maxWaitMinutes: number; // Espera máxima por uma máquina antes de contratar trabalhadores
+    dailyBudget: number; // Gasto máximo por dia ($), 0 = sem limite
+}
+
+export interface WorkerOffer {
+    available: number;
+    waitSeconds: number; // Até uma máquina ficar livre (Infinity quando o jogo não informa)
+    estimatedCost: number | null; // null quando o jogo não informa o custo
+}
+
+export interface WorkerCycleSummary {
+    operations: number;
+    spent: number;
+    spentToday: number;
+    dailyBudget: number;
+}
+
+/**
+ * Decide quando contratar trabalhadores para operações sem máquina livre
+ * e controla o gasto diário com eles (persistido em disco, vale entre reinícios)
+ */
+export class WorkerService {
+    private api: ApiClient;
+    private logger: Logger;
+    private filePath: string;
+
+    private state: WorkerStateFile;
+    private cycleOperations: number = 0;
+    private cycleSpent: number = 0;
+
+    constructor(api: ApiClient, logger: Logger, stateDir: string) {
+        this.api = api;
+        this.logger = logger;
+        this.filePath = path.join(stateDir, WORKERS_FILE_NAME);
+        this.state = this.load();
+    }
+
+    /**
+     * Zera os contadores do ciclo (e do dia, na virada)
+     */
+    startCycle(): void {
+        this.rollDay();
+        this.cycleOperations = 0;
+        this.cycleSpent = 0;
+    }
+
+    /**
+     * Consulta se há trabalhadores para a operação do terreno, quanto custam
+     * e quanto tempo a tarefa esperaria por uma máquina
+     */
+    async getOffer(task: AvailableTask): Promise<WorkerOffer | null> {
+        const details = await this.api.getFarmlandDetails(task.farmlandId);
+        const data = details.equipment?.[task.type]?.data;
+
+        if (!data?.workersAvailable) {
+            this.logger.debugLog(`[Workers] Nenhum trabalhador disponível para ${task.type} em "${task.farmlandName}"`);
+            return null;
+        }
+
+        return {
+            available: data.workersAvailable,
+            waitSeconds: data.nextUnitAvailableIn ?? Infinity,
+            estimatedCost: data.workerCostPerHa !== undefined ? Math.round(data.workerCostPerHa * task.area) : null,
+        };
+    }
+
+    /**
+     * Verifica se vale contratar trabalhadores: a espera passa do limite e o custo cabe no orçamento do dia
+     */
+    shouldHire(task: AvailableTask, offer: WorkerOffer, settings: WorkerSettings): boolean {
+        this.rollDay();
+
+        const waitMinutes = Math.ceil(offer.waitSeconds / 60);
+        if (offer.waitSeconds <= settings.maxWaitMinutes * 60) {
+            this.logger.debugLog(
+                `[Workers] "${task.farmlandName}" espera só ~${waitMinutes}min por uma máquina (limite ${settings.maxWaitMinutes}min)`
+            );
+            return false;
+        }
+
+        if (settings.dailyBudget > 0) {
+            // Com orçamento, não contrata sem saber quanto vai custar
+            if (offer.estimatedCost === null) {
+                this.logger.debugLog(`[Workers] Custo dos trabalhadores desconhecido para "${task.farmlandName}", sem contratação`);
+                return false;
+            }
+
+            const remaining = settings.dailyBudget - this.state.spentToday;
+
+            if (offer.estimatedCost > remaining) {
+                this.logger.debugLog(
+                    `[Workers] Orçamento do dia insuficiente para "${task.farmlandName}": ` +
+                    `restam $${Math.max(remaining, 0).toLocaleString()}, custo estimado $${offer.estimatedCost.toLocaleString()}`
+                );
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Contabiliza o gasto real devolvido pela ação
+     */
+    recordHire(response: BatchActionResponse, offer: WorkerOffer): number {
+        this.rollDay();
+
+        const cost = response.sumExpense || offer.estimatedCost || 0;
+        this.state.spentToday += cost;
+        this.save();
+        this.cycleSpent += cost;
+        this.cycleOperations++;
+
+        return cost;
+    }
+
+    getCycleSummary(dailyBudget: number): WorkerCycleSummary {
+        return {
+            operations: this.cycleOperations,
+            spent: this.cycleSpent,
+            spentToday: this.state.spentToday,
+            dailyBudget,
+        };
+    }
+
+    private rollDay(): void {
+        const today = new Date().toDateString();
+        if (today !== this.state.day) {
+            this.state = { day: today, spentToday: 0 };
+            this.save();
+        }
+    }
+
+    private load(): WorkerStateFile {
+        const fallback: WorkerStateFile = { day: new Date().toDateString(), spentToday: 0 };
+        try {
+            return readStateFile<WorkerStateFile>(this.filePath, fallback);
+        } catch (error) {
+            this.logger.warn(`Gasto com trabalhadores ilegível (${this.filePath}), começando do zero: ${(error as Error).message}`);
+            return fallback;
+        }
+    }
+
+    private save(): void {
+        try {
+            writeStateFile(this.filePath, this.state);
+        } catch (error) {
+            this.logger.warn(`Não foi possível gravar o gasto com trabalhadores: ${(error as Error).message}`);
+        }
+    }
+}
@@ -5,7 +5,20 @@
 export { FarmService } from './FarmService';
 export { TractorService } from './TractorService';
 export { SiloService } from './SiloService';
+export { SiloUpgradeService } from './SiloUpgradeService';
 export { MarketService } from './MarketService';
+export { SellStrategyService } from './SellStrategyService';
+export { SellOrderBook } from './SellOrderBook';
 export { SeedService } from './SeedService';
+export { CropRotationService } from './CropRotationService';
 export { AuthService } from './AuthService';
 export { FuelService } from './FuelService';
+export { FuelForecastService } from './FuelForecastService';
+export { FertilizingService } from './FertilizingService';
+export { IrrigationService } from './IrrigationService';
+export { BatchActionService } from './BatchActionService';
+export { WorkerService } from './WorkerService';
+export { ImplementService } from './ImplementService';
+export { MaintenanceService } from './MaintenanceService';
+export { FleetAdvisorService } from './FleetAdvisorService';
+export { SessionStore } from './SessionStore';
@@ -0,0 +1,93 @@
+// ============================================
+// Farm Manager Bot - Crop Rotation Service Tests
+// ============================================
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CropRotationService, CropRotationSettings } from '../services/CropRotationService';
+import { AvailableTask } from '../types';
+import { Logger } from '../utils/logger';
+
+const stateDirs: string[] = [];
+
+function createService(settings: Partial<CropRotationSettings> = {}): CropRotationService {
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-bot-test-'));
+    stateDirs.push(stateDir);
+    return new CropRotationService(stateDir, new Logger('Test', false), {
+        maxRepeats: 1,
+        followUps: {},
+        farmPlans: {},
+        ...settings,
+    });
+}
+
+function seeding(cropName?: string, previousCrop?: string): AvailableTask {
+    return {
+        type: 'seeding',
+        farmId: 1,
+        farmlandId: 5001,
+        userFarmlandId: 101,
+        area: 5,
+        complexityIndex: 1,
+        farmlandName: 'Campo 101',
+        cropName,
+        previousCrop,
+    };
+}
+
+describe('CropRotationService', () => {
+    afterEach(() => {
+        for (const dir of stateDirs.splice(0)) {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('bloqueia a cultura plantada maxRepeats vezes seguidas', () => {
+        const service = createService({ maxRepeats: 2 });
+
+        service.recordSeeding(seeding('Trigo'));
+        assert.equal(service.getConstraints(seeding()), null);
+
+        service.recordSeeding(seeding('Trigo'));
+        assert.deepEqual(service.getConstraints(seeding())!.blocked, ['trigo']);
+    });
+
+    test('previousSeed revela plantios feitos fora do bot', () => {
+        const service = createService({ followUps: { soja: ['milho'] } });
+
+        const constraints = service.getConstraints(seeding(undefined, 'Soja'));
+
+        assert.deepEqual(service.getHistory(101), ['soja']);
+        assert.deepEqual(constraints, {
+            blocked: ['soja'],
+            preferred: ['milho'],
+            reason: 'soja plantado 1x seguida(s); depois de soja: milho',
+        });
+
+        // A mesma cultura anterior não é registrada de novo
+        service.getConstraints(seeding(undefined, 'soja'));
+        assert.deepEqual(service.getHistory(101), ['soja']);
+    });
+
+    test('o plano da farm tem prioridade e recomeça no fim', () => {
+        const service = createService({ maxRepeats: 0, followUps: { milho: ['soja'] }, farmPlans: { 1: ['trigo', 'milho'] } });
+
+        assert.deepEqual(service.getConstraints(seeding())!.preferred, ['trigo']);
+
+        service.recordSeeding(seeding('Milho'));
+        assert.deepEqual(service.getConstraints(seeding())!.preferred, ['trigo']);
+    });
+
+    test('o histórico sobrevive a um novo processo', () => {
+        const service = createService();
+        service.recordSeeding(seeding('Trigo'));
+
+        const stateDir = stateDirs[0];
+        const reloaded = new CropRotationService(stateDir, new Logger('Test', false), { maxRepeats: 1, followUps: {}, farmPlans: {} });
+
+        assert.deepEqual(reloaded.getHistory(101), ['trigo']);
+    });
+});
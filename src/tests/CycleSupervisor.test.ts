@@ -0,0 +1,72 @@
+// ============================================
+// Farm Manager Bot - Cycle Supervisor Tests
+// ============================================
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CycleSupervisor } from '../bot/CycleSupervisor';
+import { Logger } from '../utils/logger';
+
+function createSupervisor(cycleTimeoutMs: number = 1000, stepTimeoutMs: number = 500): CycleSupervisor {
+    return new CycleSupervisor({ cycleTimeoutMs, stepTimeoutMs }, new Logger('Test', false));
+}
+
+describe('CycleSupervisor', () => {
+    test('uma etapa com erro não impede as seguintes', async () => {
+        const supervisor = createSupervisor();
+        const ran: string[] = [];
+
+        const record = await supervisor.run([
+            { name: 'harvest', run: async () => { throw new Error('falhou'); } },
+            { name: 'seed', run: async () => { ran.push('seed'); } },
+        ]);
+
+        assert.deepEqual(record!.steps.map(s => s.outcome), ['error', 'ok']);
+        assert.equal(record!.steps[0].error, 'falhou');
+        assert.deepEqual(ran, ['seed']);
+    });
+
+    test('etapa que estoura o timeout pula as restantes e segura o próximo ciclo até terminar', async () => {
+        const supervisor = createSupervisor(1000, 20);
+        let finish!: () => void;
+        const slow = new Promise<void>(resolve => (finish = resolve));
+
+        const record = await supervisor.run([
+            { name: 'harvest', run: () => slow },
+            { name: 'seed', run: async () => undefined },
+        ]);
+
+        assert.deepEqual(record!.steps.map(s => s.outcome), ['timeout', 'skipped']);
+        assert.equal(await supervisor.run([{ name: 'seed', run: async () => undefined }]), null);
+
+        finish();
+        await sleep(0);
+
+        const next = await supervisor.run([{ name: 'seed', run: async () => undefined }]);
+        assert.deepEqual(next!.steps.map(s => s.outcome), ['ok']);
+    });
+
+    test('etapas depois do timeout do ciclo são puladas', async () => {
+        const supervisor = createSupervisor(30, 1000);
+
+        const record = await supervisor.run([
+            { name: 'harvest', run: () => sleep(40) },
+            { name: 'seed', run: async () => undefined },
+        ]);
+
+        assert.equal(record!.steps[0].outcome, 'timeout');
+        assert.deepEqual(record!.steps[1], { step: 'seed', outcome: 'skipped', durationMs: 0, error: 'timeout do ciclo' });
+    });
+
+    test('não roda dois ciclos ao mesmo tempo', async () => {
+        const supervisor = createSupervisor();
+
+        const first = supervisor.run([{ name: 'harvest', run: () => sleep(20) }]);
+        const second = await supervisor.run([{ name: 'harvest', run: async () => undefined }]);
+
+        assert.equal(second, null);
+        assert.ok(await first);
+        assert.equal(supervisor.getHistory().length, 1);
+    });
+});
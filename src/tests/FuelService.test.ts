@@ -0,0 +1,96 @@
+// ============================================
+// Farm Manager Bot - Fuel Service Tests
+// ============================================
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiClient } from '../api/client';
+import { MockFarmServer } from '../mock/MockFarmServer';
+import { FuelService } from '../services/FuelService';
+import { Logger } from '../utils/logger';
+
+const running: Array<{ server: MockFarmServer; stateDir: string }> = [];
+
+/**
+ * FuelService ligado a um mock novo (silo com 5.000L de 20.000L, $900/1000L) e com
+ * `historyPrice` gravado como o preço das últimas 24h
+ */
+async function createService(historyPrice: number | null): Promise<{ server: MockFarmServer; fuel: FuelService }> {
+    const server = new MockFarmServer();
+    const baseUrl = await server.start();
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-bot-test-'));
+    running.push({ server, stateDir });
+
+    if (historyPrice !== null) {
+        const now = Math.floor(Date.now() / 1000);
+        const prices = Array.from({ length: 24 }, (_, i) => ({ timestamp: now - (24 - i) * 3600, price: historyPrice }));
+        fs.writeFileSync(path.join(stateDir, 'fuel-prices.json'), JSON.stringify({ prices }));
+    }
+
+    const logger = new Logger('Test', false);
+    const api = new ApiClient(server.createSession(), logger, { baseUrl });
+    const fuel = new FuelService(api, logger, stateDir, {
+        minLevel: 1000,
+        targetLevel: 2000,
+        cheapPercentile: 20,
+        expensivePercentile: 70,
+        windowHours: 72,
+        trendHours: 12,
+        risingTrendPct: 5,
+        historyDays: 30,
+        minSamples: 12,
+    });
+
+    return { server, fuel };
+}
+
+describe('FuelService', () => {
+    afterEach(async () => {
+        for (const { server, stateDir } of running.splice(0)) {
+            await server.stop();
+            fs.rmSync(stateDir, { recursive: true, force: true });
+        }
+    });
+
+    test('preço entre os mais baratos da janela enche o silo', async () => {
+        const { fuel } = await createService(1500);
+
+        const decision = await fuel.shouldBuyFuel();
+
+        assert.equal(decision.shouldBuy, true);
+        assert.equal(decision.amount, 15000);
+        assert.ok(decision.stats.percentile! <= 20);
+    });
+
+    test('preço caro com o silo acima do mínimo não compra', async () => {
+        const { fuel } = await createService(500);
+
+        const decision = await fuel.shouldBuyFuel();
+
+        assert.equal(decision.shouldBuy, false);
+        assert.ok(decision.stats.percentile! >= 70);
+    });
+
+    test('trabalho previsto que deixaria o silo abaixo do mínimo compra até o alvo', async () => {
+        const { fuel } = await createService(null);
+
+        const decision = await fuel.shouldBuyFuel(4500);
+
+        // Sem histórico, compra só o necessário: 2.000L de reserva + 4.500L do trabalho
+        assert.equal(decision.stats.percentile, null);
+        assert.equal(decision.shouldBuy, true);
+        assert.equal(decision.amount, 2000 + 4500 - 5000);
+    });
+
+    test('compra e devolve o novo nível do silo', async () => {
+        const { server, fuel } = await createService(1500);
+
+        const level = await fuel.checkAndBuyFuel();
+
+        assert.equal(level, 20000);
+        assert.equal(server.state.fuelHolding, 20000);
+    });
+});
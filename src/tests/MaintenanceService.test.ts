@@ -0,0 +1,86 @@
+// ============================================
+// Farm Manager Bot - Maintenance Service Tests
+// ============================================
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiClient } from '../api/client';
+import { MaintenanceService } from '../services/MaintenanceService';
+import { WearStateFile } from '../types';
+import { Logger } from '../utils/logger';
+
+const HOUR_MS = 3600 * 1000;
+
+const stateDirs: string[] = [];
+
+/**
+ * MaintenanceService com o histórico de desgaste `state` já gravado em disco.
+ * As leituras não chamam a API, então o client não aponta para nenhum servidor.
+ */
+function createService(state: WearStateFile): MaintenanceService {
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-bot-test-'));
+    stateDirs.push(stateDir);
+    fs.writeFileSync(path.join(stateDir, 'wear.json'), JSON.stringify(state));
+
+    const logger = new Logger('Test', false);
+    return new MaintenanceService(new ApiClient('', logger), logger, stateDir, {
+        repairThreshold: 70,
+        excludeThreshold: 90,
+        sampleMaxAgeHours: 24,
+        cashReserve: 0,
+    });
+}
+
+function hoursAgo(hours: number): string {
+    return new Date(Date.now() - hours * HOUR_MS).toISOString();
+}
+
+describe('MaintenanceService', () => {
+    afterEach(() => {
+        for (const dir of stateDirs.splice(0)) {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('leitura mais antiga que o limite não vale como desgaste atual', () => {
+        const service = createService({
+            units: { 'tractor:201': { kind: 'tractor', id: 201, samples: [{ at: hoursAgo(30), wear: 95 }] } },
+        });
+
+        assert.equal(service.getWear('tractor', 201), null);
+        assert.equal(service.isWorn('tractor', 201), false);
+        assert.equal(service.getHealthReport().units, 0);
+    });
+
+    test('leitura repetida sem mudança de desgaste mantém a unidade atual', () => {
+        const service = createService({
+            units: { 'tractor:201': { kind: 'tractor', id: 201, samples: [{ at: hoursAgo(30), wear: 95 }] } },
+        });
+
+        service.observeUnits([{ id: 201, haHour: 5, img: '', wear: 95 }]);
+
+        assert.equal(service.getWear('tractor', 201), 95);
+        assert.equal(service.isWorn('tractor', 201), true);
+        assert.equal(service.getHealthReport().excluded.length, 1);
+        assert.equal(service.getHealthReport().excluded[0].samples.length, 1);
+    });
+
+    test('lastSeenAt recente vale mais que a data da amostra', () => {
+        const service = createService({
+            units: {
+                'implement:1211': {
+                    kind: 'implement',
+                    id: 1211,
+                    samples: [{ at: hoursAgo(48), wear: 75 }],
+                    lastSeenAt: hoursAgo(1),
+                },
+            },
+        });
+
+        assert.equal(service.getWear('implement', 1211), 75);
+        assert.deepEqual(service.getHealthReport().needsRepair.map(u => u.id), [1211]);
+    });
+});
@@ -0,0 +1,70 @@
+// ============================================
+// Farm Manager Bot - Scheduler Tests
+// ============================================
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Scheduler } from '../bot/Scheduler';
+import { PendingFarmland, PendingTabResponse } from '../types';
+import { Logger } from '../utils/logger';
+
+const INTERVAL_MS = 2 * 3600 * 1000;
+const NOW = 1_000_000_000;
+
+function pending(operating: PendingFarmland[], maturing: PendingFarmland[] = []): PendingTabResponse {
+    const byId = (fields: PendingFarmland[]) => Object.fromEntries(fields.map(f => [String(f.id), f]));
+    return {
+        BT: '',
+        farmlands: { operating: byId(operating), maturing: byId(maturing) },
+        canIrrigate: 0,
+        irrigateCount: 0,
+        checklist: false,
+    };
+}
+
+function field(id: number, opType: string, opTimeRemain: number): PendingFarmland {
+    return { id, farmlandId: id, farmlandName: `Campo ${id}`, area: 5, opType, opTimeRemain, opPct: 0, farmId: 1 };
+}
+
+function createScheduler(): Scheduler {
+    const scheduler = new Scheduler(INTERVAL_MS, new Logger('Test', false));
+    scheduler.markFullCycle(NOW);
+    return scheduler;
+}
+
+describe('Scheduler', () => {
+    test('acorda no fim da próxima operação antes do intervalo', () => {
+        const scheduler = createScheduler();
+        scheduler.syncFromPending(pending([field(101, 'plowing', 1800), field(102, 'clearing', 600)]), NOW);
+
+        const plan = scheduler.planNextWake(NOW);
+
+        assert.equal(plan.full, false);
+        assert.equal(plan.delayMs, 600 * 1000 + 5000);
+        assert.match(plan.reason, /Campo 102/);
+    });
+
+    test('sem eventos antes do intervalo, faz o ciclo completo', () => {
+        const scheduler = createScheduler();
+        scheduler.syncFromPending(pending([], [field(103, 'seeding', 3 * 3600)]), NOW);
+
+        assert.deepEqual(scheduler.planNextWake(NOW), { delayMs: INTERVAL_MS, full: true, reason: 'intervalo' });
+    });
+
+    test('entrega os passos dos eventos vencidos uma única vez', () => {
+        const scheduler = createScheduler();
+        scheduler.syncFromPending(pending([field(101, 'plowing', 60), field(104, 'harvesting', 3600)]), NOW);
+
+        assert.deepEqual([...scheduler.takeDueSteps(NOW)], []);
+        assert.deepEqual([...scheduler.takeDueSteps(NOW + 70 * 1000)].sort(), ['implements', 'seed']);
+        assert.deepEqual([...scheduler.takeDueSteps(NOW + 70 * 1000)], []);
+    });
+
+    test('a semeadura da aba de pendentes não antecipa a colheita já agendada', () => {
+        const scheduler = createScheduler();
+        scheduler.syncFromPending(pending([], [field(103, 'seeding', 3600)]), NOW);
+        scheduler.syncFromPending(pending([field(103, 'seeding', 600)]), NOW);
+
+        assert.equal(scheduler.planNextWake(NOW).delayMs, 3600 * 1000 + 5000);
+    });
+});
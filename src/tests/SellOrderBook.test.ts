@@ -0,0 +1,95 @@
+// ============================================
+// Farm Manager Bot - Sell Order Book Tests
+// ============================================
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SellOrderBook } from '../services/SellOrderBook';
+import { CropValuesResponse, SiloProduct } from '../types';
+import { Logger } from '../utils/logger';
+
+const stateDirs: string[] = [];
+
+function createBook(): SellOrderBook {
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-bot-test-'));
+    stateDirs.push(stateDir);
+    return new SellOrderBook(stateDir, new Logger('Test', false));
+}
+
+function product(id: number, name: string, amount: number, pctFull: number): SiloProduct {
+    return { id, name, amount, pctFull, remainingCapacity: 0, bushels: 0, img: '', growedImg: '', siloImg: '' };
+}
+
+function values(cropValues: Record<number, { price: number; rating: number }>): CropValuesResponse {
+    return {
+        BT: '',
+        history: {},
+        cropValues: Object.fromEntries(
+            Object.entries(cropValues).map(([id, v]) => [id, { priceIncrease: 0, cropValuePer1k: v.price, cropValueRating: v.rating }])
+        ),
+    };
+}
+
+describe('SellOrderBook', () => {
+    afterEach(() => {
+        for (const dir of stateDirs.splice(0)) {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('executa a ordem quando a condição é atingida, pelo nome ou id do grão', () => {
+        const book = createBook();
+        book.add({ crop: 'Trigo', condition: 'price', target: 900, sellType: 'all' });
+        book.add({ crop: '2', condition: 'rating', target: 4, sellType: 'half' });
+        const products = [product(1, 'Trigo', 5000, 40), product(2, 'Soja', 5000, 40)];
+
+        assert.deepEqual(book.match(products, values({ 1: { price: 850, rating: 5 }, 2: { price: 0, rating: 3 } })), []);
+
+        const matches = book.match(products, values({ 1: { price: 900, rating: 3 }, 2: { price: 0, rating: 4 } }));
+        assert.deepEqual(matches.map(m => [m.order.id, m.product.id, m.trigger]), [[1, 1, 'condition'], [2, 2, 'condition']]);
+    });
+
+    test('vende pelo limite do silo sem a condição e executa uma ordem por grão', () => {
+        const book = createBook();
+        book.add({ crop: 'trigo', condition: 'price', target: 2000, sellType: 'half', fallbackPct: 90 });
+        book.add({ crop: 'trigo', condition: 'price', target: 100, sellType: 'all' });
+
+        const cheap = values({ 1: { price: 500, rating: 1 } });
+        assert.deepEqual(book.match([product(1, 'Trigo', 5000, 50)], cheap).map(m => m.order.id), [2]);
+
+        const matches = book.match([product(1, 'Trigo', 9500, 95)], cheap);
+        assert.deepEqual(matches.map(m => [m.order.id, m.trigger]), [[1, 'fallback']]);
+    });
+
+    test('expira ordens vencidas sem executar', () => {
+        const book = createBook();
+        const order = book.add({ crop: 'trigo', condition: 'price', target: 100, sellType: 'all', expiresInHours: 1 });
+
+        // Ordem criada há duas horas
+        const file = JSON.parse(fs.readFileSync(book.getFilePath(), 'utf8'));
+        file.orders[0].expiresAt = new Date(Date.now() - 3600 * 1000).toISOString();
+        fs.writeFileSync(book.getFilePath(), JSON.stringify(file));
+
+        assert.deepEqual(book.match([product(1, 'Trigo', 5000, 99)], values({ 1: { price: 500, rating: 5 } })), []);
+        assert.equal(book.list(true).find(o => o.id === order.id)!.status, 'expired');
+        assert.equal(book.list().length, 0);
+    });
+
+    test('ordem executada ou cancelada sai da lista de abertas', () => {
+        const book = createBook();
+        const filled = book.add({ crop: 'trigo', condition: 'price', target: 100, sellType: 'all' });
+        const cancelled = book.add({ crop: 'soja', condition: 'price', target: 100, sellType: 'all' });
+        const products = [product(1, 'Trigo', 5000, 40), product(2, 'Soja', 5000, 40)];
+
+        book.recordFill(filled.id, { at: new Date().toISOString(), trigger: 'condition', amount: 5000, income: 1000, brokerage: 0, valuePer1k: 200 });
+        assert.equal(book.cancel(cancelled.id), true);
+        assert.equal(book.cancel(cancelled.id), false);
+
+        assert.deepEqual(book.list(), []);
+        assert.equal(book.productsWithOpenOrders(products).size, 0);
+        assert.deepEqual(book.list(true).map(o => o.status), ['filled', 'cancelled']);
+    });
+});
@@ -0,0 +1,71 @@
+// ============================================
+// Farm Manager Bot - Circuit Breaker Tests
+// ============================================
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CircuitBreaker } from '../api/circuitBreaker';
+import { Logger } from '../utils/logger';
+
+const COOLDOWN_MS = 30;
+
+function createBreaker(threshold: number = 3): CircuitBreaker {
+    return new CircuitBreaker('/get-crop-values.php', threshold, COOLDOWN_MS, new Logger('Test', false));
+}
+
+describe('CircuitBreaker', () => {
+    test('abre após N falhas seguidas e bloqueia durante o cooldown', () => {
+        const breaker = createBreaker();
+
+        breaker.recordFailure();
+        breaker.recordFailure();
+        assert.equal(breaker.canRequest(), true);
+
+        breaker.recordFailure();
+        assert.equal(breaker.getStatus().state, 'open');
+        assert.equal(breaker.canRequest(), false);
+    });
+
+    test('um sucesso zera as falhas seguidas', () => {
+        const breaker = createBreaker();
+
+        breaker.recordFailure();
+        breaker.recordFailure();
+        breaker.recordSuccess();
+        breaker.recordFailure();
+
+        assert.equal(breaker.getStatus().state, 'closed');
+        assert.equal(breaker.getStatus().consecutiveFailures, 1);
+    });
+
+    test('após o cooldown libera uma única requisição de teste', async () => {
+        const breaker = createBreaker(1);
+        breaker.recordFailure();
+
+        await sleep(COOLDOWN_MS + 5);
+
+        assert.equal(breaker.canRequest(), true);
+        assert.equal(breaker.getStatus().state, 'half_open');
+        assert.equal(breaker.canRequest(), false);
+
+        breaker.recordSuccess();
+        assert.equal(breaker.getStatus().state, 'closed');
+        assert.equal(breaker.canRequest(), true);
+    });
+
+    test('falha na requisição de teste reabre o circuito', async () => {
+        const breaker = createBreaker(3);
+        breaker.recordFailure();
+        breaker.recordFailure();
+        breaker.recordFailure();
+
+        await sleep(COOLDOWN_MS + 5);
+        assert.equal(breaker.canRequest(), true);
+
+        breaker.recordFailure();
+        assert.equal(breaker.getStatus().state, 'open');
+        assert.equal(breaker.canRequest(), false);
+        assert.ok(breaker.getStatus().retryInMs > 0);
+    });
+});
@@ -24,6 +24,7 @@ export interface TractorData {
     inUse: number;
     farmlandId: number;
     opTimes: Record<string, number>;
+    wear?: number; // Desgaste (%)
 }
 
 export interface TractorCategory {
@@ -36,6 +37,7 @@ export interface FarmTractors {
     plowing?: TractorCategory;
     clearing?: TractorCategory;
     seeding?: TractorCategory;
+    fertilizing?: TractorCategory;
     harvesting?: TractorCategory;
 }
 
@@ -184,13 +186,29 @@ export interface SeedingTabResponse extends BaseResponse {
 // Harvest Tab Response
 // ============================================
 
+export interface HarvestFarmland extends FarmlandData {
+    canHarvest: number;
+}
+
+// Na aba de colheita os terrenos são agrupados por cultura, não por estado
+export interface HarvestCropGroup {
+    canHarvest: number;
+    data: Record<string, HarvestFarmland>;
+}
+
+export interface HarvestFarm {
+    name: string;
+    countryCode: string;
+    farmlands: Record<string, HarvestCropGroup>;
+}
+
 export interface HarvestTabResponse extends BaseResponse {
     // Harvest tab pode retornar vazio quando não há colheita
     data?: {
         farmlands: number;
         sumArea: number;
     };
-    farms?: Record<string, Farm>;
+    farms?: Record<string, HarvestFarm>;
     tractors?: Record<string, FarmTractors>;
 }
 
@@ -251,6 +269,16 @@ export interface SiloTabResponse extends BaseResponse {
     };
 }
 
+export type SiloKind = 'crop' | 'fuel';
+export type CropSiloUpgradeSize = keyof SiloTabResponse['increase'];
+
+export interface SiloUpgradeResponse extends BaseResponse {
+    success: number;
+    cost: number;
+    siloCapacity: number; // Capacidade após a ampliação
+    errors?: string[];
+}
+
 // ============================================
 // Market Types
 // ============================================
@@ -285,6 +313,41 @@ export interface SellProductResponse extends BaseResponse {
     remaining: number;
 }
 
+// ============================================
+// Sell Order Types
+// ============================================
+
+export type SellOrderCondition = 'price' | 'rating';
+export type SellOrderStatus = 'open' | 'filled' | 'cancelled' | 'expired';
+
+export interface SellOrderFill {
+    at: string;
+    trigger: 'condition' | 'fallback';
+    amount: number;
+    income: number;
+    brokerage: number;
+    valuePer1k: number;
+}
+
+export interface SellOrder {
+    id: number;
+    crop: string; // Nome ou id do grão no silo
+    condition: SellOrderCondition;
+    target: number; // cropValuePer1k mínimo (price) ou cropValueRating mínimo (rating)
+    sellType: 'all' | 'half';
+    fallbackPct?: number; // % do silo em que vende mesmo sem a condição
+    createdAt: string;
+    expiresAt?: string;
+    status: SellOrderStatus;
+    closedAt?: string;
+    fill?: SellOrderFill;
+}
+
+export interface SellOrderStateFile {
+    nextId: number;
+    orders: SellOrder[];
+}
+
 // ============================================
 // Farmland Details
 // ============================================
@@ -309,6 +372,8 @@ export interface EquipmentCategory {
         ci: number;
         opDuration: number;
         nextUnitAvailableIn?: number;
+        workersAvailable?: number; // Trabalhadores que podem ser contratados para a operação
+        workerCostPerHa?: number; // Custo dos trabalhadores por hectare ($)
     };
     units?: EquipmentUnit[];
 }
@@ -370,6 +435,38 @@ export interface FarmlandDetailsResponse {
     canClear: number;
 }
 
+// ============================================
+// Farmland Action (seed/plow) Types
+// ============================================
+
+export interface FarmlandActionTractor {
+    id: number;
+    tractorName: string;
+    type: string; // Tipo do implemento atual (seeding, plowing...)
+    isPending: number;
+    hasImplement: number;
+    implementId?: number;
+    haHour: number;
+    hp: number;
+    wear?: number; // Desgaste do trator (%)
+    implementWear?: number; // Desgaste do implemento anexado (%)
+}
+
+export interface FarmlandActionImplement {
+    id: number;
+    name: string;
+    type: string;
+    available: number;
+    minHp: number;
+    haHour: number;
+    wear?: number; // %
+}
+
+export interface FarmlandActionResponse extends BaseResponse {
+    tractors: FarmlandActionTractor[];
+    implements?: FarmlandActionImplement[];
+}
+
 // ============================================
 // Action Types
 // ============================================
@@ -419,6 +516,153 @@ export interface BatchActionResponse extends BaseResponse {
     errors: string[];
 }
 
+// ============================================
+// Irrigation Types
+// ============================================
+
+export interface IrrigateResponse extends BaseResponse {
+    success: number;
+    userFarmlandId: number;
+    cost: number;
+    growTimeRemain: number; // Tempo de crescimento restante já com a irrigação (s)
+    irrigateCount: number;
+    errors?: string[];
+}
+
+export interface IrrigationStateFile {
+    costPerHa: number | null; // Custo por hectare da última irrigação feita pelo bot
+    observedAt?: string; // ISO
+}
+
+// ============================================
+// Worker Types
+// ============================================
+
+export interface WorkerStateFile {
+    day: string; // Date.toDateString() do dia do gasto
+    spentToday: number;
+}
+
+// ============================================
+// Implement Types
+// ============================================
+
+export interface ImplementChangeResponse extends BaseResponse {
+    success: number;
+    tractorId: number;
+    implementId: number;
+    errors?: string[];
+}
+
+// ============================================
+// Maintenance Types
+// ============================================
+
+export type WearUnitKind = 'tractor' | 'implement';
+
+export interface RepairResponse extends BaseResponse {
+    success: number;
+    id: number;
+    cost: number;
+    wear: number; // Desgaste após o reparo (%)
+    errors?: string[];
+}
+
+export interface WearSample {
+    at: string; // ISO
+    wear: number; // %
+}
+
+export interface UnitWearHistory {
+    kind: WearUnitKind;
+    id: number;
+    samples: WearSample[]; // Mais antigo primeiro
+    lastSeenAt?: string; // ISO da última leitura, mesmo sem mudança no desgaste
+    lastRepairAt?: string;
+}
+
+export interface WearStateFile {
+    units: Record<string, UnitWearHistory>; // chave: `${kind}:${id}`
+    repairCostPerPct?: number; // Custo ($) por ponto de desgaste reparado, do último reparo
+}
+
+export interface FleetHealthReport {
+    units: number;
+    averageWear: number;
+    needsRepair: UnitWearHistory[]; // acima do limite de reparo
+    excluded: UnitWearHistory[]; // acima do limite de exclusão, fora das operações
+}
+
+// ============================================
+// Fleet Advisor Types
+// ============================================
+
+export type MachineCategory = 'tractor' | 'harvester' | 'implement';
+
+export interface MachineOffer {
+    id: number;
+    name: string;
+    category: MachineCategory;
+    type: string; // Operação atendida (clearing, plowing, seeding, fertilizing, harvesting)
+    haHour: number;
+    fuelHour: number;
+    hp?: number;
+    price: number;
+}
+
+export interface MachineMarketResponse extends BaseResponse {
+    user: {
+        account: number;
+    };
+    machines: MachineOffer[];
+}
+
+export interface BuyMachineResponse extends BaseResponse {
+    success: number;
+    id: number; // Id da nova unidade
+    farmId: number;
+    cost: number;
+    errors?: string[];
+}
+
+/**
+ * Motivo de um gargalo: sem máquina livre, acima do limite de 6h ou mais lento que o aceitável
+ */
+export type BottleneckReason = 'no_equipment' | 'over_limit' | 'slow';
+
+export interface BottleneckEvent {
+    at: string; // ISO
+    opType: string;
+    farmId: number;
+    userFarmlandId: number;
+    area: number;
+    reason: BottleneckReason;
+    haHour?: number; // Velocidade somada das máquinas disponíveis (ausente em no_equipment)
+}
+
+export interface MachinePurchase {
+    at: string; // ISO
+    offerId: number;
+    name: string;
+    farmId: number;
+    opType: string;
+    cost: number;
+}
+
+export interface FleetAdvisorStateFile {
+    events: BottleneckEvent[]; // Mais antigo primeiro
+    purchases: MachinePurchase[];
+    lastReportAt?: string;
+}
+
+export interface PurchaseRecommendation {
+    offer: MachineOffer;
+    farmId: number;
+    haPerDay: number; // Hectares por dia que deixariam de esperar com a nova unidade
+    gainPerDay: number; // $ por dia, já descontado o combustível
+    paybackDays: number;
+}
+
 // ============================================
 // Auth Types
 // ============================================
@@ -428,25 +672,129 @@ export interface AuthCredentials {
     password: string;
 }
 
+export type AccountKind = 'email' | 'android' | 'guest';
+
+/**
+ * Estado persistido de uma conta entre reinícios do bot
+ */
+export interface AccountState {
+    key: string;
+    kind: AccountKind;
+    baseUrl: string;
+    email?: string;
+    accessToken?: string; // Token Android (guest ou capturado do app)
+    userId?: number;
+    phpSessionId?: string; // Último PHPSESSID válido
+    bt?: string; // Último BT recebido
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SessionStateFile {
+    accounts: Record<string, AccountState>;
+}
+
 // ============================================
 // Bot Configuration
 // ============================================
 
 export interface BotConfig {
+    baseUrl: string; // Host do jogo (ou de um mock server local)
     phpSessionId?: string;
     credentials?: AuthCredentials;
     androidToken?: string; // Para login via guest Android token
     checkIntervalMs: number;
     siloSellThreshold: number;
+    sellStrategy: 'threshold' | 'trend' | 'percentile'; // Estratégia de venda do silo (default: threshold)
+    sellForcePct: number; // % do silo em que a venda acontece qualquer que seja o preço (default: 95)
+    sellPricePercentile: number; // Percentil mínimo do preço no histórico para vender (default: 60)
+    sellGoodRating: number; // cropValueRating considerado bom para vender tudo (default: 4)
+    seedSelectionMode: SeedSelectionMode; // Critério de escolha da semente (default: cropScore)
+    seedSelectionFarmModes: Record<number, SeedSelectionMode>; // Critério por farm (farmId)
+    seedBlendProfitWeight: number; // Peso do lucro no modo blend, de 0 a 1 (default: 0.5)
+    seedCashReserve: number; // Saldo ($) que nunca é gasto com sementes (default: 0)
+    rotationEnabled: boolean; // Aplicar as regras de rotação de culturas na semeadura (default: false)
+    rotationMaxRepeats: number; // Vezes seguidas que uma cultura pode ser plantada no terreno (default: 1)
+    rotationFollowUps: Record<string, string[]>; // Cultura anterior -> culturas preferidas em seguida
+    rotationFarmPlans: Record<number, string[]>; // farmId -> sequência de culturas da farm
+    siloUpgradesEnabled: boolean; // Amplia os silos de grãos/combustível quando compensa (default: false)
+    siloUpgradeCashReserve: number; // Saldo ($) que nunca é gasto com ampliações (default: 100000)
+    siloUpgradeMaxPaybackFills: number; // Enchimentos do silo para a ampliação se pagar (default: 3)
     debug: boolean;
     maxTractorsPerOp: number; // Máximo de tratores por operação (default: 4)
     maxIdleTimeMinutes: number; // Tempo máximo que um campo pode ficar ocioso (default: 30)
+    fuelMinLevel: number; // Litros abaixo dos quais sempre compra (default: 1000)
+    fuelTargetLevel: number; // Nível buscado ao comprar o mínimo ou antes de uma alta (default: 2000)
+    fuelCheapPercentile: number; // Preço até este percentil: encher o silo (default: 20)
+    fuelExpensivePercentile: number; // Preço a partir deste percentil: só o mínimo (default: 70)
+    fuelWindowHours: number; // Janela dos percentis de preço (default: 72)
+    fuelTrendHours: number; // Janela da tendência de preço (default: 12)
+    fuelRisingTrendPct: number; // Alta (%/dia) que antecipa a compra até o nível alvo (default: 5)
+    fuelHistoryDays: number; // Tempo que o histórico de preços fica guardado (default: 30)
+    fuelMinSamples: number; // Amostras na janela para compras oportunistas (default: 12)
+    fuelForecastEnabled: boolean; // Prevê o combustível do trabalho para comprar e liberar tarefas (default: false)
+    fuelForecastHorizonHours: number; // Colheitas que amadurecem neste prazo entram na previsão (default: 6)
+    maintenanceEnabled: boolean; // Repara máquinas desgastadas automaticamente
+    wearRepairThreshold: number; // Desgaste (%) a partir do qual a máquina é reparada
+    wearExcludeThreshold: number; // Desgaste (%) a partir do qual a máquina deixa de ser usada
+    wearSampleMaxAgeHours: number; // Idade máxima (h) de uma leitura de desgaste
+    maintenanceCashReserve: number; // Saldo ($) que nunca é gasto com reparos
+    implementManagerEnabled: boolean; // Planeja trocas de implemento conforme o trabalho previsto
+    implementHorizonMinutes: number; // Operações que terminam neste prazo contam como demanda de implemento
+    batchActionsEnabled: boolean; // Agrupa terrenos da mesma farm/operação em uma única ação batch
+    workersEnabled: boolean; // Contrata trabalhadores quando não há máquina livre
+    workersMaxWaitMinutes: number; // Espera máxima por uma máquina antes de contratar trabalhadores
+    workersDailyBudget: number; // Gasto máximo diário com trabalhadores ($), 0 = sem limite
+    fleetAdvisorEnabled: boolean; // Loga gargalos da frota e recomendações de compra
+    fleetAdvisorWindowDays: number; // Dias de histórico de gargalos considerados (default: 7)
+    fleetAdvisorSlowHours: number; // Operações mais longas que isso (h) contam como lentas (default: 3)
+    fleetAdvisorValuePerHa: number; // Valor ($) de cada hectare que deixa de esperar por máquina (default: 500)
+    fleetAdvisorReportHours: number; // Intervalo entre relatórios de recomendação (h) (default: 6)
+    fleetAutoBuyEnabled: boolean; // Compra automaticamente a melhor recomendação (default: false)
+    fleetAutoBuyBudget: number; // Gasto total máximo com compras automáticas ($) (default: 0)
+    fleetMaxPaybackDays: number; // Retorno máximo estimado (dias) para comprar (default: 14)
+    apiTimeoutMs: number; // Timeout por requisição (default: 15000)
+    apiMaxRetries: number; // Tentativas extras para leituras (default: 3)
+    apiRetryBaseDelayMs: number; // Delay base do backoff exponencial (default: 1000)
+    circuitBreakerThreshold: number; // Falhas seguidas para pausar um endpoint (default: 5)
+    circuitBreakerCooldownMs: number; // Tempo de pausa do endpoint (default: 60000)
+    dryRun: boolean; // Simula ações que alteram o jogo sem enviá-las (default: false)
+    fertilizingEnabled: boolean; // Fertiliza terrenos em crescimento quando compensa (default: false)
+    fertilizeYieldBonusPct: number; // Aumento de produtividade esperado com fertilização (default: 20)
+    fertilizeMinGain: number; // Ganho líquido mínimo ($) para fertilizar um terreno (default: 1000)
+    fertilizeCostPerHa: number; // Custo do fertilizante por hectare ($) (default: 100)
+    irrigationEnabled: boolean; // Irriga terrenos em crescimento quando compensa (default: false)
+    irrigationGrowthReductionPct: number; // Redução esperada do tempo de crescimento (default: 25)
+    irrigationMinSavedMinutes: number; // Tempo mínimo economizado para irrigar (default: 60)
+    irrigationMaxCost: number; // Custo máximo estimado ($) por irrigação, 0 = sem limite (default: 0)
+    irrigationCostPerHa: number; // Custo por hectare até a primeira irrigação observada, 0 = desconhecido (default: 0)
+    cycleTimeoutMs: number; // Tempo máximo de um ciclo (default: 600000)
+    stepTimeoutMs: number; // Tempo máximo de cada etapa do ciclo (default: 180000)
+    stateDir: string; // Diretório dos arquivos de estado persistido (default: ./data)
+    accountKey?: string; // Conta no arquivo de sessões (ausente com PHPSESSID manual)
+    initialBT?: string; // BT da sessão restaurada
 }
 
 // ============================================
 // Task Types (for bot logic)
 // ============================================
 
+// Passos de um ciclo que podem ser disparados por eventos do jogo
+export type CycleStep = 'fuel' | 'maintenance' | 'implements' | 'harvest' | 'seed' | 'cultivate' | 'fertilize' | 'irrigate' | 'sell' | 'advisor';
+
+export interface StepRecord {
+    step: string;
+    outcome: 'ok' | 'error' | 'timeout' | 'skipped';
+    durationMs: number;
+    error?: string;
+}
+
+export interface CycleRecord {
+    startedAt: number;
+    durationMs: number;
+    steps: StepRecord[];
+}
+
 export interface AvailableTask {
     type: OperationType;
     farmId: number;
@@ -455,6 +803,10 @@ export interface AvailableTask {
     area: number;
     complexityIndex: number;
     farmlandName: string;
+    cropYield?: number; // Produtividade esperada (kg/ha), usada para avaliar fertilização
+    cropId?: number; // Semente escolhida pelo Smart Seeding (apenas seeding)
+    cropName?: string; // Nome da semente escolhida (apenas seeding)
+    previousCrop?: string; // Última cultura plantada no terreno, de previousSeed (apenas seeding)
 }
 
 export interface AvailableTractor {
@@ -469,6 +821,9 @@ export interface AvailableTractor {
 // Smart Seeding Types
 // ============================================
 
+// Critério de escolha da semente: cropScore do terreno, lucro estimado por ha/hora ou combinação ponderada
+export type SeedSelectionMode = 'cropScore' | 'profit' | 'blend';
+
 export interface CropScore {
     id: number;
     nameLatin: string;
@@ -535,6 +890,33 @@ export interface SeedInventory {
     kgPerHa: number;
 }
 
+// ============================================
+// Crop Rotation Types
+// ============================================
+
+export interface CropHistoryEntry {
+    crop: string;
+    at: string;
+    source: 'bot' | 'game'; // Semeado pelo bot ou visto em previousSeed (plantio manual)
+}
+
+export interface FieldRotationState {
+    farmId: number;
+    farmlandName: string;
+    history: CropHistoryEntry[]; // Mais antigo primeiro
+}
+
+export interface CropRotationStateFile {
+    fields: Record<string, FieldRotationState>; // Por userFarmlandId
+}
+
+// Nomes de cultura em minúsculas
+export interface RotationConstraints {
+    blocked: string[];
+    preferred: string[];
+    reason: string;
+}
+
 // ============================================
 // Fuel Types
 // ============================================
@@ -554,6 +936,10 @@ export interface FuelHistoryEntry {
     price: number;
 }
 
+export interface FuelPriceStateFile {
+    prices: FuelHistoryEntry[]; // timestamp em segundos, mais antigo primeiro
+}
+
 export interface FuelSiloResponse extends BaseResponse {
     canWatchAds: number;
     hasLivestock: number;
@@ -0,0 +1,31 @@
+// ============================================
+// Farm Manager Bot - State File Utility
+// ============================================
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Lê um arquivo JSON de estado, retornando `fallback` se ele ainda não existir
+ */
+export function readStateFile<T>(filePath: string, fallback: T): T {
+    if (!fs.existsSync(filePath)) {
+        return fallback;
+    }
+
+    const raw = fs.readFileSync(filePath, 'utf8');
+    return raw.trim() ? (JSON.parse(raw) as T) : fallback;
+}
+
+/**
+ * Grava o estado de forma atômica (arquivo temporário + rename), para que
+ * uma interrupção no meio da escrita nunca corrompa o arquivo anterior.
+ * O arquivo é criado com permissão 600, pois pode conter tokens de acesso.
+ */
+export function writeStateFile(filePath: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+    fs.renameSync(tmpPath, filePath);
+}